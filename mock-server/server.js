@@ -0,0 +1,222 @@
+// Minimal in-memory API for local development. Start with `npm run mock-server`
+// and point the app at it with VITE_FORM_API_URL=http://localhost:3001.
+//
+// It also stands in for the AI providers so validation can be exercised offline:
+//   VITE_AI_PROVIDER=openai VITE_AI_BASE_URL=http://localhost:3001/v1
+//   VITE_AI_PROVIDER=ollama VITE_AI_BASE_URL=http://localhost:3001
+// Send an `x-mock-delay` header (ms) to simulate a slow model, or `x-mock-status`
+// to force an error response.
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_SERVER_PORT || 3001);
+
+const forms = new Map();
+const revisions = new Map();
+
+// Mirrors the browser repository: every save bumps the revision and is kept in the history
+const saveRevision = (schema, revision) => {
+  const saved = { ...schema, revision, updatedAt: new Date().toISOString() };
+  forms.set(saved.id, saved);
+  revisions.set(saved.id, [
+    ...(revisions.get(saved.id) || []),
+    { revision, savedAt: saved.updatedAt, schema: saved },
+  ]);
+  return saved;
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET,POST,PUT,PATCH,DELETE,OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type,Accept,Authorization,X-Form-Id,X-Form-Revision,X-Mock-Delay,X-Mock-Status",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const notFound = (res, id) => sendJson(res, 404, { message: `Form "${id}" was not found.` });
+
+const handleForms = async (req, res, segments) => {
+  const [, id, action] = segments;
+
+  if (!id) {
+    if (req.method === "GET") return sendJson(res, 200, [...forms.values()]);
+    if (req.method === "POST") {
+      const schema = await readJson(req);
+      if (!schema.id || !schema.title || !Array.isArray(schema.fields)) {
+        return sendJson(res, 400, { message: "A form needs an id, a title and a fields array." });
+      }
+      if (forms.has(schema.id)) {
+        return sendJson(res, 409, { message: `A form with id "${schema.id}" already exists.` });
+      }
+      return sendJson(res, 201, saveRevision(schema, 1));
+    }
+  }
+
+  if (id && action === "revisions" && req.method === "GET") {
+    const history = revisions.get(id) || [];
+    const revision = segments[3];
+    if (!revision) return sendJson(res, 200, history);
+    const entry = history.find((item) => item.revision === Number(revision));
+    return entry
+      ? sendJson(res, 200, entry.schema)
+      : sendJson(res, 404, { message: `Revision ${revision} of "${id}" was not found.` });
+  }
+
+  if (id && !forms.has(id)) return notFound(res, id);
+
+  if (id && action === "duplicate" && req.method === "POST") {
+    const source = forms.get(id);
+    const copy = {
+      ...source,
+      id: `${source.id}_copy_${Date.now()}`,
+      title: `${source.title} (Copy)`,
+    };
+    return sendJson(res, 201, saveRevision(copy, 1));
+  }
+
+  if (id && !action) {
+    if (req.method === "GET") return sendJson(res, 200, forms.get(id));
+    if (req.method === "PUT") {
+      const schema = { ...(await readJson(req)), id };
+      return sendJson(res, 200, saveRevision(schema, (forms.get(id).revision || 0) + 1));
+    }
+    if (req.method === "DELETE") {
+      forms.delete(id);
+      return sendJson(res, 204);
+    }
+  }
+
+  return sendJson(res, 405, { message: `${req.method} is not supported here.` });
+};
+
+// Deterministic stand-in for a model: flags empty required fields and malformed emails
+const reviewSubmission = ({ fields = [], values = {} }) => {
+  const suggestions = [];
+
+  fields.forEach((field) => {
+    const value = values[field.id];
+    const isEmpty = value === undefined || value === null || value === "";
+
+    if (field.required && isEmpty) {
+      suggestions.push({ field: field.id, suggestion: `${field.label} has not been filled in yet.`, severity: "info" });
+    } else if (field.type === "email" && typeof value === "string" && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value)) {
+      suggestions.push({ field: field.id, suggestion: "This does not look like a deliverable email address.", severity: "error" });
+    }
+  });
+
+  return { suggestions, confidence: suggestions.some((item) => item.severity === "error") ? 0.6 : 0.95 };
+};
+
+// Generation requests carry { prompt }; answer with a small fixed form built around it
+const draftForm = (prompt) => ({
+  id: `mock_form_${Date.now()}`,
+  title: prompt.split(/\s+/).slice(0, 4).join(" ") || "Generated Form",
+  description: prompt,
+  fields: [
+    { id: "fullName", type: "text", label: "Full Name", required: true, validation: { minLength: 2 }, icon: "user" },
+    { id: "email", type: "email", label: "Email Address", required: true, icon: "mail" },
+    { id: "notes", type: "textarea", label: "Notes", validation: { maxLength: 500 }, icon: "message" },
+  ],
+  submitLabel: "Submit",
+});
+
+const readPromptPayload = (messages = []) => {
+  const userMessage = [...messages].reverse().find((message) => message.role === "user");
+  try {
+    return JSON.parse(userMessage?.content || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const simulateModel = async (req, res) => {
+  const delay = Number(req.headers["x-mock-delay"] || 0);
+  if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+
+  const status = Number(req.headers["x-mock-status"] || 0);
+  if (status >= 400) {
+    sendJson(res, status, { message: `Mock model failure (${status})` });
+    return null;
+  }
+
+  const body = await readJson(req);
+  const payload = readPromptPayload(body.messages);
+  const reply = typeof payload.prompt === "string" ? draftForm(payload.prompt) : reviewSubmission(payload);
+  return { body, reply: JSON.stringify(reply) };
+};
+
+// OpenAI-compatible: POST /v1/chat/completions
+const handleOpenAI = async (req, res, segments) => {
+  if (req.method !== "POST" || segments[1] !== "chat" || segments[2] !== "completions") {
+    return sendJson(res, 404, { message: "Only POST /v1/chat/completions is mocked." });
+  }
+  const result = await simulateModel(req, res);
+  if (!result) return;
+  sendJson(res, 200, {
+    id: `chatcmpl-mock-${Date.now()}`,
+    object: "chat.completion",
+    model: result.body.model,
+    choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: result.reply } }],
+  });
+};
+
+// Ollama-style: POST /api/chat
+const handleOllama = async (req, res, segments) => {
+  if (req.method !== "POST" || segments[1] !== "chat") {
+    return sendJson(res, 404, { message: "Only POST /api/chat is mocked." });
+  }
+  const result = await simulateModel(req, res);
+  if (!result) return;
+  sendJson(res, 200, {
+    model: result.body.model,
+    created_at: new Date().toISOString(),
+    message: { role: "assistant", content: result.reply },
+    done: true,
+  });
+};
+
+const routes = {
+  forms: handleForms,
+  v1: handleOpenAI,
+  api: handleOllama,
+};
+
+export const createMockServer = () =>
+  createServer(async (req, res) => {
+    if (req.method === "OPTIONS") return sendJson(res, 204);
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    const handler = routes[segments[0]];
+
+    if (!handler) return sendJson(res, 404, { message: `No route for ${url.pathname}` });
+
+    try {
+      await handler(req, res, segments, url);
+    } catch (error) {
+      sendJson(res, 400, { message: error instanceof Error ? error.message : "Bad request" });
+    }
+  });
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  createMockServer().listen(PORT, () => {
+    console.log(`Mock API listening on http://localhost:${PORT}`);
+  });
+}
@@ -1,4 +1,3 @@
-import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -6,7 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useFormSubmission } from "@/hooks/useFormSubmission";
+import { useSpamProtection } from "@/hooks/useSpamProtection";
 import { useToast } from "@/hooks/use-toast";
+import { contactFormSchema } from "@/data/formSchemas";
+import { InferSubmission } from "@/types/submission";
 import { User, Mail } from "lucide-react";
 
 const formSchema = z.object({
@@ -15,36 +18,59 @@ const formSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
 });
 
-type FormData = z.infer<typeof formSchema>;
+// Derived from the schema definition, so the two cannot drift apart unnoticed
+type FormData = InferSubmission<typeof contactFormSchema>;
 
 const ContactForm = () => {
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { submitForm } = useFormSubmission();
+  const spamProtection = useSpamProtection(contactFormSchema);
+  const { honeypot } = spamProtection;
   const { toast } = useToast();
 
   const {
     register,
     handleSubmit,
     reset,
-    formState: { errors },
+    // Covers the wait for the proof of work as well as sending
+    formState: { errors, isSubmitting },
   } = useForm<FormData>({
     resolver: zodResolver(formSchema),
   });
 
   const onSubmit = async (data: FormData) => {
-    setIsSubmitting(true);
-    
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    
-    console.log("Form submitted:", data);
-    
-    toast({
-      title: "Success!",
-      description: "Your information has been submitted successfully.",
-    });
-    
-    reset();
-    setIsSubmitting(false);
+    // Waits for the proof of work when it is still being computed
+    const spamCheck = await spamProtection.check();
+    if (spamCheck.success === false) {
+      // Bots are not told that their submission went nowhere
+      if (spamCheck.failure === "honeypot") {
+        spamProtection.restart();
+        reset();
+        return;
+      }
+      toast({
+        title: "Submission not sent",
+        description:
+          spamCheck.failure === "tooFast"
+            ? "That was quick! Please check your answers and submit again in a few seconds."
+            : "You have sent this form several times already. Please try again later.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const outcome = await submitForm(contactFormSchema, data, spamCheck.signals);
+
+    if (outcome.success) {
+      toast({ title: "Success!", description: outcome.message || "Your submission has been received." });
+      spamProtection.recordSubmission();
+      reset();
+    } else {
+      toast({
+        title: "Submission Failed",
+        description: outcome.message || "Something went wrong while submitting the form.",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -111,6 +137,14 @@ const ContactForm = () => {
               )}
             </div>
 
+            {honeypot && (
+              // Moved off screen rather than hidden, since bots skip inputs they can tell are hidden
+              <div aria-hidden="true" className="absolute -start-[9999px] top-auto h-px w-px overflow-hidden">
+                <label htmlFor={`contact-${honeypot.name}`}>Leave this field empty</label>
+                <input id={`contact-${honeypot.name}`} type="text" tabIndex={-1} autoComplete="off" {...honeypot} />
+              </div>
+            )}
+
             <Button
               type="submit"
               disabled={isSubmitting}
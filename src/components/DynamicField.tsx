@@ -1,171 +1,94 @@
 import { FormField } from "@/types/form";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { Calendar } from "@/components/ui/calendar";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Button } from "@/components/ui/button";
-import { format } from "date-fns";
-import { CalendarIcon, User, Mail, MessageSquare, Hash, Calendar as CalendarLucide } from "lucide-react";
-import { UseFormRegister, FieldErrors, Control, Controller } from "react-hook-form";
-import { cn } from "@/lib/utils";
+import { UseFormRegister, FieldErrors, Control, get } from "react-hook-form";
+import { getFieldIcon } from "@/lib/fieldIcons";
+import { getFieldInputId } from "@/lib/fieldGroups";
+import { getCustomFieldType } from "@/lib/fieldTypes";
+import { getTranslator } from "@/lib/i18n";
+import { FieldRenderers, defaultFieldRenderers } from "@/components/fields";
 
 interface DynamicFieldProps {
   field: FormField;
-  register: UseFormRegister<any>;
+  // Form path of the value; differs from the field id inside groups, e.g. "attendees.0.email"
+  name?: string;
+  register: UseFormRegister<Record<string, unknown>>;
   errors: FieldErrors;
-  control: Control<any>;
+  control: Control<Record<string, unknown>>;
+  // Locale of the built-in texts and date formats; field text comes from the (translated) field itself
+  locale?: string;
+  // Controls per field type; the shadcn set when missing
+  renderers?: FieldRenderers;
 }
 
-const getFieldIcon = (type: string, iconName?: string) => {
-  if (iconName === "user") return <User className="w-4 h-4" />;
-  if (iconName === "mail") return <Mail className="w-4 h-4" />;
-  if (iconName === "message") return <MessageSquare className="w-4 h-4" />;
-  if (iconName === "hash") return <Hash className="w-4 h-4" />;
-  if (iconName === "calendar") return <CalendarLucide className="w-4 h-4" />;
-  
-  // Default icons based on field type
-  switch (type) {
-    case 'email': return <Mail className="w-4 h-4" />;
-    case 'textarea': return <MessageSquare className="w-4 h-4" />;
-    case 'number': return <Hash className="w-4 h-4" />;
-    case 'date': return <CalendarLucide className="w-4 h-4" />;
-    default: return <User className="w-4 h-4" />;
-  }
-};
-
-export const DynamicField = ({ field, register, errors, control }: DynamicFieldProps) => {
-  const error = errors[field.id];
-  const icon = getFieldIcon(field.type, field.icon);
-
-  const renderField = () => {
-    switch (field.type) {
-      case 'textarea':
-        return (
-          <Textarea
-            id={field.id}
-            placeholder={field.placeholder}
-            {...register(field.id)}
-            className="bg-input border-border focus:border-primary focus:ring-primary"
-          />
-        );
-
-      case 'select':
-        return (
-          <Controller
-            name={field.id}
-            control={control}
-            render={({ field: controllerField }) => (
-              <Select onValueChange={controllerField.onChange} value={controllerField.value}>
-                <SelectTrigger className="bg-input border-border focus:border-primary focus:ring-primary">
-                  <SelectValue placeholder={field.placeholder || "Select an option"} />
-                </SelectTrigger>
-                <SelectContent>
-                  {field.options?.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            )}
-          />
-        );
-
-      case 'checkbox':
-        return (
-          <Controller
-            name={field.id}
-            control={control}
-            render={({ field: controllerField }) => (
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id={field.id}
-                  checked={controllerField.value}
-                  onCheckedChange={controllerField.onChange}
-                />
-                <Label htmlFor={field.id} className="text-sm font-normal">
-                  {field.placeholder || field.label}
-                </Label>
-              </div>
-            )}
-          />
-        );
+export const DynamicField = ({
+  field,
+  name = field.id,
+  register,
+  errors,
+  control,
+  locale = "en",
+  renderers = defaultFieldRenderers,
+}: DynamicFieldProps) => {
+  const t = getTranslator(locale);
+  const error = get(errors, name);
+  // Field arrays report count problems under "root"; errors inside entries are shown by the entry fields
+  const errorMessage: string | undefined = error?.message ?? error?.root?.message;
+  const FieldIcon = getFieldIcon(field.type, field.icon);
+  // Element ids stay unique when the same group field is rendered once per entry
+  const inputId = getFieldInputId(name);
+  const labelId = `${inputId}-label`;
+  const errorId = `${inputId}-error`;
+  // Shared by every control so assistive technology reads the error with the field
+  const ariaProps = {
+    "aria-invalid": errorMessage ? true : undefined,
+    "aria-describedby": errorMessage ? errorId : undefined,
+    "aria-required": field.required || undefined,
+  };
+  // Computed values come from other fields, so the input only displays them
+  const isComputed = !!field.compute;
+  // Types an app did not override use the control they were registered with
+  const FieldControl = renderers[field.type] ?? getCustomFieldType(field.type)?.render ?? defaultFieldRenderers.text;
 
-      case 'date':
-        return (
-          <Controller
-            name={field.id}
-            control={control}
-            render={({ field: controllerField }) => (
-              <Popover>
-                <PopoverTrigger asChild>
-                  <Button
-                    variant="outline"
-                    className={cn(
-                      "w-full justify-start text-left font-normal bg-input border-border focus:border-primary",
-                      !controllerField.value && "text-muted-foreground"
-                    )}
-                  >
-                    <CalendarIcon className="mr-2 h-4 w-4" />
-                    {controllerField.value ? (
-                      format(controllerField.value, "PPP")
-                    ) : (
-                      <span>{field.placeholder || "Pick a date"}</span>
-                    )}
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <Calendar
-                    mode="single"
-                    selected={controllerField.value}
-                    onSelect={controllerField.onChange}
-                    initialFocus
-                    className="p-3 pointer-events-auto"
-                  />
-                </PopoverContent>
-              </Popover>
-            )}
-          />
-        );
+  const controlElement = (
+    <FieldControl
+      field={field}
+      name={name}
+      inputId={inputId}
+      labelId={labelId}
+      ariaProps={ariaProps}
+      register={register}
+      errors={errors}
+      control={control}
+      locale={locale}
+      readOnly={isComputed}
+      renderers={renderers}
+    />
+  );
 
-      default:
-        return (
-          <Input
-            id={field.id}
-            type={field.type}
-            placeholder={field.placeholder}
-            {...register(field.id)}
-            className="bg-input border-border focus:border-primary focus:ring-primary"
-          />
-        );
-    }
-  };
+  const errorText = errorMessage && (
+    <p id={errorId} className="text-destructive text-sm">{errorMessage}</p>
+  );
 
-  if (field.type === 'checkbox') {
+  // A checkbox without its own sentence is labelled by the box's label alone
+  if (field.type === 'checkbox' && !field.placeholder) {
     return (
       <div className="space-y-2">
-        {renderField()}
-        {error && (
-          <p className="text-destructive text-sm">{error.message as string}</p>
-        )}
+        {controlElement}
+        {errorText}
       </div>
     );
   }
 
   return (
     <div className="space-y-2">
-      <Label htmlFor={field.id} className="text-foreground flex items-center gap-2">
-        {icon}
+      <Label id={labelId} htmlFor={inputId} className="text-foreground flex items-center gap-2">
+        <FieldIcon className="w-4 h-4" />
         {field.label}
         {field.required && <span className="text-destructive">*</span>}
+        {isComputed && <span className="text-xs font-normal text-muted-foreground">{t("field.calculated")}</span>}
       </Label>
-      {renderField()}
-      {error && (
-        <p className="text-destructive text-sm">{error.message as string}</p>
-      )}
+      {controlElement}
+      {errorText}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { ReactElement } from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import axe from "axe-core";
+import { builtInFormSchemas, contactFormSchema, jobApplicationSchema } from "@/data/formSchemas";
+import { DynamicFormRenderer } from "@/components/DynamicFormRenderer";
+
+const renderForm = (element: ReactElement) =>
+  render(<QueryClientProvider client={new QueryClient()}>{element}</QueryClientProvider>);
+
+// jsdom does no layout, so colour contrast cannot be measured here
+const getViolations = async (container: HTMLElement) => {
+  const results = await axe.run(container, { rules: { "color-contrast": { enabled: false } } });
+  return results.violations.map((violation) => `${violation.id}: ${violation.nodes.map((node) => node.target.join(" ")).join(", ")}`);
+};
+
+const submitEmptyForm = async (container: HTMLElement) => {
+  fireEvent.submit(container.querySelector("form")!);
+  await screen.findByRole("region", { name: /problem/ });
+};
+
+describe("DynamicFormRenderer accessibility", () => {
+  it.each(builtInFormSchemas.map((schema) => [schema.id, schema] as const))("renders %s without axe violations", async (_, schema) => {
+    const { container } = renderForm(<DynamicFormRenderer schema={schema} />);
+    expect(await getViolations(container)).toEqual([]);
+  });
+
+  it("has no violations while the error summary is shown", async () => {
+    const { container } = renderForm(<DynamicFormRenderer schema={contactFormSchema} />);
+    await submitEmptyForm(container);
+    expect(container.querySelector("[aria-invalid='true']")).not.toBeNull();
+    expect(await getViolations(container)).toEqual([]);
+  });
+
+  it("has no violations on a wizard step that failed to validate", async () => {
+    const { container } = renderForm(<DynamicFormRenderer schema={jobApplicationSchema} />);
+    expect(screen.getByText(jobApplicationSchema.steps![0].title)).toBeDefined();
+    await submitEmptyForm(container);
+    expect(await getViolations(container)).toEqual([]);
+  });
+});
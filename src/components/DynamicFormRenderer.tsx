@@ -1,145 +1,104 @@
-import { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
+import { useEffect, useMemo, useRef } from "react";
+import { format } from "date-fns";
 import { FormSchema } from "@/types/form";
+import { getFieldInputId } from "@/lib/fieldGroups";
+import { getDateLocale, getLocaleName } from "@/lib/i18n";
+import { UseSchemaFormOptions, useSchemaForm } from "@/hooks/useSchemaForm";
+import { useToast } from "@/hooks/use-toast";
 import { DynamicField } from "@/components/DynamicField";
+import { FieldRenderers, getFieldRenderers } from "@/components/fields";
+import { FormReview } from "@/components/FormReview";
+import { SchemaDiagnostics } from "@/components/SchemaDiagnostics";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { useToast } from "@/hooks/use-toast";
-import { useAIValidation } from "@/hooks/useAIValidation";
-import { Brain, CheckCircle, AlertTriangle, Info } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Brain, CheckCircle, AlertTriangle, Info, ChevronLeft, ChevronRight, Languages, History } from "lucide-react";
 
-interface DynamicFormRendererProps {
-  schema: FormSchema;
-  onSubmit?: (data: Record<string, any>) => void;
+interface DynamicFormRendererProps<S extends FormSchema> extends UseSchemaFormOptions<S> {
+  schema: S;
+  // Controls for some field types, replacing the shadcn ones
+  renderers?: FieldRenderers;
 }
 
-const createValidationSchema = (schema: FormSchema) => {
-  const schemaObject: Record<string, z.ZodTypeAny> = {};
-
-  schema.fields.forEach((field) => {
-    let validator: z.ZodTypeAny;
+export const DynamicFormRenderer = <S extends FormSchema>({
+  schema,
+  renderers,
+  ...options
+}: DynamicFormRendererProps<S>) => {
+  const { preview = false } = options;
+  const fieldRenderers = useMemo(() => getFieldRenderers(renderers), [renderers]);
+  const {
+    schema: localizedSchema,
+    schemaErrors,
+    locale: activeLocale,
+    locales,
+    setLocale,
+    dir,
+    t,
+    register,
+    control,
+    errors,
+    values: formData,
+    fields,
+    steps,
+    stepIndex,
+    isWizard,
+    isReviewStep,
+    goToStep,
+    submit,
+    submitStatus,
+    honeypot,
+    isSubmitting,
+    uploadProgress,
+    errorSummary,
+    focusField,
+    isValidating,
+    aiValidationResults,
+    suggestions,
+    aiAnnouncement,
+    pendingDraft,
+    draftSavedAt,
+    resumeDraft,
+    discardDraft,
+    clearDraft,
+  } = useSchemaForm(schema, options);
+  const { toast } = useToast();
 
-    switch (field.type) {
-      case 'email':
-        validator = z.string().email("Please enter a valid email address");
+  // Each submit gives a new status, so the same outcome twice is shown twice. A change of
+  // language does not show the last one again.
+  const shownStatus = useRef(submitStatus);
+  useEffect(() => {
+    if (!submitStatus || submitStatus === shownStatus.current) return;
+    shownStatus.current = submitStatus;
+    switch (submitStatus.type) {
+      case "preview":
+        toast({ title: t("form.previewTitle"), description: t("form.previewDescription") });
         break;
-      case 'number':
-        validator = z.coerce.number();
-        if (field.validation?.min !== undefined) {
-          validator = (validator as z.ZodNumber).min(field.validation.min);
-        }
-        if (field.validation?.max !== undefined) {
-          validator = (validator as z.ZodNumber).max(field.validation.max);
-        }
+      case "success":
+        toast({ title: t("form.successTitle"), description: submitStatus.message || t("form.successDescription") });
         break;
-      case 'date':
-        validator = z.date({
-          required_error: `${field.label} is required`,
+      case "failed":
+        toast({
+          title: t("form.failedTitle"),
+          description: submitStatus.message || t("form.failedDescription"),
+          variant: "destructive",
         });
         break;
-      case 'checkbox':
-        validator = z.boolean().optional();
+      case "aiRejected":
+        toast({ title: t("form.invalidTitle"), description: t("form.invalidDescription"), variant: "destructive" });
         break;
-      default:
-        validator = z.string();
-        if (field.validation?.minLength) {
-          validator = (validator as z.ZodString).min(field.validation.minLength, `${field.label} must be at least ${field.validation.minLength} characters`);
-        }
-        if (field.validation?.maxLength) {
-          validator = (validator as z.ZodString).max(field.validation.maxLength, `${field.label} must be no more than ${field.validation.maxLength} characters`);
-        }
-        if (field.validation?.pattern) {
-          validator = (validator as z.ZodString).regex(new RegExp(field.validation.pattern), `Invalid ${field.label.toLowerCase()} format`);
-        }
+      case "spam":
+        toast({
+          title: t("spam.title"),
+          description: t(submitStatus.reason === "tooFast" ? "spam.tooFast" : "spam.rateLimited"),
+          variant: "destructive",
+        });
         break;
     }
-
-    if (field.required && field.type !== 'checkbox') {
-      if (field.type === 'date') {
-        // Date validation is already handled above
-      } else {
-        validator = (validator as z.ZodString).min(1, `${field.label} is required`);
-      }
-    } else if (!field.required && field.type !== 'checkbox' && field.type !== 'date') {
-      validator = (validator as z.ZodString).optional();
-    }
-
-    schemaObject[field.id] = validator;
-  });
-
-  return z.object(schemaObject);
-};
-
-export const DynamicFormRenderer = ({ schema, onSubmit }: DynamicFormRendererProps) => {
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [aiValidationResults, setAiValidationResults] = useState<any>(null);
-  const { toast } = useToast();
-  const { validateWithAI, isValidating, suggestions } = useAIValidation();
-
-  const validationSchema = createValidationSchema(schema);
-  
-  const {
-    register,
-    handleSubmit,
-    reset,
-    control,
-    watch,
-    formState: { errors },
-  } = useForm({
-    resolver: zodResolver(validationSchema),
-  });
-
-  const formData = watch();
-
-  // AI validation on form data changes
-  useEffect(() => {
-    const timeoutId = setTimeout(async () => {
-      if (Object.keys(formData).length > 0) {
-        const results = await validateWithAI(formData, schema.fields);
-        setAiValidationResults(results);
-      }
-    }, 1000);
-
-    return () => clearTimeout(timeoutId);
-  }, [formData, validateWithAI, schema.fields]);
-
-  const handleFormSubmit = async (data: Record<string, any>) => {
-    setIsSubmitting(true);
-    
-    // Final AI validation before submission
-    const finalValidation = await validateWithAI(data, schema.fields);
-    
-    if (!finalValidation.isValid) {
-      toast({
-        title: "Validation Issues",
-        description: "Please address the validation issues before submitting.",
-        variant: "destructive",
-      });
-      setIsSubmitting(false);
-      return;
-    }
-    
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    
-    console.log("Form submitted:", data);
-    console.log("AI Validation Confidence:", finalValidation.confidence);
-    
-    if (onSubmit) {
-      onSubmit(data);
-    } else {
-      toast({
-        title: "Success!",
-        description: `Form submitted with ${Math.round(finalValidation.confidence * 100)}% AI confidence.`,
-      });
-    }
-    
-    reset();
-    setIsSubmitting(false);
-  };
+  }, [submitStatus, t, toast]);
 
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
@@ -150,37 +109,112 @@ export const DynamicFormRenderer = ({ schema, onSubmit }: DynamicFormRendererPro
     }
   };
 
+  // A broken schema would throw while building validators, so explain the problem instead
+  if (schemaErrors.length > 0) {
+    return (
+      <div className={preview ? "p-4" : "min-h-screen bg-gradient-background flex items-center justify-center p-4"}>
+        <Card role="alert" className="w-full max-w-2xl mx-auto border-destructive/50 bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="w-5 h-5" />
+              {t("form.schemaErrorTitle")}
+            </CardTitle>
+            <CardDescription>
+              {t("form.schemaErrorDescription", {
+                form: schema.title ? t("form.schemaErrorNamed", { title: schema.title }) : t("form.schemaErrorUnnamed"),
+                count: schemaErrors.length,
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SchemaDiagnostics diagnostics={schemaErrors} />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
-    <div className="min-h-screen bg-gradient-background flex items-center justify-center p-4">
-      <Card className="w-full max-w-2xl bg-card/80 backdrop-blur-sm border-border/50 shadow-glow">
+    <div
+      lang={activeLocale}
+      dir={dir}
+      className={preview ? "p-4" : "min-h-screen bg-gradient-background flex items-center justify-center p-4"}
+    >
+      <Card className={cn("w-full max-w-2xl bg-card/80 backdrop-blur-sm border-border/50", preview ? "mx-auto" : "shadow-glow")}>
         <CardHeader className="text-center">
+          {locales.length > 1 && (
+            <div className="flex justify-end">
+              <Select value={activeLocale} onValueChange={setLocale} dir={dir}>
+                <SelectTrigger aria-label={t("form.language")} className="h-8 w-auto gap-2 bg-input border-border text-xs">
+                  <Languages className="w-4 h-4" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locales.map((code) => (
+                    <SelectItem key={code} value={code} lang={code}>
+                      {getLocaleName(code)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <CardTitle className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-            {schema.title}
+            {localizedSchema.title}
           </CardTitle>
-          {schema.description && (
+          {localizedSchema.description && (
             <CardDescription className="text-muted-foreground">
-              {schema.description}
+              {localizedSchema.description}
             </CardDescription>
           )}
         </CardHeader>
         <CardContent>
+          {pendingDraft && (
+            <Card role="status" className="mb-6 border-primary/50 bg-primary/5">
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start gap-2">
+                  <History className="w-5 h-5 text-primary shrink-0" />
+                  <div>
+                    <p className="font-medium">{t("draft.resumeTitle")}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {t("draft.resumeDescription", {
+                        date: format(new Date(pendingDraft.savedAt), "PPp", { locale: getDateLocale(activeLocale) }),
+                      })}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button type="button" size="sm" onClick={resumeDraft}>
+                    {t("draft.resume")}
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={discardDraft}>
+                    {t("draft.discard")}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* AI Validation Status */}
+          <div role="status" aria-live="polite" className="sr-only">
+            {aiAnnouncement}
+          </div>
           {(isValidating || aiValidationResults) && (
             <Card className="mb-6 border-border/50 bg-muted/50">
               <CardContent className="p-4">
                 <div className="flex items-center gap-2 mb-3">
                   <Brain className="w-5 h-5 text-primary" />
-                  <span className="font-medium">AI Validation</span>
+                  <span className="font-medium">{t("form.aiTitle")}</span>
                   {isValidating && (
                     <Badge variant="secondary" className="animate-pulse">
-                      Analyzing...
+                      {t("form.aiAnalyzing")}
                     </Badge>
                   )}
                   {aiValidationResults && (
                     <Badge 
                       variant={aiValidationResults.isValid ? "default" : "destructive"}
                     >
-                      {Math.round(aiValidationResults.confidence * 100)}% Confidence
+                      {t("form.aiConfidence", { percent: Math.round(aiValidationResults.confidence * 100) })}
                     </Badge>
                   )}
                 </div>
@@ -192,7 +226,7 @@ export const DynamicFormRenderer = ({ schema, onSubmit }: DynamicFormRendererPro
                         {getSeverityIcon(suggestion.severity)}
                         <div className="flex-1">
                           <p className="text-sm font-medium">
-                            {schema.fields.find(f => f.id === suggestion.field)?.label}
+                            {localizedSchema.fields.find(f => f.id === suggestion.field)?.label}
                           </p>
                           <p className="text-xs text-muted-foreground">
                             {suggestion.suggestion}
@@ -206,26 +240,150 @@ export const DynamicFormRenderer = ({ schema, onSubmit }: DynamicFormRendererPro
             </Card>
           )}
 
-          <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
-            {schema.fields.map((field) => (
+          <form onSubmit={submit} className="space-y-6">
+            {isWizard && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-foreground">
+                    {isReviewStep ? t("form.reviewTitle") : steps[stepIndex].title}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {t("form.stepOf", { current: stepIndex + 1, total: steps.length + 1 })}
+                  </span>
+                </div>
+                <Progress
+                  value={((stepIndex + 1) / (steps.length + 1)) * 100}
+                  className="h-2"
+                  aria-label={t("form.stepOf", { current: stepIndex + 1, total: steps.length + 1 })}
+                />
+                {!isReviewStep && steps[stepIndex].description && (
+                  <p className="text-sm text-muted-foreground">{steps[stepIndex].description}</p>
+                )}
+              </div>
+            )}
+
+            {errorSummary.length > 0 && (
+              <div
+                role="region"
+                aria-labelledby="form-error-summary"
+                className="rounded-lg border border-destructive/50 bg-destructive/5 p-4"
+              >
+                <p id="form-error-summary" className="flex items-center gap-2 font-medium text-destructive">
+                  <AlertTriangle className="w-4 h-4" />
+                  {t("form.errorSummary", { count: errorSummary.length })}
+                </p>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {errorSummary.map((item) => (
+                    <li key={item.name}>
+                      <a
+                        href={`#${getFieldInputId(item.name)}`}
+                        onClick={(event) => {
+                          event.preventDefault();
+                          focusField(item.name);
+                        }}
+                        className="text-destructive underline-offset-4 hover:underline"
+                      >
+                        {item.label}: {item.message}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {isReviewStep && (
+              <FormReview steps={steps} values={formData} onEditStep={goToStep} locale={activeLocale} />
+            )}
+
+            {fields.map((field) => (
               <DynamicField
                 key={field.id}
                 field={field}
                 register={register}
                 errors={errors}
                 control={control}
+                locale={activeLocale}
+                renderers={fieldRenderers}
               />
             ))}
 
-            <Button
-              type="submit"
-              disabled={isSubmitting || isValidating}
-              className="w-full bg-gradient-primary hover:shadow-glow transition-all duration-300 font-semibold"
-            >
-              {isSubmitting ? "Submitting..." : 
-               isValidating ? "AI Validating..." : 
-               (schema.submitLabel || "Submit")}
-            </Button>
+            {isWizard && !isReviewStep ? (
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => goToStep(stepIndex - 1)}
+                  disabled={stepIndex === 0}
+                  className="flex-1"
+                >
+                  <ChevronLeft className="w-4 h-4 me-1 rtl:rotate-180" />
+                  {t("form.back")}
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1 bg-gradient-primary hover:shadow-glow transition-all duration-300 font-semibold"
+                >
+                  {stepIndex === steps.length - 1 ? t("form.review") : t("form.next")}
+                  <ChevronRight className="w-4 h-4 ms-1 rtl:rotate-180" />
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {isSubmitting && uploadProgress !== null && (
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      {t("form.uploading", { percent: Math.round(uploadProgress * 100) })}
+                    </p>
+                    <Progress value={uploadProgress * 100} className="h-2" aria-label={t("form.uploadProgress")} />
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  {isReviewStep && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => goToStep(stepIndex - 1)}
+                      disabled={isSubmitting}
+                    >
+                      <ChevronLeft className="w-4 h-4 me-1 rtl:rotate-180" />
+                      {t("form.back")}
+                    </Button>
+                  )}
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting || isValidating}
+                    className="flex-1 w-full bg-gradient-primary hover:shadow-glow transition-all duration-300 font-semibold"
+                  >
+                    {isSubmitting ? t("form.submitting") : 
+                     isValidating ? t("form.aiValidating") : 
+                     (localizedSchema.submitLabel || t("form.submit"))}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {draftSavedAt && (
+              <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                <span>{t("draft.saved", { time: format(draftSavedAt, "p", { locale: getDateLocale(activeLocale) }) })}</span>
+                <Button type="button" variant="link" size="sm" onClick={clearDraft} className="h-auto p-0 text-xs">
+                  {t("draft.clear")}
+                </Button>
+              </div>
+            )}
+
+            {honeypot && (
+              // Moved off screen rather than hidden, since bots skip inputs they can tell are hidden
+              <div aria-hidden="true" className="absolute -start-[9999px] top-auto h-px w-px overflow-hidden">
+                <label htmlFor={`${localizedSchema.id}-${honeypot.name}`}>{t("spam.honeypotLabel")}</label>
+                <input
+                  id={`${localizedSchema.id}-${honeypot.name}`}
+                  type="text"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  {...honeypot}
+                />
+              </div>
+            )}
           </form>
         </CardContent>
       </Card>
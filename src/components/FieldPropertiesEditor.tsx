@@ -0,0 +1,693 @@
+import { useState } from "react";
+import { FieldExpressionRule, FormField } from "@/types/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FIELD_ICONS } from "@/lib/fieldIcons";
+import { isChoiceField, isMultiChoiceField } from "@/lib/fieldOptions";
+import { createFieldId, getCustomFieldType, getFieldTypeOptions, getTypeChangeUpdates } from "@/lib/fieldTypes";
+import { COMPUTABLE_FIELD_TYPES } from "@/lib/fieldExpressions";
+import { parseExpression } from "@/lib/expressions";
+import { ChevronDown, ChevronUp, ClipboardPaste, Plus, Settings2, Trash2, CheckCircle, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type FieldValidation = NonNullable<FormField["validation"]>;
+type FieldOption = NonNullable<FormField["options"]>[number];
+
+interface FieldPropertiesEditorProps {
+  field: FormField;
+  onChange: (updates: Partial<FormField>) => void;
+}
+
+const DEFAULT_ICON = "default";
+
+// Empty inputs clear the bound instead of storing 0
+const parseBound = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+const toOptionValue = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// One option per line, either "value|label" or just a label
+const parseBulkOptions = (text: string): FieldOption[] =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [value, ...rest] = line.split("|");
+      const label = rest.join("|").trim();
+      return label ? { value: value.trim(), label } : { value: toOptionValue(line) || line, label: line };
+    });
+
+const compileRegExp = (pattern: string): { regExp: RegExp | null; error: string | null } => {
+  try {
+    return { regExp: new RegExp(pattern), error: null };
+  } catch (error) {
+    return { regExp: null, error: error instanceof Error ? error.message : "Invalid pattern" };
+  }
+};
+
+const RangeEditor = ({
+  label,
+  min,
+  max,
+  integer,
+  onChange,
+}: {
+  label: string;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  onChange: (bounds: { min?: number; max?: number }) => void;
+}) => {
+  const invalid = min !== undefined && max !== undefined && min > max;
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="number"
+          min={integer ? 0 : undefined}
+          step={integer ? 1 : "any"}
+          value={min ?? ""}
+          onChange={(e) => onChange({ min: parseBound(e.target.value), max })}
+          placeholder="Min"
+          aria-label={`${label} minimum`}
+          className="bg-input border-border"
+        />
+        <Input
+          type="number"
+          min={integer ? 0 : undefined}
+          step={integer ? 1 : "any"}
+          value={max ?? ""}
+          onChange={(e) => onChange({ min, max: parseBound(e.target.value) })}
+          placeholder="Max"
+          aria-label={`${label} maximum`}
+          className="bg-input border-border"
+        />
+      </div>
+      {invalid && <p className="text-xs text-destructive">The minimum must not be greater than the maximum.</p>}
+    </div>
+  );
+};
+
+// Only patterns that compile reach the schema; the draft keeps half-typed expressions editable
+const PatternEditor = ({ pattern, onChange }: { pattern?: string; onChange: (pattern?: string) => void }) => {
+  const [draft, setDraft] = useState(pattern ?? "");
+  const [samples, setSamples] = useState("");
+  const { regExp, error } = compileRegExp(draft);
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    if (value === "") {
+      onChange(undefined);
+    } else if (compileRegExp(value).regExp) {
+      onChange(value);
+    }
+  };
+
+  const sampleLines = samples.split("\n").filter((line) => line !== "");
+
+  return (
+    <div className="space-y-2">
+      <Label>Pattern (regular expression)</Label>
+      <Input
+        value={draft}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder="e.g. ^[A-Z]{2}[0-9]{4}$"
+        aria-invalid={!!error}
+        className={cn("bg-input border-border font-mono", error && "border-destructive")}
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {draft && !error && (
+        <>
+          <Textarea
+            value={samples}
+            onChange={(e) => setSamples(e.target.value)}
+            placeholder="Test strings, one per line"
+            aria-label="Pattern test strings"
+            className="bg-input border-border font-mono text-xs min-h-[60px]"
+          />
+          {sampleLines.length > 0 && (
+            <ul className="space-y-1">
+              {sampleLines.map((line, index) => {
+                const matches = regExp?.test(line);
+                return (
+                  <li key={index} className="flex items-center gap-2 text-xs font-mono">
+                    {matches ? (
+                      <CheckCircle className="w-3 h-3 text-green-500" aria-label="Matches" />
+                    ) : (
+                      <XCircle className="w-3 h-3 text-destructive" aria-label="Does not match" />
+                    )}
+                    <span className="truncate">{line}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const checkExpression = (source: string) => {
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid expression";
+  }
+};
+
+// Like the pattern editor, only expressions that parse reach the schema
+const ExpressionEditor = ({
+  label,
+  expression,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  expression?: string;
+  placeholder: string;
+  onChange: (expression?: string) => void;
+}) => {
+  const [draft, setDraft] = useState(expression ?? "");
+  const error = draft.trim() ? checkExpression(draft) : null;
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    if (!value.trim()) {
+      onChange(undefined);
+    } else if (!checkExpression(value)) {
+      onChange(value);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Input
+        value={draft}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={placeholder}
+        aria-invalid={!!error}
+        className={cn("bg-input border-border font-mono", error && "border-destructive")}
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+const ExpressionRulesEditor = ({
+  rules,
+  onChange,
+}: {
+  rules: FieldExpressionRule[];
+  onChange: (rules?: FieldExpressionRule[]) => void;
+}) => {
+  const updateRule = (index: number, updates: Partial<FieldExpressionRule>) =>
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+
+  const removeRule = (index: number) => {
+    const next = rules.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Cross-field checks ({rules.length})</Label>
+      {rules.map((rule, index) => (
+        <div key={index} className="space-y-2 rounded-md border border-border/50 p-2">
+          <div className="flex items-start gap-1">
+            <div className="flex-1">
+              <ExpressionEditor
+                label={`Check ${index + 1}`}
+                expression={rule.expression}
+                placeholder="e.g. endDate > startDate"
+                onChange={(expression) => updateRule(index, { expression: expression ?? "" })}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeRule(index)}
+              aria-label={`Remove check ${index + 1}`}
+              className="mt-6 text-destructive hover:text-destructive"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <Input
+            value={rule.message}
+            onChange={(e) => updateRule(index, { message: e.target.value })}
+            placeholder="Message shown when the check fails"
+            aria-label={`Check ${index + 1} message`}
+            className="bg-input border-border"
+          />
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rules, { expression: "", message: "" }])}
+        className="w-full"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add check
+      </Button>
+    </div>
+  );
+};
+
+const OptionsEditor = ({ options, onChange }: { options: FieldOption[]; onChange: (options: FieldOption[]) => void }) => {
+  const [bulkText, setBulkText] = useState<string | null>(null);
+  const valueCounts = options.reduce<Record<string, number>>((counts, option) => {
+    counts[option.value] = (counts[option.value] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const updateOption = (index: number, updates: Partial<FieldOption>) =>
+    onChange(options.map((option, i) => (i === index ? { ...option, ...updates } : option)));
+
+  const moveOption = (index: number, offset: number) => {
+    const next = [...options];
+    const [option] = next.splice(index, 1);
+    next.splice(index + offset, 0, option);
+    onChange(next);
+  };
+
+  const addOption = () => {
+    const number = options.length + 1;
+    onChange([...options, { value: `option-${number}`, label: `Option ${number}` }]);
+  };
+
+  const applyBulkText = () => {
+    if (bulkText !== null) {
+      onChange(parseBulkOptions(bulkText));
+    }
+    setBulkText(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Options ({options.length})</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            setBulkText(bulkText === null ? options.map((option) => `${option.value}|${option.label}`).join("\n") : null)
+          }
+        >
+          <ClipboardPaste className="w-4 h-4 mr-1" />
+          {bulkText === null ? "Bulk edit" : "Cancel"}
+        </Button>
+      </div>
+
+      {bulkText !== null ? (
+        <div className="space-y-2">
+          <Textarea
+            value={bulkText}
+            onChange={(e) => setBulkText(e.target.value)}
+            placeholder="One option per line: value|label, or just a label"
+            aria-label="Options, one per line"
+            className="bg-input border-border font-mono text-xs min-h-[120px]"
+          />
+          <Button type="button" size="sm" onClick={applyBulkText}>
+            Replace options
+          </Button>
+        </div>
+      ) : (
+        <>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <Input
+                value={option.value}
+                onChange={(e) => updateOption(index, { value: e.target.value })}
+                placeholder="value"
+                aria-label={`Option ${index + 1} value`}
+                aria-invalid={!option.value || valueCounts[option.value] > 1}
+                className={cn(
+                  "bg-input border-border font-mono text-xs",
+                  (!option.value || valueCounts[option.value] > 1) && "border-destructive"
+                )}
+              />
+              <Input
+                value={option.label}
+                onChange={(e) => updateOption(index, { label: e.target.value })}
+                placeholder="Label"
+                aria-label={`Option ${index + 1} label`}
+                className="bg-input border-border"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveOption(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move option ${index + 1} up`}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveOption(index, 1)}
+                disabled={index === options.length - 1}
+                aria-label={`Move option ${index + 1} down`}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(options.filter((_, i) => i !== index))}
+                aria-label={`Remove option ${index + 1}`}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {options.some((option) => !option.value || valueCounts[option.value] > 1) && (
+            <p className="text-xs text-destructive">Every option needs a unique, non-empty value.</p>
+          )}
+          <Button type="button" variant="outline" size="sm" onClick={addOption} className="w-full">
+            <Plus className="w-4 h-4 mr-1" />
+            Add option
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+const SubFieldsEditor = ({ fields, onChange }: { fields: FormField[]; onChange: (fields: FormField[]) => void }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Groups cannot contain other groups
+  const subFieldTypes = getFieldTypeOptions().filter((type) => type.value !== "group");
+
+  const updateSubField = (index: number, updates: Partial<FormField>) =>
+    onChange(fields.map((subField, i) => (i === index ? { ...subField, ...updates } : subField)));
+
+  const moveSubField = (index: number, offset: number) => {
+    const next = [...fields];
+    const [subField] = next.splice(index, 1);
+    next.splice(index + offset, 0, subField);
+    onChange(next);
+  };
+
+  const addSubField = () =>
+    onChange([...fields, { id: createFieldId(), type: "text", label: "New Field", required: false }]);
+
+  return (
+    <div className="space-y-2">
+      <Label>Fields in each entry ({fields.length})</Label>
+      {fields.map((subField, index) => (
+        <div key={subField.id} className="space-y-2 rounded-md border border-border/50 p-2">
+          <div className="flex items-center gap-1">
+            <Input
+              value={subField.label}
+              onChange={(e) => updateSubField(index, { label: e.target.value })}
+              aria-label={`Sub-field ${index + 1} label`}
+              className="bg-input border-border"
+            />
+            <Select
+              value={subField.type}
+              onValueChange={(value) => updateSubField(index, getTypeChangeUpdates(subField, value))}
+            >
+              <SelectTrigger className="bg-input border-border w-40" aria-label={`Sub-field ${index + 1} type`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {subFieldTypes.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setExpandedId(expandedId === subField.id ? null : subField.id)}
+              aria-label={`${subField.label} settings`}
+              aria-expanded={expandedId === subField.id}
+            >
+              <Settings2 className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => moveSubField(index, -1)}
+              disabled={index === 0}
+              aria-label={`Move ${subField.label} up`}
+            >
+              <ChevronUp className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => moveSubField(index, 1)}
+              disabled={index === fields.length - 1}
+              aria-label={`Move ${subField.label} down`}
+            >
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(fields.filter((_, i) => i !== index))}
+              aria-label={`Remove ${subField.label}`}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          {expandedId === subField.id && (
+            <div className="space-y-3 pl-2">
+              <div>
+                <Label>Placeholder</Label>
+                <Input
+                  value={subField.placeholder || ""}
+                  onChange={(e) => updateSubField(index, { placeholder: e.target.value })}
+                  className="bg-input border-border"
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`required-${subField.id}`}
+                  checked={subField.required || false}
+                  onCheckedChange={(checked) => updateSubField(index, { required: !!checked })}
+                />
+                <Label htmlFor={`required-${subField.id}`}>Required field</Label>
+              </div>
+              <FieldPropertiesEditor field={subField} onChange={(updates) => updateSubField(index, updates)} />
+            </div>
+          )}
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addSubField} className="w-full">
+        <Plus className="w-4 h-4 mr-1" />
+        Add field to group
+      </Button>
+    </div>
+  );
+};
+
+export const FieldPropertiesEditor = ({ field, onChange }: FieldPropertiesEditorProps) => {
+  const updateValidation = (updates: Partial<FieldValidation>) => {
+    const validation = { ...field.validation, ...updates };
+    // Drop cleared keys so saved schemas stay minimal
+    Object.keys(validation).forEach((key) => {
+      if (validation[key as keyof FieldValidation] === undefined) {
+        delete validation[key as keyof FieldValidation];
+      }
+    });
+    onChange({ validation: Object.keys(validation).length > 0 ? validation : undefined });
+  };
+
+  const hasTextRules = field.type === "text" || field.type === "textarea";
+  const maxFileSize = field.validation?.maxFileSize;
+  const TypeSettingsEditor = getCustomFieldType(field.type)?.builderEditor;
+
+  return (
+    <div className="space-y-3 border-t border-border/50 pt-3">
+      <div>
+        <Label>Icon</Label>
+        <Select
+          value={field.icon && FIELD_ICONS[field.icon] ? field.icon : DEFAULT_ICON}
+          onValueChange={(value) => onChange({ icon: value === DEFAULT_ICON ? undefined : value })}
+        >
+          <SelectTrigger className="bg-input border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_ICON}>Default for field type</SelectItem>
+            {Object.entries(FIELD_ICONS).map(([name, { label, icon: Icon }]) => (
+              <SelectItem key={name} value={name}>
+                <span className="flex items-center gap-2">
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isChoiceField(field) && (
+        <OptionsEditor options={field.options ?? []} onChange={(options) => onChange({ options })} />
+      )}
+
+      {isMultiChoiceField(field) && (
+        <RangeEditor
+          label="Number of selections"
+          min={field.validation?.minSelections}
+          max={field.validation?.maxSelections}
+          integer
+          onChange={({ min, max }) => updateValidation({ minSelections: min, maxSelections: max })}
+        />
+      )}
+
+      {field.type === "number" && (
+        <RangeEditor
+          label="Allowed range"
+          min={field.validation?.min}
+          max={field.validation?.max}
+          onChange={updateValidation}
+        />
+      )}
+
+      {field.type === "file" && (
+        <>
+          <div>
+            <Label>Accepted file types</Label>
+            <Input
+              value={field.accept ?? ""}
+              onChange={(e) => onChange({ accept: e.target.value.trim() === "" ? undefined : e.target.value })}
+              placeholder="e.g. .pdf,.docx,image/*"
+              className="bg-input border-border font-mono"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label>Max size per file (MB)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={maxFileSize !== undefined ? maxFileSize / (1024 * 1024) : ""}
+                onChange={(e) => {
+                  const megabytes = parseBound(e.target.value);
+                  updateValidation({
+                    maxFileSize: megabytes === undefined ? undefined : Math.round(megabytes * 1024 * 1024),
+                  });
+                }}
+                className="bg-input border-border"
+              />
+            </div>
+            <div>
+              <Label>Max files</Label>
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={field.validation?.maxFiles ?? ""}
+                onChange={(e) => updateValidation({ maxFiles: parseBound(e.target.value) })}
+                className="bg-input border-border"
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {field.type === "group" && (
+        <>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`repeatable-${field.id}`}
+              checked={!!field.repeatable}
+              onCheckedChange={(checked) => onChange({ repeatable: checked ? { min: 1 } : undefined })}
+            />
+            <Label htmlFor={`repeatable-${field.id}`}>Let people add more entries</Label>
+          </div>
+          {field.repeatable && (
+            <RangeEditor
+              label="Number of entries"
+              min={field.repeatable.min}
+              max={field.repeatable.max}
+              integer
+              onChange={(bounds) => onChange({ repeatable: bounds })}
+            />
+          )}
+          <SubFieldsEditor fields={field.fields ?? []} onChange={(fields) => onChange({ fields })} />
+        </>
+      )}
+
+      {TypeSettingsEditor && <TypeSettingsEditor field={field} onChange={onChange} />}
+
+      {COMPUTABLE_FIELD_TYPES.includes(field.type) && (
+        <ExpressionEditor
+          label="Calculated value"
+          expression={field.compute}
+          placeholder="e.g. quantity * unitPrice"
+          onChange={(compute) => onChange({ compute })}
+        />
+      )}
+      {!field.compute && field.type !== "group" && (
+        <ExpressionEditor
+          label="Default value"
+          expression={field.defaultValue}
+          placeholder={'e.g. today() or "Other"'}
+          onChange={(defaultValue) => onChange({ defaultValue })}
+        />
+      )}
+      {field.type !== "group" && (
+        <ExpressionRulesEditor rules={field.validate ?? []} onChange={(validate) => onChange({ validate })} />
+      )}
+      {/* Files and computed values are never kept in drafts anyway */}
+      {field.type !== "file" && !field.compute && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`sensitive-${field.id}`}
+            checked={!!field.sensitive}
+            onCheckedChange={(checked) => onChange({ sensitive: checked ? true : undefined })}
+          />
+          <Label htmlFor={`sensitive-${field.id}`}>Sensitive (never saved in drafts)</Label>
+        </div>
+      )}
+
+      {hasTextRules && (
+        <>
+          <RangeEditor
+            label="Length (characters)"
+            min={field.validation?.minLength}
+            max={field.validation?.maxLength}
+            integer
+            onChange={({ min, max }) => updateValidation({ minLength: min, maxLength: max })}
+          />
+          <PatternEditor pattern={field.validation?.pattern} onChange={(pattern) => updateValidation({ pattern })} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import { AriaAttributes, DragEvent, useEffect, useMemo, useRef, useState } from "react";
+import { FormField } from "@/types/form";
+import { Button } from "@/components/ui/button";
+import { formatFileSize, matchesAccept } from "@/lib/fileFields";
+import { getTranslator } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { FileText, Upload, X } from "lucide-react";
+
+interface FileUploadFieldProps extends Pick<AriaAttributes, "aria-invalid" | "aria-describedby"> {
+  id: string;
+  field: FormField;
+  value: unknown;
+  onChange: (files: File[] | undefined) => void;
+  onBlur: () => void;
+  locale?: string;
+}
+
+const toFileList = (value: unknown): File[] =>
+  Array.isArray(value) ? value.filter((item): item is File => item instanceof File) : [];
+
+const isSameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+export const FileUploadField = ({ id, field, value, onChange, onBlur, locale, ...ariaProps }: FileUploadFieldProps) => {
+  const t = getTranslator(locale);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const files = useMemo(() => toFileList(value), [value]);
+  const maxFiles = field.validation?.maxFiles;
+  const maxFileSize = field.validation?.maxFileSize;
+  const single = maxFiles === 1;
+
+  // Object URLs hold on to the file data, so they are released when the selection changes
+  const previews = useMemo(
+    () => new Map(files.filter((file) => file.type.startsWith("image/")).map((file) => [file, URL.createObjectURL(file)])),
+    [files]
+  );
+  useEffect(() => () => previews.forEach((url) => URL.revokeObjectURL(url)), [previews]);
+
+  // Picking again adds to the selection; a single-file field replaces its file instead
+  const addFiles = (added: File[]) => {
+    if (added.length === 0) return;
+    const next = single
+      ? added.slice(0, 1)
+      : [...files, ...added.filter((file) => !files.some((existing) => isSameFile(existing, file)))];
+    onChange(next);
+    onBlur();
+  };
+
+  const removeFile = (index: number) => {
+    const next = files.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? next : undefined);
+    onBlur();
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const hints = [
+    field.accept && t("file.accepted", { accept: field.accept }),
+    maxFileSize !== undefined && t("file.maxSize", { size: formatFileSize(maxFileSize) }),
+    maxFiles !== undefined && !single && t("file.maxFiles", { count: maxFiles }),
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-border bg-input p-6 text-center transition-colors",
+          isDragging && "border-primary bg-primary/5"
+        )}
+      >
+        <Upload className="w-6 h-6 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          {field.placeholder || t("file.drop", { count: single ? 1 : 2 })}
+        </p>
+        <Button id={id} type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()} {...ariaProps}>
+          {t("file.browse")}
+        </Button>
+        {hints.length > 0 && <p className="text-xs text-muted-foreground">{hints.join(" · ")}</p>}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={field.accept}
+          multiple={!single}
+          className="hidden"
+          onChange={(event) => {
+            addFiles(Array.from(event.target.files ?? []));
+            // Allow picking the same file again after removing it
+            event.target.value = "";
+          }}
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => {
+            const rejected =
+              !matchesAccept(file, field.accept) || (maxFileSize !== undefined && file.size > maxFileSize);
+            const preview = previews.get(file);
+            return (
+              <li
+                key={`${file.name}-${file.lastModified}-${index}`}
+                className={cn(
+                  "flex items-center gap-3 rounded-md border border-border p-2",
+                  rejected && "border-destructive"
+                )}
+              >
+                {preview ? (
+                  <img src={preview} alt="" className="h-10 w-10 rounded object-cover" />
+                ) : (
+                  <FileText className="h-10 w-10 p-2 text-muted-foreground" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm">{file.name}</p>
+                  <p className={cn("text-xs", rejected ? "text-destructive" : "text-muted-foreground")}>
+                    {formatFileSize(file.size)}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeFile(index)}
+                  aria-label={t("file.remove", { name: file.name })}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import { ResolvedFormStep } from "@/lib/formSteps";
+import { formatFieldValue } from "@/lib/formatFieldValue";
+import { getTranslator } from "@/lib/i18n";
+import { Button } from "@/components/ui/button";
+import { Pencil } from "lucide-react";
+
+interface FormReviewProps {
+  steps: ResolvedFormStep[];
+  values: Record<string, unknown>;
+  onEditStep: (stepIndex: number) => void;
+  locale?: string;
+}
+
+export const FormReview = ({ steps, values, onEditStep, locale }: FormReviewProps) => {
+  const t = getTranslator(locale);
+  return (
+    <div className="space-y-6">
+      {steps.map((step, index) => (
+        <div key={step.id} className="rounded-lg border border-border/50 bg-muted/30 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-medium text-foreground">{step.title}</h3>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onEditStep(index)}>
+              <Pencil className="w-4 h-4 me-1" />
+              {t("field.edit")}
+            </Button>
+          </div>
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2 text-sm">
+            {step.fields.map((field) => (
+              <div key={field.id} className="contents">
+                <dt className="text-muted-foreground">{field.label}</dt>
+                <dd className="sm:col-span-2 text-foreground break-words whitespace-pre-wrap">
+                  {formatFieldValue(field, values[field.id], locale)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+};
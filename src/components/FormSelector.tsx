@@ -1,9 +1,24 @@
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { DynamicFormRenderer } from "@/components/DynamicFormRenderer";
 import { contactFormSchema, surveyFormSchema, jobApplicationSchema } from "@/data/formSchemas";
 import { FormSchema } from "@/types/form";
+import { useFormSchemas } from "@/hooks/useFormSchemas";
+import { useToast } from "@/hooks/use-toast";
+import { toDuplicateSchema } from "@/lib/repository";
+import { BarChart3, Copy, Inbox, Pencil, Trash2 } from "lucide-react";
 
 const formOptions = [
   {
@@ -25,10 +40,138 @@ const formOptions = [
 
 interface FormSelectorProps {
   onShowBuilder?: () => void;
+  onEditSchema?: (schema: FormSchema) => void;
 }
 
-export const FormSelector = ({ onShowBuilder }: FormSelectorProps) => {
+interface FormCardProps {
+  schema: FormSchema;
+  title: string;
+  description?: string;
+  onOpen: () => void;
+  onViewSubmissions?: () => void;
+  onViewAnalytics?: () => void;
+  onEdit?: () => void;
+  onDuplicate?: () => void;
+  onDelete?: () => void;
+}
+
+const FormCard = ({
+  schema,
+  title,
+  description,
+  onOpen,
+  onViewSubmissions,
+  onViewAnalytics,
+  onEdit,
+  onDuplicate,
+  onDelete,
+}: FormCardProps) => (
+  <Card
+    className="bg-card/80 backdrop-blur-sm border-border/50 hover:shadow-glow transition-all duration-300 cursor-pointer"
+    onClick={onOpen}
+  >
+    <CardHeader>
+      <div className="flex items-start justify-between gap-2">
+        <CardTitle className="text-xl text-foreground">
+          {title}
+        </CardTitle>
+        <div className="flex -mr-2 -mt-2" onClick={(event) => event.stopPropagation()}>
+          {onViewSubmissions && (
+            <Button variant="ghost" size="sm" onClick={onViewSubmissions} aria-label={`View ${title} submissions`}>
+              <Inbox className="w-4 h-4" />
+            </Button>
+          )}
+          {onViewAnalytics && (
+            <Button variant="ghost" size="sm" onClick={onViewAnalytics} aria-label={`View ${title} analytics`}>
+              <BarChart3 className="w-4 h-4" />
+            </Button>
+          )}
+          {onEdit && (
+            <Button variant="ghost" size="sm" onClick={onEdit} aria-label={`Edit ${title}`}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+          )}
+          {onDuplicate && (
+            <Button variant="ghost" size="sm" onClick={onDuplicate} aria-label={`Duplicate ${title}`}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          )}
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              className="text-destructive hover:text-destructive"
+              aria-label={`Delete ${title}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {description && (
+        <CardDescription className="text-muted-foreground">
+          {description}
+        </CardDescription>
+      )}
+    </CardHeader>
+    <CardContent>
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Fields: {schema.fields.length}
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {schema.fields.slice(0, 4).map((field) => (
+            <span
+              key={field.id}
+              className="px-2 py-1 bg-primary/10 text-primary text-xs rounded"
+            >
+              {field.type}
+            </span>
+          ))}
+          {schema.fields.length > 4 && (
+            <span className="px-2 py-1 bg-muted text-muted-foreground text-xs rounded">
+              +{schema.fields.length - 4} more
+            </span>
+          )}
+        </div>
+      </div>
+      <Button className="w-full mt-4 bg-gradient-primary hover:shadow-glow transition-all duration-300">
+        Try This Form
+      </Button>
+    </CardContent>
+  </Card>
+);
+
+export const FormSelector = ({ onShowBuilder, onEditSchema }: FormSelectorProps) => {
   const [selectedSchema, setSelectedSchema] = useState<FormSchema | null>(null);
+  const [schemaToDelete, setSchemaToDelete] = useState<FormSchema | null>(null);
+  const { schemas, isLoading, createSchema, deleteSchema, duplicateSchema } = useFormSchemas();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const viewSubmissions = (schema: FormSchema) => navigate(`/forms/${encodeURIComponent(schema.id)}/submissions`);
+  const viewAnalytics = (schema: FormSchema) => navigate(`/forms/${encodeURIComponent(schema.id)}/analytics`);
+
+  const runAction = async (action: () => Promise<unknown>, successTitle: string) => {
+    try {
+      await action();
+      toast({ title: successTitle });
+    } catch (error) {
+      toast({
+        title: "Something went wrong",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!schemaToDelete) return;
+    const { id } = schemaToDelete;
+    setSchemaToDelete(null);
+    await runAction(() => deleteSchema(id), "Form deleted");
+  };
 
   if (selectedSchema) {
     return (
@@ -42,12 +185,7 @@ export const FormSelector = ({ onShowBuilder }: FormSelectorProps) => {
             ← Back to Forms
           </Button>
         </div>
-        <DynamicFormRenderer 
-          schema={selectedSchema}
-          onSubmit={(data) => {
-            console.log("Form submitted with data:", data);
-          }}
-        />
+        <DynamicFormRenderer schema={selectedSchema} />
       </div>
     );
   }
@@ -62,9 +200,9 @@ export const FormSelector = ({ onShowBuilder }: FormSelectorProps) => {
           <p className="text-muted-foreground text-lg mb-4">
             Choose a template or create your own intelligent form with AI validation
           </p>
-          
+
           <div className="flex gap-4 justify-center">
-            <Button 
+            <Button
               onClick={onShowBuilder}
               className="bg-gradient-primary hover:shadow-glow transition-all duration-300"
             >
@@ -72,51 +210,66 @@ export const FormSelector = ({ onShowBuilder }: FormSelectorProps) => {
             </Button>
           </div>
         </div>
-        
+
+        {(isLoading || schemas.length > 0) && (
+          <div className="mb-10">
+            <h2 className="text-xl font-semibold text-foreground mb-4">My Forms</h2>
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading saved forms...</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {schemas.map((schema) => (
+                  <FormCard
+                    key={schema.id}
+                    schema={schema}
+                    title={schema.title}
+                    description={schema.description}
+                    onOpen={() => setSelectedSchema(schema)}
+                    onViewSubmissions={() => viewSubmissions(schema)}
+                    onViewAnalytics={() => viewAnalytics(schema)}
+                    onEdit={onEditSchema && (() => onEditSchema(schema))}
+                    onDuplicate={() => runAction(() => duplicateSchema(schema.id), "Form duplicated")}
+                    onDelete={() => setSchemaToDelete(schema)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <h2 className="text-xl font-semibold text-foreground mb-4">Templates</h2>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {formOptions.map((option) => (
-            <Card 
+            <FormCard
               key={option.schema.id}
-              className="bg-card/80 backdrop-blur-sm border-border/50 hover:shadow-glow transition-all duration-300 cursor-pointer"
-              onClick={() => setSelectedSchema(option.schema)}
-            >
-              <CardHeader>
-                <CardTitle className="text-xl text-foreground">
-                  {option.title}
-                </CardTitle>
-                <CardDescription className="text-muted-foreground">
-                  {option.description}
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <p className="text-sm text-muted-foreground">
-                    Fields: {option.schema.fields.length}
-                  </p>
-                  <div className="flex flex-wrap gap-1">
-                    {option.schema.fields.slice(0, 4).map((field) => (
-                      <span
-                        key={field.id}
-                        className="px-2 py-1 bg-primary/10 text-primary text-xs rounded"
-                      >
-                        {field.type}
-                      </span>
-                    ))}
-                    {option.schema.fields.length > 4 && (
-                      <span className="px-2 py-1 bg-muted text-muted-foreground text-xs rounded">
-                        +{option.schema.fields.length - 4} more
-                      </span>
-                    )}
-                  </div>
-                </div>
-                <Button className="w-full mt-4 bg-gradient-primary hover:shadow-glow transition-all duration-300">
-                  Try This Form
-                </Button>
-              </CardContent>
-            </Card>
+              schema={option.schema}
+              title={option.title}
+              description={option.description}
+              onOpen={() => setSelectedSchema(option.schema)}
+              onViewSubmissions={() => viewSubmissions(option.schema)}
+              onViewAnalytics={() => viewAnalytics(option.schema)}
+              onDuplicate={() =>
+                runAction(() => createSchema(toDuplicateSchema(option.schema)), "Template copied to My Forms")
+              }
+            />
           ))}
         </div>
       </div>
+
+      <AlertDialog open={!!schemaToDelete} onOpenChange={(open) => !open && setSchemaToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{schemaToDelete?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the saved form. Existing submissions are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,95 @@
+import { Control, FieldErrors, UseFormRegister, useFieldArray, useWatch } from "react-hook-form";
+import { FormField } from "@/types/form";
+import { DynamicField } from "@/components/DynamicField";
+import { Button } from "@/components/ui/button";
+import { getVisibleFields, isFieldRequired } from "@/lib/formRules";
+import { GroupEntry, getGroupBounds, toGroupEntries } from "@/lib/fieldGroups";
+import { getDefaultFormValues } from "@/lib/fieldExpressions";
+import { getTranslator } from "@/lib/i18n";
+import { FieldRenderers } from "@/components/fields";
+import { Plus, Trash2 } from "lucide-react";
+
+interface GroupFieldProps {
+  field: FormField;
+  name: string;
+  labelId: string;
+  register: UseFormRegister<Record<string, unknown>>;
+  errors: FieldErrors;
+  control: Control<Record<string, unknown>>;
+  locale?: string;
+  renderers?: FieldRenderers;
+  // Id of the message about the number of entries, when there is one
+  "aria-describedby"?: string;
+}
+
+export const GroupField = ({
+  field,
+  name,
+  labelId,
+  register,
+  errors,
+  control,
+  locale,
+  renderers,
+  "aria-describedby": describedBy,
+}: GroupFieldProps) => {
+  const t = getTranslator(locale);
+  // Form values are untyped records, which useFieldArray cannot see arrays in
+  const { fields: entries, append, remove } = useFieldArray({
+    control: control as unknown as Control<Record<string, GroupEntry[]>>,
+    name,
+  });
+  const values = toGroupEntries(useWatch({ control, name }));
+  const { min, max } = getGroupBounds(field);
+  const repeatable = !!field.repeatable;
+  const subFields = field.fields ?? [];
+
+  return (
+    <div role="group" aria-labelledby={labelId} aria-describedby={describedBy} className="space-y-3">
+      {entries.map((entry, index) => {
+        // Rules inside a group only see the values of their own entry
+        const entryValues = values[index] ?? {};
+        return (
+          <div key={entry.id} className="space-y-4 rounded-lg border border-border/50 bg-muted/30 p-4">
+            {repeatable && (
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-foreground">
+                  {t("group.entry", { label: field.label, index: index + 1 })}
+                </h4>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove(index)}
+                  disabled={entries.length <= min}
+                  aria-label={t("group.remove", { label: field.label, index: index + 1 })}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+            {getVisibleFields(subFields, entryValues).map((subField) => (
+              <DynamicField
+                key={subField.id}
+                field={{ ...subField, required: isFieldRequired(subField, entryValues) }}
+                name={`${name}.${index}.${subField.id}`}
+                register={register}
+                errors={errors}
+                control={control}
+                locale={locale}
+                renderers={renderers}
+              />
+            ))}
+          </div>
+        );
+      })}
+      {repeatable && (max === undefined || entries.length < max) && (
+        <Button type="button" variant="outline" size="sm" onClick={() => append(getDefaultFormValues(field.fields ?? []))} className="w-full">
+          <Plus className="w-4 h-4 me-1" />
+          {t("group.add", { label: field.label, lowerLabel: field.label.toLocaleLowerCase(locale) })}
+        </Button>
+      )}
+    </div>
+  );
+};
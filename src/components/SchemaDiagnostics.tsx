@@ -0,0 +1,24 @@
+import { FormSchemaDiagnostic } from "@/lib/lintFormSchema";
+import { AlertTriangle, XCircle } from "lucide-react";
+
+interface SchemaDiagnosticsProps {
+  diagnostics: FormSchemaDiagnostic[];
+}
+
+export const SchemaDiagnostics = ({ diagnostics }: SchemaDiagnosticsProps) => (
+  <ul className="space-y-2">
+    {diagnostics.map((diagnostic, index) => (
+      <li key={`${diagnostic.path}-${diagnostic.code}-${index}`} className="flex items-start gap-2 text-sm">
+        {diagnostic.severity === "error" ? (
+          <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" aria-label="Error" />
+        ) : (
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-yellow-500" aria-label="Warning" />
+        )}
+        <div>
+          <p>{diagnostic.message}</p>
+          <p className="text-xs text-muted-foreground font-mono">{diagnostic.path}</p>
+        </div>
+      </li>
+    ))}
+  </ul>
+);
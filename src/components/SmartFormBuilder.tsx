@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState, ChangeEvent, DragEvent, KeyboardEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -8,38 +8,60 @@ import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
-import { Trash2, Plus, Wand2, Brain } from 'lucide-react';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { DynamicFormRenderer } from '@/components/DynamicFormRenderer';
+import { FieldPropertiesEditor } from '@/components/FieldPropertiesEditor';
+import { SchemaDiagnostics } from '@/components/SchemaDiagnostics';
+import { Trash2, Plus, Wand2, Brain, Sparkles, Copy, GripVertical, ChevronUp, ChevronDown, Eye, ShieldAlert, FileDown, FileUp, X } from 'lucide-react';
 import { FormField, FormSchema } from '@/types/form';
 import { useAIValidation } from '@/hooks/useAIValidation';
 import { useToast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { createSchemaId } from '@/lib/repository';
+import { cn } from '@/lib/utils';
+import { createFieldId, getFieldTypeOptions, getTypeChangeUpdates } from '@/lib/fieldTypes';
+import { getGroupBounds } from '@/lib/fieldGroups';
+import { hasLintErrors, lintFormSchema } from '@/lib/lintFormSchema';
+import { JsonSchemaImportIssue, formSchemaToJsonSchema, isFormUiHints, jsonSchemaToFormSchema } from '@/lib/jsonSchema';
+import { downloadFile } from '@/lib/exportSubmissions';
+import { FormGenerationError, isAbortError } from '@/lib/ai';
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  if (from === to || to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
 
 interface SmartFormBuilderProps {
+  // When set, the builder edits this schema instead of starting a new one
+  initialSchema?: FormSchema;
   onFormGenerated: (schema: FormSchema) => void;
   onBack: () => void;
 }
 
-export const SmartFormBuilder = ({ onFormGenerated, onBack }: SmartFormBuilderProps) => {
-  const [formTitle, setFormTitle] = useState('');
-  const [formDescription, setFormDescription] = useState('');
-  const [fields, setFields] = useState<FormField[]>([]);
+export const SmartFormBuilder = ({ initialSchema, onFormGenerated, onBack }: SmartFormBuilderProps) => {
+  const [formTitle, setFormTitle] = useState(initialSchema?.title ?? '');
+  const [formDescription, setFormDescription] = useState(initialSchema?.description ?? '');
+  const [fields, setFields] = useState<FormField[]>(initialSchema?.fields ?? []);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [prompt, setPrompt] = useState('');
+  const [isGeneratingForm, setIsGeneratingForm] = useState(false);
+  const [draggedFieldId, setDraggedFieldId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Schema settings the editor has no controls for, carried over from an imported file
+  const [importedSettings, setImportedSettings] = useState<Pick<FormSchema, 'steps' | 'submission' | 'submitLabel' | 'defaultLocale' | 'translations' | 'drafts' | 'spamProtection'>>({});
+  const [importIssues, setImportIssues] = useState<JsonSchemaImportIssue[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const isMobile = useIsMobile();
   
-  const { generateFieldSuggestion } = useAIValidation();
+  const { generateFieldSuggestion, generateFormFromPrompt } = useAIValidation();
   const { toast } = useToast();
 
-  const fieldTypes = [
-    { value: 'text', label: 'Text Input' },
-    { value: 'email', label: 'Email' },
-    { value: 'textarea', label: 'Text Area' },
-    { value: 'select', label: 'Select Dropdown' },
-    { value: 'checkbox', label: 'Checkbox' },
-    { value: 'number', label: 'Number' },
-    { value: 'date', label: 'Date' },
-  ];
-
   const addField = () => {
     const newField: FormField = {
-      id: `field_${Date.now()}`,
+      id: createFieldId(),
       type: 'text',
       label: 'New Field',
       placeholder: 'Enter value',
@@ -58,6 +80,92 @@ export const SmartFormBuilder = ({ onFormGenerated, onBack }: SmartFormBuilderPr
     ));
   };
 
+  const changeFieldType = (field: FormField, type: FormField['type']) => {
+    updateField(field.id, getTypeChangeUpdates(field, type));
+  };
+
+  const duplicateField = (fieldId: string) => {
+    const index = fields.findIndex(field => field.id === fieldId);
+    if (index === -1) return;
+    const copy: FormField = {
+      ...fields[index],
+      id: createFieldId(),
+      label: `${fields[index].label} (Copy)`,
+    };
+    setFields([...fields.slice(0, index + 1), copy, ...fields.slice(index + 1)]);
+  };
+
+  const moveField = (fieldId: string, offset: number) => {
+    const index = fields.findIndex(field => field.id === fieldId);
+    setFields(moveItem(fields, index, index + offset));
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLButtonElement>, fieldId: string) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', fieldId);
+    // Drag the whole card, not just the handle
+    const card = event.currentTarget.closest('[data-field-card]');
+    if (card) {
+      event.dataTransfer.setDragImage(card, 16, 16);
+    }
+    setDraggedFieldId(fieldId);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, fieldId: string) => {
+    if (!draggedFieldId) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setDropTargetId(fieldId);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>, fieldId: string) => {
+    event.preventDefault();
+    if (draggedFieldId) {
+      const from = fields.findIndex(field => field.id === draggedFieldId);
+      const to = fields.findIndex(field => field.id === fieldId);
+      setFields(moveItem(fields, from, to));
+    }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setDraggedFieldId(null);
+    setDropTargetId(null);
+  };
+
+  const handleReorderKeyDown = (event: KeyboardEvent<HTMLButtonElement>, fieldId: string) => {
+    const offsets: Record<string, number> = { ArrowUp: -1, ArrowDown: 1 };
+    if (event.key in offsets) {
+      event.preventDefault();
+      moveField(fieldId, offsets[event.key]);
+    } else if (event.key === 'Home' || event.key === 'End') {
+      event.preventDefault();
+      const index = fields.findIndex(field => field.id === fieldId);
+      setFields(moveItem(fields, index, event.key === 'Home' ? 0 : fields.length - 1));
+    }
+  };
+
+  // What the form would look like if it were saved right now
+  const previewSchema = useMemo<FormSchema>(() => ({
+    ...initialSchema,
+    ...importedSettings,
+    id: initialSchema?.id ?? 'builder_preview',
+    title: formTitle.trim() || 'Untitled Form',
+    description: formDescription,
+    fields,
+    submitLabel: importedSettings.submitLabel ?? initialSchema?.submitLabel ?? 'Submit Form',
+  }), [initialSchema, importedSettings, formTitle, formDescription, fields]);
+
+  const diagnostics = useMemo(() => lintFormSchema(previewSchema), [previewSchema]);
+
+  // Remount the preview when fields are added, removed or change type so stale values do not linger.
+  // Group entries are seeded on mount, so their structure is part of the key too.
+  const previewKey = fields
+    .map(field => field.type === 'group'
+      ? `${field.id}:group(${(field.fields ?? []).map(subField => `${subField.id}:${subField.type}`).join(',')};${getGroupBounds(field).min})`
+      : `${field.id}:${field.type}`)
+    .join('|');
+
   const generateAIField = async (context: string) => {
     setIsGenerating(true);
     try {
@@ -77,6 +185,95 @@ export const SmartFormBuilder = ({ onFormGenerated, onBack }: SmartFormBuilderPr
     setIsGenerating(false);
   };
 
+  const generateFromPrompt = async () => {
+    if (!prompt.trim()) return;
+
+    setIsGeneratingForm(true);
+    try {
+      const generated = await generateFormFromPrompt(prompt.trim());
+      setFormTitle(generated.title);
+      setFormDescription(generated.description ?? '');
+      setFields(generated.fields);
+      // Steps, translations and the like from an earlier import refer to the fields just replaced
+      setImportedSettings({});
+      setImportIssues([]);
+      toast({
+        title: 'Form Generated',
+        description: `${generated.fields.length} fields were added. Review and refine them below.`,
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: 'Generation Failed',
+        description: error instanceof FormGenerationError && error.issues.length > 0
+          ? `${error.message}: ${error.issues.slice(0, 3).join('; ')}`
+          : 'Could not generate a form from that description.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsGeneratingForm(false);
+    }
+  };
+
+  const exportJsonSchema = () => {
+    const { jsonSchema, uiHints } = formSchemaToJsonSchema({
+      ...previewSchema,
+      id: initialSchema?.id ?? createSchemaId(),
+    });
+    const baseName = jsonSchema.$id?.replace(/^urn:form:/, '') || 'form';
+    downloadFile(`${baseName}.schema.json`, JSON.stringify(jsonSchema, null, 2), 'application/schema+json');
+    downloadFile(`${baseName}.ui.json`, JSON.stringify(uiHints, null, 2), 'application/json');
+  };
+
+  // Accepts a JSON Schema file, optionally together with its UI hints file
+  const importJsonSchema = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const documents: unknown[] = await Promise.all(files.map(async file => JSON.parse(await file.text())));
+      const uiHints = documents.find(isFormUiHints);
+      const jsonSchema = documents.find(document => !isFormUiHints(document));
+      const { schema, issues } = jsonSchemaToFormSchema(jsonSchema, uiHints);
+      setImportIssues(issues);
+
+      if (!schema) {
+        toast({
+          title: 'Import Failed',
+          description: issues[0]?.message ?? 'The file is not a JSON Schema this builder can read.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setFormTitle(schema.title);
+      setFormDescription(schema.description ?? '');
+      setFields(schema.fields);
+      setImportedSettings({
+        steps: schema.steps,
+        submission: schema.submission,
+        submitLabel: schema.submitLabel,
+        defaultLocale: schema.defaultLocale,
+        translations: schema.translations,
+        drafts: schema.drafts,
+        spamProtection: schema.spamProtection,
+      });
+      toast({
+        title: 'Schema Imported',
+        description: issues.length > 0
+          ? `${schema.fields.length} fields imported; ${issues.length} construct(s) could not be represented.`
+          : `${schema.fields.length} fields imported.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import Failed',
+        description: error instanceof SyntaxError ? 'The file is not valid JSON.' : 'The file could not be read.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const generateForm = () => {
     if (!formTitle.trim()) {
       toast({
@@ -97,23 +294,36 @@ export const SmartFormBuilder = ({ onFormGenerated, onBack }: SmartFormBuilderPr
     }
 
     const schema: FormSchema = {
-      id: `custom_form_${Date.now()}`,
+      ...initialSchema,
+      ...importedSettings,
+      id: initialSchema?.id ?? createSchemaId(),
       title: formTitle,
       description: formDescription,
       fields: fields,
-      submitLabel: 'Submit Form',
+      submitLabel: importedSettings.submitLabel ?? initialSchema?.submitLabel ?? 'Submit Form',
     };
 
+    const schemaDiagnostics = lintFormSchema(schema);
+    if (hasLintErrors(schemaDiagnostics)) {
+      const errors = schemaDiagnostics.filter(diagnostic => diagnostic.severity === 'error');
+      toast({
+        title: 'Fix Form Problems',
+        description: errors.length === 1 ? errors[0].message : `${errors[0].message} (and ${errors.length - 1} more)`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     onFormGenerated(schema);
   };
 
   return (
     <div className="min-h-screen bg-gradient-background p-4">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-7xl mx-auto">
         <div className="flex items-center justify-between mb-6">
           <div>
             <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-              Smart Form Builder
+              {initialSchema ? 'Edit Form' : 'Smart Form Builder'}
             </h1>
             <p className="text-muted-foreground">
               Create intelligent forms with AI-powered suggestions
@@ -124,154 +334,328 @@ export const SmartFormBuilder = ({ onFormGenerated, onBack }: SmartFormBuilderPr
           </Button>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Form Configuration */}
-          <Card className="bg-card/80 backdrop-blur-sm border-border/50">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Brain className="w-5 h-5" />
-                Form Configuration
-              </CardTitle>
-              <CardDescription>
-                Set up your form details and structure
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <Label htmlFor="title">Form Title</Label>
-                <Input
-                  id="title"
-                  value={formTitle}
-                  onChange={(e) => setFormTitle(e.target.value)}
-                  placeholder="Enter form title"
-                  className="bg-input border-border"
-                />
-              </div>
+        <ResizablePanelGroup
+          direction={isMobile ? 'vertical' : 'horizontal'}
+          className="h-[calc(100vh-8rem)] rounded-lg border border-border/50"
+        >
+          <ResizablePanel defaultSize={55} minSize={30}>
+            <div className="h-full overflow-y-auto p-4 space-y-6">
+              {/* Natural-language generation */}
+              <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Sparkles className="w-5 h-5" />
+                    Describe Your Form
+                  </CardTitle>
+                  <CardDescription>
+                    Tell us what the form is for and we will draft the fields for you
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <Textarea
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                        e.preventDefault();
+                        generateFromPrompt();
+                      }
+                    }}
+                    placeholder="e.g. Event registration with dietary restrictions and t-shirt size"
+                    aria-label="Form description"
+                    className="bg-input border-border"
+                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">
+                      {fields.length > 0 ? 'Generating replaces the current title, description and fields.' : 'Press Ctrl+Enter to generate.'}
+                    </p>
+                    <Button onClick={generateFromPrompt} disabled={!prompt.trim() || isGeneratingForm}>
+                      <Wand2 className="w-4 h-4 mr-2" />
+                      {isGeneratingForm ? 'Generating...' : 'Generate'}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Form Configuration */}
+              <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Brain className="w-5 h-5" />
+                    Form Configuration
+                  </CardTitle>
+                  <CardDescription>
+                    Set up your form details and structure
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label htmlFor="title">Form Title</Label>
+                    <Input
+                      id="title"
+                      value={formTitle}
+                      onChange={(e) => setFormTitle(e.target.value)}
+                      placeholder="Enter form title"
+                      className="bg-input border-border"
+                    />
+                  </div>
               
-              <div>
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formDescription}
-                  onChange={(e) => setFormDescription(e.target.value)}
-                  placeholder="Describe your form purpose"
-                  className="bg-input border-border"
-                />
-              </div>
+                  <div>
+                    <Label htmlFor="description">Description</Label>
+                    <Textarea
+                      id="description"
+                      value={formDescription}
+                      onChange={(e) => setFormDescription(e.target.value)}
+                      placeholder="Describe your form purpose"
+                      className="bg-input border-border"
+                    />
+                  </div>
 
-              <div className="flex gap-2">
-                <Button onClick={addField} className="flex-1">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Field
-                </Button>
-                <Button
-                  variant="outline"
-                  onClick={() => generateAIField('personal_info')}
-                  disabled={isGenerating}
-                  className="flex-1"
-                >
-                  <Wand2 className="w-4 h-4 mr-2" />
-                  {isGenerating ? 'Generating...' : 'AI Suggest'}
-                </Button>
-              </div>
+                  <div className="flex gap-2">
+                    <Button onClick={addField} className="flex-1">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Field
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => generateAIField('personal_info')}
+                      disabled={isGenerating}
+                      className="flex-1"
+                    >
+                      <Wand2 className="w-4 h-4 mr-2" />
+                      {isGenerating ? 'Generating...' : 'AI Suggest'}
+                    </Button>
+                  </div>
 
-              <Button 
-                onClick={generateForm} 
-                className="w-full bg-gradient-primary hover:shadow-glow"
-                disabled={!formTitle.trim() || fields.length === 0}
-              >
-                Generate Smart Form
-              </Button>
-            </CardContent>
-          </Card>
-
-          {/* Field Editor */}
-          <Card className="bg-card/80 backdrop-blur-sm border-border/50">
-            <CardHeader>
-              <CardTitle>Form Fields ({fields.length})</CardTitle>
-              <CardDescription>
-                Configure your form fields with intelligent validation
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4 max-h-96 overflow-y-auto">
-                {fields.length === 0 ? (
-                  <div className="text-center py-8 text-muted-foreground">
-                    <Plus className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                    <p>No fields added yet</p>
-                    <p className="text-sm">Click "Add Field" to get started</p>
+                  <div className="flex gap-2">
+                    <input
+                      ref={importInputRef}
+                      type="file"
+                      accept=".json,application/json,application/schema+json"
+                      multiple
+                      onChange={importJsonSchema}
+                      className="hidden"
+                    />
+                    <Button variant="outline" onClick={() => importInputRef.current?.click()} className="flex-1">
+                      <FileUp className="w-4 h-4 mr-2" />
+                      Import JSON Schema
+                    </Button>
+                    <Button variant="outline" onClick={exportJsonSchema} disabled={fields.length === 0} className="flex-1">
+                      <FileDown className="w-4 h-4 mr-2" />
+                      Export JSON Schema
+                    </Button>
                   </div>
-                ) : (
-                  fields.map((field) => (
-                    <Card key={field.id} className="border border-border/50">
-                      <CardContent className="p-4">
-                        <div className="flex items-start justify-between mb-3">
-                          <Badge variant="secondary">{field.type}</Badge>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => removeField(field.id)}
-                            className="text-destructive hover:text-destructive"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </div>
+
+                  {importIssues.length > 0 && (
+                    <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium">Not imported</p>
+                        <Button variant="ghost" size="sm" onClick={() => setImportIssues([])} aria-label="Dismiss import notes">
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <ul className="space-y-1 text-xs">
+                        {importIssues.map((issue, index) => (
+                          <li key={index}>
+                            <span className="font-mono text-muted-foreground">{issue.path || '/'}</span> {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <Button 
+                    onClick={generateForm} 
+                    className="w-full bg-gradient-primary hover:shadow-glow"
+                    disabled={!formTitle.trim() || fields.length === 0}
+                  >
+                    {initialSchema ? 'Save Changes' : 'Generate Smart Form'}
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {diagnostics.length > 0 && (
+                <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <ShieldAlert className="w-5 h-5" />
+                      Schema Problems ({diagnostics.length})
+                    </CardTitle>
+                    <CardDescription>
+                      Errors must be fixed before the form can be saved; warnings are advisory
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <SchemaDiagnostics diagnostics={diagnostics} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Field Editor */}
+              <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle>Form Fields ({fields.length})</CardTitle>
+                  <CardDescription>
+                    Configure your form fields with intelligent validation
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {fields.length === 0 ? (
+                      <div className="text-center py-8 text-muted-foreground">
+                        <Plus className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                        <p>No fields added yet</p>
+                        <p className="text-sm">Click "Add Field" to get started</p>
+                      </div>
+                    ) : (
+                      fields.map((field, index) => (
+                        <Card
+                          key={field.id}
+                          data-field-card
+                          onDragOver={(e) => handleDragOver(e, field.id)}
+                          onDrop={(e) => handleDrop(e, field.id)}
+                          className={cn(
+                            'border border-border/50 transition-opacity',
+                            draggedFieldId === field.id && 'opacity-50',
+                            dropTargetId === field.id && draggedFieldId !== field.id && 'border-primary'
+                          )}
+                        >
+                          <CardContent className="p-4">
+                            <div className="flex items-center justify-between mb-3">
+                              <div className="flex items-center gap-2">
+                                <button
+                                  type="button"
+                                  draggable
+                                  onDragStart={(e) => handleDragStart(e, field.id)}
+                                  onDragEnd={handleDragEnd}
+                                  onKeyDown={(e) => handleReorderKeyDown(e, field.id)}
+                                  aria-label={`Reorder ${field.label}, position ${index + 1} of ${fields.length}. Use the arrow keys to move.`}
+                                  className="cursor-grab rounded p-1 text-muted-foreground hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+                                >
+                                  <GripVertical className="w-4 h-4" />
+                                </button>
+                                <Badge variant="secondary">{field.type}</Badge>
+                              </div>
+                              <div className="flex items-center">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => moveField(field.id, -1)}
+                                  disabled={index === 0}
+                                  aria-label={`Move ${field.label} up`}
+                                >
+                                  <ChevronUp className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => moveField(field.id, 1)}
+                                  disabled={index === fields.length - 1}
+                                  aria-label={`Move ${field.label} down`}
+                                >
+                                  <ChevronDown className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => duplicateField(field.id)}
+                                  aria-label={`Duplicate ${field.label}`}
+                                >
+                                  <Copy className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => removeField(field.id)}
+                                  aria-label={`Delete ${field.label}`}
+                                  className="text-destructive hover:text-destructive"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </div>
                         
-                        <div className="space-y-3">
-                          <div>
-                            <Label>Field Label</Label>
-                            <Input
-                              value={field.label}
-                              onChange={(e) => updateField(field.id, { label: e.target.value })}
-                              className="bg-input border-border"
-                            />
-                          </div>
+                            <div className="space-y-3">
+                              <div>
+                                <Label>Field Label</Label>
+                                <Input
+                                  value={field.label}
+                                  onChange={(e) => updateField(field.id, { label: e.target.value })}
+                                  className="bg-input border-border"
+                                />
+                              </div>
                           
-                          <div>
-                            <Label>Field Type</Label>
-                            <Select 
-                              value={field.type} 
-                              onValueChange={(value) => updateField(field.id, { type: value as any })}
-                            >
-                              <SelectTrigger className="bg-input border-border">
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {fieldTypes.map((type) => (
-                                  <SelectItem key={type.value} value={type.value}>
-                                    {type.label}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          </div>
+                              <div>
+                                <Label>Field Type</Label>
+                                <Select 
+                                  value={field.type} 
+                                  onValueChange={(value) => changeFieldType(field, value as FormField['type'])}
+                                >
+                                  <SelectTrigger className="bg-input border-border">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {getFieldTypeOptions().map((type) => (
+                                      <SelectItem key={type.value} value={type.value}>
+                                        {type.label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
                           
-                          <div>
-                            <Label>Placeholder</Label>
-                            <Input
-                              value={field.placeholder || ''}
-                              onChange={(e) => updateField(field.id, { placeholder: e.target.value })}
-                              className="bg-input border-border"
-                            />
-                          </div>
+                              <div>
+                                <Label>Placeholder</Label>
+                                <Input
+                                  value={field.placeholder || ''}
+                                  onChange={(e) => updateField(field.id, { placeholder: e.target.value })}
+                                  className="bg-input border-border"
+                                />
+                              </div>
                           
-                          <div className="flex items-center space-x-2">
-                            <Checkbox
-                              id={`required-${field.id}`}
-                              checked={field.required || false}
-                              onCheckedChange={(checked) => updateField(field.id, { required: !!checked })}
-                            />
-                            <Label htmlFor={`required-${field.id}`}>Required field</Label>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))
-                )}
+                              <div className="flex items-center space-x-2">
+                                <Checkbox
+                                  id={`required-${field.id}`}
+                                  checked={field.required || false}
+                                  onCheckedChange={(checked) => updateField(field.id, { required: !!checked })}
+                                />
+                                <Label htmlFor={`required-${field.id}`}>Required field</Label>
+                              </div>
+
+                              <FieldPropertiesEditor
+                                field={field}
+                                onChange={(updates) => updateField(field.id, updates)}
+                              />
+                            </div>
+                          </CardContent>
+                        </Card>
+                      ))
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </ResizablePanel>
+
+          <ResizableHandle withHandle />
+
+          {/* Live Preview */}
+          <ResizablePanel defaultSize={45} minSize={25}>
+            <div className="h-full overflow-y-auto bg-gradient-background">
+              <div className="flex items-center gap-2 px-4 pt-4 text-sm font-medium text-muted-foreground">
+                <Eye className="w-4 h-4" />
+                Live Preview
               </div>
-            </CardContent>
-          </Card>
-        </div>
+              {fields.length === 0 ? (
+                <div className="text-center py-16 text-muted-foreground">
+                  <p>Add a field to see your form here</p>
+                </div>
+              ) : (
+                <DynamicFormRenderer key={previewKey} schema={previewSchema} preview />
+              )}
+            </div>
+          </ResizablePanel>
+        </ResizablePanelGroup>
       </div>
     </div>
   );
@@ -0,0 +1,14 @@
+import { Star } from "lucide-react";
+import { registerFieldType } from "@/lib/fieldTypes";
+import { ratingFieldType } from "@/lib/customFieldTypes";
+import { RatingControl, RatingSettingsEditor } from "@/components/fields/ratingField";
+
+// Field types this app adds to the built-in ones. Called once before the app renders.
+export const registerCustomFieldTypes = () => {
+  registerFieldType({
+    ...ratingFieldType,
+    render: RatingControl,
+    builderEditor: RatingSettingsEditor,
+    defaultIcon: Star,
+  });
+};
@@ -0,0 +1,38 @@
+import { BuiltInFieldType } from "@/types/form";
+import { FieldRenderer, FieldRenderers } from "@/types/fieldRenderers";
+import {
+  CheckboxControl,
+  CheckboxGroupControl,
+  DateControl,
+  FileControl,
+  GroupControl,
+  InputControl,
+  MultiselectControl,
+  RadioControl,
+  SelectControl,
+  TextareaControl,
+} from "@/components/fields/shadcnFields";
+
+export type { FieldAriaProps, FieldControlProps, FieldRenderer, FieldRenderers } from "@/types/fieldRenderers";
+
+// The shadcn controls used unless an app passes its own
+export const defaultFieldRenderers: Record<BuiltInFieldType, FieldRenderer> = {
+  text: InputControl,
+  email: InputControl,
+  number: InputControl,
+  textarea: TextareaControl,
+  select: SelectControl,
+  radio: RadioControl,
+  multiselect: MultiselectControl,
+  checkboxGroup: CheckboxGroupControl,
+  checkbox: CheckboxControl,
+  date: DateControl,
+  file: FileControl,
+  group: GroupControl,
+};
+
+// Apps replace the controls of some field types and keep the defaults for the rest
+export const getFieldRenderers = (overrides: FieldRenderers = {}): FieldRenderers => ({
+  ...defaultFieldRenderers,
+  ...overrides,
+});
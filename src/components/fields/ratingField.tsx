@@ -0,0 +1,62 @@
+import { Controller } from "react-hook-form";
+import { Star } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FieldControlProps } from "@/types/fieldRenderers";
+import { FieldEditorProps } from "@/lib/fieldTypes";
+import { getTranslator } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { DEFAULT_RATING_STARS, getRatingStars } from "@/lib/customFieldTypes";
+
+// Picking the chosen star again clears the rating
+export const RatingControl = ({ field, name, labelId, ariaProps, control, locale, readOnly }: FieldControlProps) => {
+  const t = getTranslator(locale);
+  const stars = getRatingStars(field);
+  return (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field: controllerField }) => {
+        const rating = Number(controllerField.value) || 0;
+        return (
+          <div role="radiogroup" aria-labelledby={labelId} {...ariaProps} className="flex gap-1">
+            {Array.from({ length: stars }, (_, index) => index + 1).map((star) => (
+              <button
+                key={star}
+                type="button"
+                role="radio"
+                aria-checked={star === rating}
+                aria-label={t("field.ratingStars", { count: star })}
+                disabled={readOnly}
+                onClick={() => controllerField.onChange(star === rating ? undefined : star)}
+                onBlur={controllerField.onBlur}
+                className="rounded-sm p-0.5 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <Star className={cn("w-6 h-6", star <= rating ? "fill-primary text-primary" : "text-muted-foreground")} />
+              </button>
+            ))}
+          </div>
+        );
+      }}
+    />
+  );
+};
+
+export const RatingSettingsEditor = ({ field, onChange }: FieldEditorProps) => (
+  <div>
+    <Label htmlFor={`stars-${field.id}`}>Number of stars</Label>
+    <Input
+      id={`stars-${field.id}`}
+      type="number"
+      min={2}
+      max={10}
+      step={1}
+      value={getRatingStars(field)}
+      onChange={(e) => {
+        const stars = Math.min(10, Math.max(2, Math.round(Number(e.target.value)) || DEFAULT_RATING_STARS));
+        onChange({ settings: stars === DEFAULT_RATING_STARS ? undefined : { ...field.settings, stars } });
+      }}
+      className="bg-input border-border"
+    />
+  </div>
+);
@@ -0,0 +1,310 @@
+import { FormField } from "@/types/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Badge } from "@/components/ui/badge";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { format } from "date-fns";
+import { CalendarIcon, Check, ChevronsUpDown } from "lucide-react";
+import { Controller } from "react-hook-form";
+import { cn } from "@/lib/utils";
+import { getOptionLabel, toValueList } from "@/lib/fieldOptions";
+import { getDateLocale, getTextDirection, getTranslator } from "@/lib/i18n";
+import { FileUploadField } from "@/components/FileUploadField";
+import { GroupField } from "@/components/GroupField";
+import { FieldControlProps } from "@/types/fieldRenderers";
+
+// Radix Select reserves the empty string for clearing the selection
+const getOptions = (field: FormField) => field.options?.filter((option) => option.value !== "") ?? [];
+
+// Keeps selections in option order and reports "nothing selected" as undefined, like an empty input
+const toggleSelection = (
+  field: FormField,
+  current: unknown,
+  value: string,
+  onChange: (value: string[] | undefined) => void
+) => {
+  const selected = toValueList(current);
+  const next = selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value];
+  const ordered = getOptions(field).map((option) => option.value).filter((item) => next.includes(item));
+  onChange(ordered.length > 0 ? ordered : undefined);
+};
+
+// Text, email and number fields
+export const InputControl = ({ field, name, inputId, ariaProps, register, readOnly }: FieldControlProps) => (
+  <Input
+    id={inputId}
+    type={field.type}
+    placeholder={field.placeholder}
+    {...ariaProps}
+    {...register(name)}
+    readOnly={readOnly}
+    className="bg-input border-border focus:border-primary focus:ring-primary"
+  />
+);
+
+export const TextareaControl = ({ field, name, inputId, ariaProps, register, readOnly }: FieldControlProps) => (
+  <Textarea
+    id={inputId}
+    placeholder={field.placeholder}
+    {...ariaProps}
+    {...register(name)}
+    readOnly={readOnly}
+    className="bg-input border-border focus:border-primary focus:ring-primary"
+  />
+);
+
+export const SelectControl = ({ field, name, inputId, ariaProps, control, locale }: FieldControlProps) => (
+  <Controller
+    name={name}
+    control={control}
+    render={({ field: controllerField }) => (
+      // Popovers render outside the form, so they need the text direction passed on
+      <Select onValueChange={controllerField.onChange} value={controllerField.value as string} dir={getTextDirection(locale)}>
+        <SelectTrigger id={inputId} {...ariaProps} className="bg-input border-border focus:border-primary focus:ring-primary">
+          <SelectValue placeholder={field.placeholder || getTranslator(locale)("field.selectOption")} />
+        </SelectTrigger>
+        <SelectContent>
+          {getOptions(field).map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )}
+  />
+);
+
+export const RadioControl = ({ field, name, inputId, labelId, ariaProps, control }: FieldControlProps) => (
+  <Controller
+    name={name}
+    control={control}
+    render={({ field: controllerField }) => (
+      <RadioGroup
+        aria-labelledby={labelId}
+        {...ariaProps}
+        value={(controllerField.value as string) ?? ""}
+        onValueChange={controllerField.onChange}
+        className="space-y-1"
+      >
+        {getOptions(field).map((option) => (
+          <div key={option.value} className="flex items-center gap-2">
+            <RadioGroupItem value={option.value} id={`${inputId}-${option.value}`} />
+            <Label htmlFor={`${inputId}-${option.value}`} className="text-sm font-normal">
+              {option.label}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    )}
+  />
+);
+
+export const CheckboxGroupControl = ({ field, name, inputId, labelId, ariaProps, control }: FieldControlProps) => (
+  <Controller
+    name={name}
+    control={control}
+    render={({ field: controllerField }) => {
+      const selected = toValueList(controllerField.value);
+      return (
+        <div role="group" aria-labelledby={labelId} aria-describedby={ariaProps["aria-describedby"]} className="space-y-1">
+          {getOptions(field).map((option) => (
+            <div key={option.value} className="flex items-center gap-2">
+              <Checkbox
+                id={`${inputId}-${option.value}`}
+                checked={selected.includes(option.value)}
+                onCheckedChange={() =>
+                  toggleSelection(field, controllerField.value, option.value, controllerField.onChange)
+                }
+              />
+              <Label htmlFor={`${inputId}-${option.value}`} className="text-sm font-normal">
+                {option.label}
+              </Label>
+            </div>
+          ))}
+        </div>
+      );
+    }}
+  />
+);
+
+export const MultiselectControl = ({ field, name, inputId, ariaProps, control, locale }: FieldControlProps) => {
+  const t = getTranslator(locale);
+  return (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field: controllerField }) => {
+        const selected = toValueList(controllerField.value);
+        return (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                id={inputId}
+                variant="outline"
+                role="combobox"
+                {...ariaProps}
+                className="w-full h-auto min-h-10 justify-between bg-input border-border font-normal hover:bg-input"
+              >
+                {selected.length > 0 ? (
+                  <span className="flex flex-wrap gap-1">
+                    {selected.map((value) => (
+                      <Badge key={value} variant="secondary">
+                        {getOptionLabel(field, value)}
+                      </Badge>
+                    ))}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">{field.placeholder || t("field.selectOptions")}</span>
+                )}
+                <ChevronsUpDown className="ms-2 h-4 w-4 shrink-0 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent dir={getTextDirection(locale)} className="w-[--radix-popover-trigger-width] p-0" align="start">
+              <Command>
+                <CommandInput placeholder={t("field.searchOptions")} />
+                <CommandList>
+                  <CommandEmpty>{t("field.noOptions")}</CommandEmpty>
+                  <CommandGroup>
+                    {getOptions(field).map((option) => (
+                      <CommandItem
+                        key={option.value}
+                        value={`${option.label} ${option.value}`}
+                        onSelect={() =>
+                          toggleSelection(field, controllerField.value, option.value, controllerField.onChange)
+                        }
+                      >
+                        <Check
+                          className={cn(
+                            "me-2 h-4 w-4",
+                            selected.includes(option.value) ? "opacity-100" : "opacity-0"
+                          )}
+                        />
+                        {option.label}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+        );
+      }}
+    />
+  );
+};
+
+// A checkbox without its own sentence is labelled by the box's label alone. With a sentence,
+// the field label is shown above it too and both labels name the box.
+export const CheckboxControl = ({ field, name, inputId, labelId, ariaProps, control, readOnly }: FieldControlProps) => (
+  <Controller
+    name={name}
+    control={control}
+    render={({ field: controllerField }) => (
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id={inputId}
+          aria-labelledby={field.placeholder ? `${labelId} ${inputId}-text` : labelId}
+          {...ariaProps}
+          checked={controllerField.value as boolean}
+          onCheckedChange={controllerField.onChange}
+          disabled={readOnly}
+        />
+        <Label id={field.placeholder ? `${inputId}-text` : labelId} htmlFor={inputId} className="text-sm font-normal">
+          {field.placeholder || field.label}
+          {!field.placeholder && field.required && <span className="text-destructive"> *</span>}
+        </Label>
+      </div>
+    )}
+  />
+);
+
+export const DateControl = ({ field, name, inputId, labelId, ariaProps, control, locale, readOnly }: FieldControlProps) => {
+  const { "aria-required": _required, ...errorProps } = ariaProps;
+  const dateLocale = getDateLocale(locale);
+  const dir = getTextDirection(locale);
+  return (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field: controllerField }) => (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              id={inputId}
+              variant="outline"
+              // Announces the field label followed by the chosen date
+              aria-labelledby={`${labelId} ${inputId}`}
+              {...errorProps}
+              disabled={readOnly}
+              className={cn(
+                "w-full justify-start text-start font-normal bg-input border-border focus:border-primary",
+                !controllerField.value && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="me-2 h-4 w-4" />
+              {controllerField.value ? (
+                format(controllerField.value as Date, "PPP", { locale: dateLocale })
+              ) : (
+                <span>{field.placeholder || getTranslator(locale)("field.pickDate")}</span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent dir={dir} className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={controllerField.value as Date | undefined}
+              onSelect={controllerField.onChange}
+              locale={dateLocale}
+              dir={dir}
+              initialFocus
+              className="p-3 pointer-events-auto"
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+    />
+  );
+};
+
+export const FileControl = ({ field, name, inputId, ariaProps, control, locale }: FieldControlProps) => {
+  const { "aria-required": _required, ...errorProps } = ariaProps;
+  return (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field: controllerField }) => (
+        <FileUploadField
+          id={inputId}
+          field={field}
+          value={controllerField.value}
+          onChange={controllerField.onChange}
+          onBlur={controllerField.onBlur}
+          locale={locale}
+          {...errorProps}
+        />
+      )}
+    />
+  );
+};
+
+export const GroupControl = ({ field, name, labelId, ariaProps, register, errors, control, locale, renderers }: FieldControlProps) => (
+  <GroupField
+    field={field}
+    name={name}
+    labelId={labelId}
+    register={register}
+    errors={errors}
+    control={control}
+    locale={locale}
+    renderers={renderers}
+    aria-describedby={ariaProps["aria-describedby"]}
+  />
+);
@@ -1,7 +1,10 @@
 import { FormSchema } from "@/types/form";
+import { defineFormSchema } from "@/lib/defineFormSchema";
 
-export const contactFormSchema: FormSchema = {
+export const contactFormSchema = defineFormSchema({
   id: "contact-form",
+  schemaVersion: 1,
+  revision: 1,
   title: "Contact Information",
   description: "Please fill in your details below",
   submitLabel: "Submit Contact",
@@ -37,10 +40,18 @@ export const contactFormSchema: FormSchema = {
       icon: "mail",
     },
   ],
-};
+  spamProtection: {
+    honeypot: true,
+    minSecondsToSubmit: 3,
+    rateLimit: { maxSubmissions: 5, windowMinutes: 60 },
+    proofOfWorkBits: 14,
+  },
+});
 
-export const surveyFormSchema: FormSchema = {
+export const surveyFormSchema = defineFormSchema({
   id: "survey-form",
+  schemaVersion: 1,
+  revision: 1,
   title: "Customer Survey",
   description: "Help us improve our services",
   submitLabel: "Submit Survey",
@@ -64,18 +75,6 @@ export const surveyFormSchema: FormSchema = {
       required: true,
       icon: "mail",
     },
-    {
-      id: "age",
-      type: "number",
-      label: "Age",
-      placeholder: "Enter your age",
-      required: false,
-      validation: {
-        min: 13,
-        max: 120,
-      },
-      icon: "hash",
-    },
     {
       id: "experience",
       type: "select",
@@ -96,6 +95,20 @@ export const surveyFormSchema: FormSchema = {
       placeholder: "Select your birth date",
       required: false,
       icon: "calendar",
+      validate: [
+        { expression: "birthDate < today()", message: "Date of birth must be in the past" },
+        { expression: "years(birthDate, today()) >= 13", message: "You must be at least 13 years old" },
+        { expression: "years(birthDate, today()) <= 120", message: "Age must be at most 120 years" },
+      ],
+    },
+    {
+      id: "age",
+      type: "number",
+      label: "Age",
+      placeholder: "Calculated from your date of birth",
+      required: false,
+      icon: "hash",
+      compute: "years(birthDate, today())",
     },
     {
       id: "feedback",
@@ -116,13 +129,85 @@ export const surveyFormSchema: FormSchema = {
       required: false,
     },
   ],
-};
+  defaultLocale: "en",
+  translations: {
+    es: {
+      title: "Encuesta de clientes",
+      description: "Ayúdanos a mejorar nuestros servicios",
+      submitLabel: "Enviar encuesta",
+      fields: {
+        name: { label: "Nombre completo", placeholder: "Escribe tu nombre completo" },
+        email: { label: "Correo electrónico", placeholder: "tu.correo@ejemplo.com" },
+        experience: {
+          label: "Nivel de experiencia",
+          placeholder: "Selecciona tu experiencia",
+          options: { beginner: "Principiante", intermediate: "Intermedio", advanced: "Avanzado", expert: "Experto" },
+        },
+        birthDate: {
+          label: "Fecha de nacimiento",
+          placeholder: "Selecciona tu fecha de nacimiento",
+          validate: [
+            "La fecha de nacimiento debe estar en el pasado",
+            "Debes tener al menos 13 años",
+            "La edad no puede superar los 120 años",
+          ],
+        },
+        age: { label: "Edad", placeholder: "Se calcula a partir de tu fecha de nacimiento" },
+        feedback: { label: "Comentarios", placeholder: "Comparte tus ideas y sugerencias..." },
+        newsletter: { label: "Boletín", placeholder: "Quiero recibir el boletín de novedades" },
+      },
+    },
+    ar: {
+      title: "استبيان العملاء",
+      description: "ساعدنا على تحسين خدماتنا",
+      submitLabel: "إرسال الاستبيان",
+      fields: {
+        name: { label: "الاسم الكامل", placeholder: "أدخل اسمك الكامل" },
+        email: { label: "البريد الإلكتروني", placeholder: "your.email@example.com" },
+        experience: {
+          label: "مستوى الخبرة",
+          placeholder: "اختر مستوى خبرتك",
+          options: { beginner: "مبتدئ", intermediate: "متوسط", advanced: "متقدم", expert: "خبير" },
+        },
+        birthDate: {
+          label: "تاريخ الميلاد",
+          placeholder: "اختر تاريخ ميلادك",
+          validate: ["يجب أن يكون تاريخ الميلاد في الماضي", "يجب ألا يقل عمرك عن 13 عامًا", "يجب ألا يزيد العمر عن 120 عامًا"],
+        },
+        age: { label: "العمر", placeholder: "يُحسب من تاريخ ميلادك" },
+        feedback: { label: "ملاحظات", placeholder: "شاركنا أفكارك واقتراحاتك..." },
+        newsletter: { label: "النشرة الإخبارية", placeholder: "أرغب في تلقي النشرة الإخبارية" },
+      },
+    },
+  },
+});
 
-export const jobApplicationSchema: FormSchema = {
+export const jobApplicationSchema = defineFormSchema({
   id: "job-application",
+  schemaVersion: 1,
+  revision: 1,
   title: "Job Application Form",
   description: "Apply for your dream position",
   submitLabel: "Submit Application",
+  steps: [
+    {
+      id: "contact",
+      title: "Contact Details",
+      description: "How can we reach you?",
+      fields: ["fullName", "email", "phone"],
+    },
+    {
+      id: "role",
+      title: "Role & Availability",
+      description: "Tell us about the position you're after",
+      fields: ["position", "portfolioUrl", "experience", "previousEmployers", "startDate"],
+    },
+    {
+      id: "motivation",
+      title: "Cover Letter",
+      fields: ["coverLetter", "resume", "terms"],
+    },
+  ],
   fields: [
     {
       id: "fullName",
@@ -147,6 +232,7 @@ export const jobApplicationSchema: FormSchema = {
       id: "phone",
       type: "text",
       label: "Phone Number",
+      sensitive: true,
       placeholder: "+1 (555) 123-4567",
       required: true,
       validation: {
@@ -167,6 +253,17 @@ export const jobApplicationSchema: FormSchema = {
         { value: "manager", label: "Project Manager" },
       ],
     },
+    {
+      id: "portfolioUrl",
+      type: "text",
+      label: "Portfolio URL",
+      placeholder: "https://your-portfolio.com",
+      required: true,
+      validation: {
+        pattern: "^https?://.+",
+      },
+      visibleWhen: { field: "position", operator: "equals", value: "designer" },
+    },
     {
       id: "experience",
       type: "number",
@@ -179,6 +276,40 @@ export const jobApplicationSchema: FormSchema = {
       },
       icon: "hash",
     },
+    {
+      id: "previousEmployers",
+      type: "group",
+      label: "Previous Employer",
+      repeatable: { min: 0, max: 5 },
+      fields: [
+        {
+          id: "company",
+          type: "text",
+          label: "Company",
+          required: true,
+        },
+        {
+          id: "role",
+          type: "text",
+          label: "Role",
+          required: true,
+        },
+        {
+          id: "current",
+          type: "checkbox",
+          label: "Current Employer",
+          placeholder: "I currently work here",
+        },
+        {
+          id: "endDate",
+          type: "date",
+          label: "End Date",
+          required: true,
+          visibleWhen: { field: "current", operator: "isFalse" },
+          validate: [{ expression: "endDate <= today()", message: "End date cannot be in the future" }],
+        },
+      ],
+    },
     {
       id: "startDate",
       type: "date",
@@ -186,6 +317,7 @@ export const jobApplicationSchema: FormSchema = {
       placeholder: "Select your availability",
       required: true,
       icon: "calendar",
+      validate: [{ expression: "startDate >= today()", message: "Start date cannot be in the past" }],
     },
     {
       id: "coverLetter",
@@ -199,6 +331,17 @@ export const jobApplicationSchema: FormSchema = {
       },
       icon: "message",
     },
+    {
+      id: "resume",
+      type: "file",
+      label: "Resume",
+      required: true,
+      accept: ".pdf,.doc,.docx",
+      validation: {
+        maxFileSize: 5 * 1024 * 1024,
+        maxFiles: 1,
+      },
+    },
     {
       id: "terms",
       type: "checkbox",
@@ -207,4 +350,9 @@ export const jobApplicationSchema: FormSchema = {
       required: true,
     },
   ],
-};
\ No newline at end of file
+});
+export const builtInFormSchemas: FormSchema[] = [
+  contactFormSchema,
+  surveyFormSchema,
+  jobApplicationSchema,
+];
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { FormField } from '@/types/form';
+import { AIProvider, AIValidationResponse } from '@/lib/ai';
+import { useAIValidation } from '@/hooks/useAIValidation';
+
+const fields: FormField[] = [{ id: 'name', type: 'text', label: 'Name' }];
+
+// Each request waits until the test answers it, and rejects like fetch when it is aborted
+const createControlledProvider = () => {
+  const requests: { signal: AbortSignal; resolve: (result: AIValidationResponse) => void }[] = [];
+  const provider: AIProvider = {
+    name: 'controlled',
+    validate: vi.fn(
+      (_request, signal) =>
+        new Promise<AIValidationResponse>((resolve, reject) => {
+          requests.push({ signal, resolve });
+          signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })
+    ),
+    generateForm: vi.fn(),
+  };
+  return { provider, requests };
+};
+
+const result = (suggestion: string): AIValidationResponse => ({
+  isValid: false,
+  suggestions: [{ field: 'name', suggestion, severity: 'warning' }],
+  confidence: 0.8,
+});
+
+describe('useAIValidation', () => {
+  it('cancels a request that newer values made stale', async () => {
+    const { provider, requests } = createControlledProvider();
+    const { result: hook } = renderHook(() => useAIValidation(provider));
+
+    let first: Promise<AIValidationResponse | null>;
+    let second: Promise<AIValidationResponse | null>;
+    act(() => {
+      first = hook.current.validateWithAI({ name: 'A' }, fields);
+    });
+    act(() => {
+      second = hook.current.validateWithAI({ name: 'Ad' }, fields);
+    });
+
+    expect(requests[0].signal.aborted).toBe(true);
+    expect(requests[1].signal.aborted).toBe(false);
+    await act(async () => {
+      requests[1].resolve(result('latest'));
+      expect(await second).toEqual(result('latest'));
+    });
+    expect(await first!).toBeNull();
+    expect(hook.current.suggestions).toEqual(result('latest').suggestions);
+    expect(hook.current.error).toBeNull();
+    expect(hook.current.isValidating).toBe(false);
+  });
+
+  it('cancels requests still in flight on unmount', () => {
+    const { provider, requests } = createControlledProvider();
+    const { result: hook, unmount } = renderHook(() => useAIValidation(provider));
+
+    act(() => {
+      hook.current.validateWithAI({ name: 'A' }, fields);
+    });
+    unmount();
+
+    expect(requests[0].signal.aborted).toBe(true);
+  });
+});
@@ -1,102 +1,71 @@
-import { useState, useCallback } from 'react';
-import { FormField } from '@/types/form';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { FormField, FormSchema } from '@/types/form';
+import {
+  AIProvider,
+  AIValidationResponse,
+  AIValidationSuggestion,
+  defaultAIProvider,
+  generateFormSchema,
+  isAbortError,
+} from '@/lib/ai';
 
-interface AIValidationSuggestion {
-  field: string;
-  suggestion: string;
-  severity: 'error' | 'warning' | 'info';
-}
-
-interface AIValidationResponse {
-  isValid: boolean;
-  suggestions: AIValidationSuggestion[];
-  confidence: number;
-}
-
-export const useAIValidation = () => {
+export const useAIValidation = (provider: AIProvider = defaultAIProvider) => {
   const [isValidating, setIsValidating] = useState(false);
   const [suggestions, setSuggestions] = useState<AIValidationSuggestion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const generationControllerRef = useRef<AbortController | null>(null);
 
+  useEffect(() => () => {
+    controllerRef.current?.abort();
+    generationControllerRef.current?.abort();
+  }, []);
+
+  // Resolves with null when the request was superseded by a newer one or failed
   const validateWithAI = useCallback(async (
-    formData: Record<string, any>,
+    formData: Record<string, unknown>,
     formFields: FormField[]
-  ): Promise<AIValidationResponse> => {
+  ): Promise<AIValidationResponse | null> => {
+    // Only the latest values matter, so anything still in flight is stale
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
     setIsValidating(true);
-    
-    // Simulate AI validation API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const validationResults: AIValidationSuggestion[] = [];
-    
-    // AI-driven validation logic simulation
-    formFields.forEach(field => {
-      const value = formData[field.id];
-      
-      switch (field.type) {
-        case 'email':
-          if (value && !value.includes('@')) {
-            validationResults.push({
-              field: field.id,
-              suggestion: 'Email format appears invalid. Consider using a proper email format.',
-              severity: 'error'
-            });
-          }
-          break;
-          
-        case 'text':
-          if (field.id.toLowerCase().includes('name') && value) {
-            if (value.length < 2) {
-              validationResults.push({
-                field: field.id,
-                suggestion: 'Name seems too short. Consider adding more characters.',
-                severity: 'warning'
-              });
-            }
-            if (!/^[a-zA-Z\s]+$/.test(value)) {
-              validationResults.push({
-                field: field.id,
-                suggestion: 'Name contains special characters. Consider using only letters.',
-                severity: 'warning'
-              });
-            }
-          }
-          break;
-          
-        case 'textarea':
-          if (value && value.length > 0) {
-            if (value.length < 10) {
-              validationResults.push({
-                field: field.id,
-                suggestion: 'Content seems brief. Consider adding more detail for better context.',
-                severity: 'info'
-              });
-            }
-          }
-          break;
-          
-        case 'number':
-          if (field.id.toLowerCase().includes('age') && value) {
-            if (value < 13 || value > 120) {
-              validationResults.push({
-                field: field.id,
-                suggestion: 'Age value seems unusual. Please verify the entered age.',
-                severity: 'warning'
-              });
-            }
-          }
-          break;
+
+    try {
+      const result = await provider.validate({ fields: formFields, values: formData }, controller.signal);
+      if (controller.signal.aborted) return null;
+
+      setSuggestions(result.suggestions);
+      setError(null);
+      return result;
+    } catch (validationError) {
+      if (!isAbortError(validationError) && !controller.signal.aborted) {
+        setError(validationError instanceof Error ? validationError.message : 'AI validation failed');
       }
-    });
-    
-    setSuggestions(validationResults);
-    setIsValidating(false);
-    
-    return {
-      isValid: validationResults.filter(s => s.severity === 'error').length === 0,
-      suggestions: validationResults,
-      confidence: Math.random() * 0.3 + 0.7 // Simulate 70-100% confidence
-    };
-  }, []);
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsValidating(false);
+      }
+    }
+  }, [provider]);
+
+  // Throws FormGenerationError when the provider's reply is not a usable FormSchema
+  const generateFormFromPrompt = useCallback(async (prompt: string): Promise<FormSchema> => {
+    generationControllerRef.current?.abort();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+
+    try {
+      return await generateFormSchema(provider, prompt, controller.signal);
+    } finally {
+      if (generationControllerRef.current === controller) {
+        generationControllerRef.current = null;
+      }
+    }
+  }, [provider]);
 
   const generateFieldSuggestion = useCallback(async (
     fieldType: string,
@@ -141,9 +110,11 @@ export const useAIValidation = () => {
 
   return {
     validateWithAI,
+    generateFormFromPrompt,
     generateFieldSuggestion,
     isValidating,
     suggestions,
-    setSuggestions
+    setSuggestions,
+    error
   };
 };
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { UseFormWatch } from 'react-hook-form';
+import { FormSchema } from '@/types/form';
+import { FormDraft, clearFormDraft, isDraftEnabled, loadFormDraft, saveFormDraft } from '@/lib/formDrafts';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+interface UseFormDraftOptions {
+  watch: UseFormWatch<Record<string, unknown>>;
+  // Current wizard step, stored with the values
+  step: number;
+  // Off for builder previews, which must not leave drafts behind
+  enabled?: boolean;
+}
+
+export const useFormDraft = (schema: FormSchema, { watch, step, enabled = true }: UseFormDraftOptions) => {
+  const active = enabled && isDraftEnabled(schema);
+  // A draft found on load waits for the user to resume or discard it. Nothing is saved until
+  // then, so typing into the fresh form cannot overwrite the old answers by accident.
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(() => (active ? loadFormDraft(schema) : null));
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+  const save = useCallback((values: Record<string, unknown>) => {
+    const draft = saveFormDraft(schema, values, step);
+    setSavedAt(draft ? new Date(draft.savedAt) : null);
+  }, [schema, step]);
+
+  useEffect(() => {
+    if (!active || pendingDraft) return;
+
+    // Saving straight away also records a change of wizard step, which changes no values
+    save(watch());
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const subscription = watch((values) => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => save(values), AUTOSAVE_DELAY_MS);
+    });
+    // Closing the tab would otherwise lose whatever was typed during the delay
+    const flush = () => {
+      clearTimeout(timeoutId);
+      save(watch());
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      clearTimeout(timeoutId);
+      subscription.unsubscribe();
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [active, pendingDraft, watch, save]);
+
+  // The caller puts the draft's values into the form; from then on they are autosaved again
+  const resumeDraft = useCallback(() => {
+    const draft = pendingDraft;
+    setPendingDraft(null);
+    return draft;
+  }, [pendingDraft]);
+
+  const clearDraft = useCallback(() => {
+    clearFormDraft(schema.id);
+    setPendingDraft(null);
+    setSavedAt(null);
+  }, [schema.id]);
+
+  return { pendingDraft, savedAt, resumeDraft, clearDraft };
+};
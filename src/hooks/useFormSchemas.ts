@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { FormSchema } from '@/types/form';
+import { schemaRepository } from '@/lib/repository';
+import { builtInFormSchemas } from '@/data/formSchemas';
+
+export const formSchemasQueryKey = ['form-schemas'] as const;
+
+// Looks a form up among the built-in templates first, then in the repository
+export const useFormSchema = (id: string | undefined) => {
+  const query = useQuery({
+    queryKey: [...formSchemasQueryKey, id],
+    enabled: !!id,
+    queryFn: async () =>
+      builtInFormSchemas.find((schema) => schema.id === id) ?? (await schemaRepository.get(id)),
+  });
+
+  return {
+    schema: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+};
+
+// Every saved version of a form, for showing submissions made with an older one
+export const useFormSchemaRevisions = (id: string | undefined, enabled = true) => {
+  const query = useQuery({
+    queryKey: [...formSchemasQueryKey, id, 'revisions'],
+    enabled: !!id && enabled,
+    queryFn: () => schemaRepository.listRevisions(id),
+  });
+
+  return {
+    revisions: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+};
+
+export const useFormSchemas = () => {
+  const queryClient = useQueryClient();
+
+  const schemasQuery = useQuery({
+    queryKey: formSchemasQueryKey,
+    queryFn: () => schemaRepository.list(),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: formSchemasQueryKey });
+
+  const createSchema = useMutation({
+    mutationFn: (schema: FormSchema) => schemaRepository.create(schema),
+    onSuccess: invalidate,
+  });
+
+  const updateSchema = useMutation({
+    mutationFn: (schema: FormSchema) => schemaRepository.update(schema.id, schema),
+    onSuccess: invalidate,
+  });
+
+  const deleteSchema = useMutation({
+    mutationFn: (id: string) => schemaRepository.delete(id),
+    onSuccess: invalidate,
+  });
+
+  const duplicateSchema = useMutation({
+    mutationFn: (id: string) => schemaRepository.duplicate(id),
+    onSuccess: invalidate,
+  });
+
+  return {
+    schemas: schemasQuery.data ?? [],
+    isLoading: schemasQuery.isLoading,
+    error: schemasQuery.error,
+    createSchema: createSchema.mutateAsync,
+    updateSchema: updateSchema.mutateAsync,
+    deleteSchema: deleteSchema.mutateAsync,
+    duplicateSchema: duplicateSchema.mutateAsync,
+  };
+};
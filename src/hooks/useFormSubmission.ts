@@ -0,0 +1,69 @@
+import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { FormSchema } from '@/types/form';
+import { submissionsQueryKey } from '@/hooks/useSubmissions';
+import {
+  SubmissionError,
+  SubmissionResult,
+  buildSubmissionPayload,
+  createSubmissionTransport,
+  getSubmissionConfig,
+} from '@/lib/transports';
+import { SpamSignals } from '@/lib/spamProtection';
+
+// The submitting component decides how to tell people about the outcome
+export type SubmissionOutcome =
+  | { success: true; result: SubmissionResult; message?: string }
+  | { success: false; message?: string; fieldErrors?: Record<string, string> };
+
+export const useFormSubmission = () => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  // Share of the request body sent (0 to 1) while a transport reports it, otherwise null
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+
+  // Never throws. A failed submission carries the receiver's message, when there is one, and
+  // the values it rejected, keyed by form path.
+  const submitForm = useCallback(async (
+    schema: FormSchema,
+    data: Record<string, unknown>,
+    signals?: SpamSignals
+  ): Promise<SubmissionOutcome> => {
+    const config = getSubmissionConfig(schema);
+    const transport = createSubmissionTransport(config);
+
+    setIsSubmitting(true);
+    setLastError(null);
+
+    try {
+      const result = await transport.submit({
+        schema,
+        payload: buildSubmissionPayload(data, config),
+        onUploadProgress: setUploadProgress,
+        signals,
+      });
+
+      queryClient.invalidateQueries({ queryKey: submissionsQueryKey(schema.id) });
+      return { success: true, result, message: config.successMessage || result.message };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : undefined;
+      setLastError(message ?? null);
+      return {
+        success: false,
+        message,
+        fieldErrors: error instanceof SubmissionError ? error.fieldErrors : undefined,
+      };
+    } finally {
+      setIsSubmitting(false);
+      setUploadProgress(null);
+    }
+  }, [queryClient]);
+
+  return {
+    submitForm,
+    isSubmitting,
+    lastError,
+    uploadProgress,
+  };
+};
@@ -0,0 +1,56 @@
+import { ReactNode } from 'react';
+import { describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { FormSchema } from '@/types/form';
+import { useSchemaForm } from '@/hooks/useSchemaForm';
+
+const feedback: FormSchema = {
+  id: 'feedback',
+  title: 'Feedback',
+  fields: [
+    { id: 'name', type: 'text', label: 'Name', defaultValue: "'Ada'" },
+    { id: 'rating', type: 'number', label: 'Rating' },
+  ],
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <QueryClientProvider client={new QueryClient()}>{children}</QueryClientProvider>
+);
+
+const renderSchemaForm = (schema: FormSchema) =>
+  renderHook(({ schema }) => useSchemaForm(schema, { preview: true }), { wrapper, initialProps: { schema } });
+
+describe('useSchemaForm', () => {
+  it('starts over with the new defaults when another schema is shown', () => {
+    const { result, rerender } = renderSchemaForm(feedback);
+    expect(result.current.values).toMatchObject({ name: 'Ada' });
+
+    const signup: FormSchema = { id: 'signup', title: 'Signup', fields: [{ id: 'email', type: 'email', label: 'Email', defaultValue: "'a@example.com'" }] };
+    rerender({ schema: signup });
+
+    expect(result.current.values).toEqual({ email: 'a@example.com' });
+  });
+
+  it('starts over when fields are added to the same schema', () => {
+    const { result, rerender } = renderSchemaForm(feedback);
+    act(() => {
+      result.current.register('rating').onChange({ target: { name: 'rating', value: 4 } });
+    });
+
+    rerender({ schema: { ...feedback, fields: [...feedback.fields, { id: 'team', type: 'text', label: 'Team', defaultValue: "'Core'" }] } });
+
+    expect(result.current.values).toEqual({ name: 'Ada', team: 'Core' });
+  });
+
+  it('keeps the answers when only text changes', () => {
+    const { result, rerender } = renderSchemaForm(feedback);
+    act(() => {
+      result.current.register('rating').onChange({ target: { name: 'rating', value: 4 } });
+    });
+
+    rerender({ schema: { ...feedback, title: 'Your feedback', fields: feedback.fields.map((field) => ({ ...field, label: `${field.label}:` })) } });
+
+    expect(result.current.values).toMatchObject({ name: 'Ada', rating: 4 });
+  });
+});
@@ -0,0 +1,335 @@
+import { useState, useEffect, useMemo, useRef, FormEvent } from 'react';
+import { useForm, FieldErrors } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { FormField, FormSchema } from '@/types/form';
+import { InferSubmission } from '@/types/submission';
+import { getVisibleFields, isFieldRequired, stripHiddenValues } from '@/lib/formRules';
+import { resolveFormSteps } from '@/lib/formSteps';
+import { lintFormSchema } from '@/lib/lintFormSchema';
+import { createValidationSchema } from '@/lib/validationSchema';
+import { serializeFieldValues } from '@/lib/fieldTypes';
+import { focusField, getErrorSummary } from '@/lib/errorSummary';
+import { getComputedValueUpdates, getDefaultFormValues } from '@/lib/fieldExpressions';
+import {
+  getSchemaLocales,
+  getTextDirection,
+  getTranslator,
+  localizeFormSchema,
+  resolveSchemaLocale,
+} from '@/lib/i18n';
+import { AIValidationResponse } from '@/lib/ai';
+import { useAIValidation } from '@/hooks/useAIValidation';
+import { useFormSubmission } from '@/hooks/useFormSubmission';
+import { useFormDraft } from '@/hooks/useFormDraft';
+import { useSpamProtection } from '@/hooks/useSpamProtection';
+
+export interface UseSchemaFormOptions<S extends FormSchema> {
+  // Called after the configured submission transport has accepted the data
+  onSubmit?: (data: InferSubmission<S>) => void;
+  // Builder preview: validates like the real form but never calls the AI provider or a transport
+  preview?: boolean;
+  // Preferred locale; the browser language is used when missing. Falls back to the schema's
+  // own language when the schema has no translation for it.
+  locale?: string;
+}
+
+// Outcome of the last submit. The renderer shows it however its design system shows messages.
+export type SubmitStatus =
+  | { type: 'preview' }
+  | { type: 'success'; message?: string }
+  | { type: 'failed'; message?: string }
+  | { type: 'aiRejected' }
+  | { type: 'spam'; reason: 'tooFast' | 'rateLimited' };
+
+// What the form's values are shaped by. Labels and other text can change without losing answers.
+const getFieldStructureKey = (fields: FormField[]): string =>
+  JSON.stringify(
+    fields.map((field) => [field.id, field.type, field.defaultValue, field.repeatable, field.fields && getFieldStructureKey(field.fields)])
+  );
+
+// Everything a form needs apart from its markup: validation, wizard steps, computed values,
+// locales, drafts, AI checks, spam protection and submission. Any design system can render the result.
+export const useSchemaForm = <S extends FormSchema>(
+  schema: S,
+  { onSubmit, preview = false, locale }: UseSchemaFormOptions<S> = {}
+) => {
+  const [preferredLocale, setPreferredLocale] = useState(() => locale ?? navigator.language);
+  const locales = useMemo(() => getSchemaLocales(schema), [schema]);
+  const activeLocale = resolveSchemaLocale(schema, preferredLocale);
+  // Only the text changes with the locale; submission and lint keep working on the original schema
+  const localizedSchema = useMemo(() => localizeFormSchema(schema, activeLocale), [schema, activeLocale]);
+  const t = getTranslator(activeLocale);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [aiValidationResults, setAiValidationResults] = useState<AIValidationResponse | null>(null);
+  const [showErrorSummary, setShowErrorSummary] = useState(false);
+  const focusFirstError = useRef(false);
+  const [submitStatus, setSubmitStatus] = useState<SubmitStatus | null>(null);
+  const { validateWithAI, isValidating, suggestions } = useAIValidation();
+  const { submitForm, uploadProgress } = useFormSubmission();
+  const spamProtection = useSpamProtection(schema, { enabled: !preview });
+  // A broken schema would throw while building validators, so callers show these instead of the form
+  const schemaErrors = useMemo(
+    () => lintFormSchema(schema).filter((diagnostic) => diagnostic.severity === 'error'),
+    [schema]
+  );
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    watch,
+    trigger,
+    setError,
+    setValue,
+    getValues,
+    formState: { errors },
+  } = useForm<Record<string, unknown>>({
+    defaultValues: getDefaultFormValues(schema.fields),
+    // Rebuild the schema from the values being validated so visibleWhen/requiredWhen stay in sync
+    resolver: (values, context, options) =>
+      zodResolver(createValidationSchema(localizedSchema, values, t))(values, context, options),
+  });
+
+  // react-hook-form only reads defaultValues on mount, so another schema, or fields added, removed
+  // or retyped in the builder, start the form over with the new defaults
+  const structureKey = `${schema.id}:${getFieldStructureKey(schema.fields)}`;
+  const previousStructureKey = useRef(structureKey);
+  useEffect(() => {
+    if (previousStructureKey.current === structureKey) return;
+    previousStructureKey.current = structureKey;
+    reset(getDefaultFormValues(schema.fields));
+    setCurrentStep(0);
+    setShowErrorSummary(false);
+    setSubmitStatus(null);
+    setAiValidationResults(null);
+  }, [structureKey, schema.fields, reset]);
+
+  const formData = watch();
+  const { pendingDraft, savedAt, resumeDraft, clearDraft } = useFormDraft(schema, {
+    watch,
+    step: currentStep,
+    enabled: !preview,
+  });
+
+  // Computed fields follow their inputs. Setting a value notifies the watcher again, which
+  // stops once every computed value is up to date.
+  useEffect(() => {
+    const applyComputedValues = (values: Record<string, unknown>) =>
+      getComputedValueUpdates(schema.fields, values).forEach(({ name, value }) => setValue(name, value));
+
+    applyComputedValues(getValues());
+    const subscription = watch((values) => applyComputedValues(values));
+    return () => subscription.unsubscribe();
+  }, [schema.fields, watch, setValue, getValues]);
+
+  // Errors on screen were written in the previous language, so check those fields again
+  const previousLocale = useRef(activeLocale);
+  useEffect(() => {
+    if (previousLocale.current === activeLocale) return;
+    previousLocale.current = activeLocale;
+    const invalidFields = Object.keys(errors);
+    if (invalidFields.length > 0) {
+      trigger(invalidFields);
+    }
+  }, [activeLocale, errors, trigger]);
+
+  const visibleFields = getVisibleFields(localizedSchema.fields, formData);
+  const visibleIds = new Set(visibleFields.map((field) => field.id));
+
+  // Steps whose fields are all hidden by visibility rules are skipped entirely
+  const steps = resolveFormSteps(localizedSchema)
+    .map((step) => ({ ...step, fields: step.fields.filter((field) => visibleIds.has(field.id)) }))
+    .filter((step) => step.fields.length > 0);
+  const isWizard = steps.length > 0;
+  const stepIndex = Math.min(currentStep, steps.length);
+  const isReviewStep = isWizard && stepIndex === steps.length;
+  const fieldsToRender = !isWizard ? visibleFields : isReviewStep ? [] : steps[stepIndex].fields;
+  const errorSummary = showErrorSummary ? getErrorSummary(fieldsToRender, errors, t) : [];
+
+  // Runs after the render that shows the failed step, so the field to focus exists
+  useEffect(() => {
+    if (!focusFirstError.current) return;
+    focusFirstError.current = false;
+    if (errorSummary.length > 0) {
+      focusField(errorSummary[0].name);
+    }
+  });
+
+  // Announced once per AI check rather than on every keystroke
+  const aiAnnouncement =
+    aiValidationResults && !isValidating
+      ? suggestions.length > 0
+        ? t('form.aiSuggestions', { count: suggestions.length })
+        : t('form.aiNoSuggestions')
+      : '';
+
+  // AI validation on form data changes. Paused while submitting so it cannot cancel the final check.
+  useEffect(() => {
+    if (isSubmitting || preview) return;
+
+    const timeoutId = setTimeout(async () => {
+      if (Object.keys(formData).length > 0) {
+        const results = await validateWithAI(stripHiddenValues(schema.fields, formData), schema.fields);
+        if (results) {
+          setAiValidationResults(results);
+        }
+      }
+    }, 1000);
+
+    return () => clearTimeout(timeoutId);
+  }, [formData, validateWithAI, schema.fields, isSubmitting, preview]);
+
+  const handleFormSubmit = async (values: Record<string, unknown>) => {
+    const data = serializeFieldValues(schema.fields, stripHiddenValues(schema.fields, values));
+
+    if (preview) {
+      setSubmitStatus({ type: 'preview' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    // Reset however the submission ends, so the submit button never stays disabled
+    try {
+      // Waits for the proof of work when it is still being computed
+      const spamCheck = await spamProtection.check();
+      if (spamCheck.success === false) {
+        // Bots are not told that their submission went nowhere
+        if (spamCheck.failure === 'honeypot') {
+          clearSavedDraft();
+          spamProtection.restart();
+          return;
+        }
+        setSubmitStatus({ type: 'spam', reason: spamCheck.failure });
+        return;
+      }
+
+      // Final AI validation before submission. The AI check is advisory, so if it could
+      // not run at all the submission goes ahead on the schema validation alone.
+      const finalValidation = await validateWithAI(data, visibleFields);
+
+      if (finalValidation && !finalValidation.isValid) {
+        setSubmitStatus({ type: 'aiRejected' });
+        return;
+      }
+
+      const outcome = await submitForm(schema, data, spamCheck.signals);
+
+      // Keep the user's answers so they can retry after a failed submission
+      if (outcome.success === false) {
+        setSubmitStatus({ type: 'failed', message: outcome.message });
+        if (outcome.fieldErrors) {
+          handleRejectedValues(outcome.fieldErrors);
+        }
+        return;
+      }
+      setSubmitStatus({ type: 'success', message: outcome.message });
+
+      // The resolver has checked every value against the schema, so the data has its inferred shape
+      onSubmit?.(data as InferSubmission<S>);
+
+      spamProtection.recordSubmission();
+      clearDraft();
+      setShowErrorSummary(false);
+      reset();
+      setCurrentStep(0);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleNextStep = async () => {
+    const isStepValid = await trigger(steps[stepIndex].fields.map((field) => field.id));
+    if (isStepValid) {
+      setCurrentStep(stepIndex + 1);
+    } else {
+      focusFirstError.current = true;
+      setShowErrorSummary(true);
+    }
+  };
+
+  // Lists the problems and moves focus to the first one, going back to its step in a wizard
+  const handleInvalidSubmit = (formErrors: FieldErrors) => {
+    focusFirstError.current = true;
+    setShowErrorSummary(true);
+    if (!isWizard) return;
+    const invalidStep = steps.findIndex((step) => step.fields.some((field) => formErrors[field.id]));
+    if (invalidStep >= 0) {
+      setCurrentStep(invalidStep);
+    }
+  };
+
+  // Values a validating server rejected are shown like the form's own errors
+  const handleRejectedValues = (fieldErrors: Record<string, string>) => {
+    Object.entries(fieldErrors).forEach(([name, message]) => setError(name, { type: 'server', message }));
+    handleInvalidSubmit(Object.fromEntries(Object.keys(fieldErrors).map((name) => [name.split('.')[0], { type: 'server' }])));
+  };
+
+  // The form's submit handler: moves to the next wizard step, or validates and submits on the last one
+  const submit = (event?: FormEvent<HTMLFormElement>) => {
+    if (isWizard && !isReviewStep) {
+      event?.preventDefault();
+      return handleNextStep();
+    }
+    return handleSubmit(handleFormSubmit, handleInvalidSubmit)(event);
+  };
+
+  const resumeSavedDraft = () => {
+    const draft = resumeDraft();
+    if (!draft) return;
+    reset({ ...getDefaultFormValues(schema.fields), ...draft.values });
+    setCurrentStep(draft.step);
+  };
+
+  // Clearing the saved draft also starts the form over
+  const clearSavedDraft = () => {
+    clearDraft();
+    setShowErrorSummary(false);
+    reset();
+    setCurrentStep(0);
+  };
+
+  return {
+    schema: localizedSchema,
+    schemaErrors,
+    // Locale
+    locale: activeLocale,
+    locales,
+    setLocale: setPreferredLocale,
+    dir: getTextDirection(activeLocale),
+    t,
+    // react-hook-form
+    register,
+    control,
+    errors,
+    values: formData,
+    // Fields of the current step, with conditional requirements resolved against the current values
+    fields: fieldsToRender.map((field) => ({ ...field, required: isFieldRequired(field, formData) })),
+    // Wizard
+    steps,
+    stepIndex,
+    isWizard,
+    isReviewStep,
+    goToStep: setCurrentStep,
+    // Submission
+    submit,
+    submitStatus,
+    honeypot: spamProtection.honeypot,
+    isSubmitting,
+    uploadProgress,
+    errorSummary,
+    focusField,
+    // AI validation
+    isValidating,
+    aiValidationResults,
+    suggestions,
+    aiAnnouncement,
+    // Drafts
+    pendingDraft,
+    draftSavedAt: savedAt,
+    resumeDraft: resumeSavedDraft,
+    discardDraft: clearDraft,
+    clearDraft: clearSavedDraft,
+  };
+};
@@ -0,0 +1,103 @@
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import { FormSchema } from '@/types/form';
+import {
+  ProofOfWork,
+  SpamCheckFailure,
+  SpamSignals,
+  getHoneypotField,
+  getRecentSubmissionTimes,
+  getSpamProtection,
+  isHoneypotFilled,
+  isRateLimited,
+  isSubmittedTooFast,
+  solveProofOfWork,
+} from '@/lib/spamProtection';
+
+export type SpamCheckResult =
+  | { success: true; signals: SpamSignals }
+  | { success: false; failure: Extract<SpamCheckFailure, 'honeypot' | 'tooFast' | 'rateLimited'> };
+
+const getSubmissionTimesKey = (formId: string) => `form-submission-times:${formId}`;
+
+const loadSubmissionTimes = (formId: string): number[] => {
+  try {
+    const times = JSON.parse(localStorage.getItem(getSubmissionTimesKey(formId)) ?? '[]');
+    return Array.isArray(times) ? times.filter((time): time is number => typeof time === 'number') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveSubmissionTimes = (formId: string, times: number[]) => {
+  try {
+    localStorage.setItem(getSubmissionTimesKey(formId), JSON.stringify(times));
+  } catch {
+    // Storage is unavailable, so this browser is not rate limited
+  }
+};
+
+interface UseSpamProtectionOptions {
+  // Off for builder previews, which never submit
+  enabled?: boolean;
+}
+
+// The browser side of the schema's spam protection. Receivers that check submissions again
+// get the start time and proof of work as signals.
+export const useSpamProtection = (schema: FormSchema, { enabled = true }: UseSpamProtectionOptions = {}) => {
+  const config = enabled ? getSpamProtection(schema) : {};
+  const honeypotField = getHoneypotField(config);
+  const bits = config.proofOfWorkBits;
+  const [honeypotValue, setHoneypotValue] = useState('');
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const proof = useRef<Promise<ProofOfWork | null> | null>(null);
+
+  // The work starts when the form opens, so it is usually done by the time it is sent
+  useEffect(() => {
+    if (!bits) {
+      proof.current = null;
+      return;
+    }
+    const controller = new AbortController();
+    // Web Crypto is missing on pages not served over HTTPS. The form is then sent without a
+    // proof, and receivers that require one turn it down.
+    proof.current = solveProofOfWork(schema.id, bits, undefined, controller.signal).catch(() => null);
+    return () => controller.abort();
+  }, [schema.id, bits, startedAt]);
+
+  const check = async (): Promise<SpamCheckResult> => {
+    const now = Date.now();
+    if (isHoneypotFilled(config, honeypotValue)) return { success: false, failure: 'honeypot' };
+    if (isSubmittedTooFast(config, startedAt, now)) return { success: false, failure: 'tooFast' };
+    if (isRateLimited(config, loadSubmissionTimes(schema.id), now)) return { success: false, failure: 'rateLimited' };
+    const solved = proof.current ? await proof.current : null;
+    return { success: true, signals: { startedAt, proof: solved ?? undefined } };
+  };
+
+  // Timing and the proof of work start over for the next submission
+  const restart = () => {
+    setHoneypotValue('');
+    setStartedAt(Date.now());
+  };
+
+  const recordSubmission = () => {
+    if (config.rateLimit) {
+      const now = Date.now();
+      saveSubmissionTimes(schema.id, [...getRecentSubmissionTimes(config, loadSubmissionTimes(schema.id), now), now]);
+    }
+    restart();
+  };
+
+  return {
+    // Props for the hidden input, or null when the form has no honeypot
+    honeypot: honeypotField
+      ? {
+          name: honeypotField,
+          value: honeypotValue,
+          onChange: (event: ChangeEvent<HTMLInputElement>) => setHoneypotValue(event.target.value),
+        }
+      : null,
+    check,
+    recordSubmission,
+    restart,
+  };
+};
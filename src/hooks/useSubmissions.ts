@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { FormSchema } from '@/types/form';
+import {
+  StoredSubmission,
+  getMemorySubmissions,
+  getSubmissionConfig,
+  getSubmissionStorageKey,
+  readStoredSubmissions,
+} from '@/lib/transports';
+
+export const submissionsQueryKey = (formId: string) => ['form-submissions', formId] as const;
+
+// Submissions are only readable back when they were kept in the browser; HTTP and
+// mailto transports hand the data to another system.
+export const canListSubmissions = (schema: FormSchema) => {
+  const { transport } = getSubmissionConfig(schema);
+  return transport === 'localStorage' || transport === 'memory';
+};
+
+export const useSubmissions = (schema: FormSchema | null | undefined) => {
+  const query = useQuery({
+    queryKey: submissionsQueryKey(schema?.id ?? ''),
+    enabled: !!schema,
+    queryFn: async (): Promise<StoredSubmission[]> => {
+      const config = getSubmissionConfig(schema);
+      const submissions =
+        config.transport === 'memory'
+          ? getMemorySubmissions(schema.id)
+          : readStoredSubmissions(getSubmissionStorageKey(schema.id, config));
+
+      return [...submissions].sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+    },
+  });
+
+  return {
+    submissions: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+};
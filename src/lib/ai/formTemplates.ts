@@ -0,0 +1,151 @@
+import { FormField, FormSchema } from "@/types/form";
+
+interface FieldTemplate {
+  keywords: RegExp;
+  field: FormField;
+}
+
+// Building blocks the offline generator picks from by matching words in the prompt
+const FIELD_TEMPLATES: FieldTemplate[] = [
+  {
+    keywords: /\b(name|registration|register|sign ?up|signup|attendee|applica|contact|rsvp)/,
+    field: { id: "fullName", type: "text", label: "Full Name", placeholder: "Enter your full name", required: true, validation: { minLength: 2 }, icon: "user" },
+  },
+  {
+    keywords: /\b(e-?mail|registration|register|sign ?up|signup|contact|newsletter|rsvp|applica)/,
+    field: { id: "email", type: "email", label: "Email Address", placeholder: "your.email@example.com", required: true, icon: "mail" },
+  },
+  {
+    keywords: /\b(phone|mobile|telephone|call)/,
+    field: { id: "phone", type: "text", label: "Phone Number", placeholder: "+1 (555) 123-4567", validation: { pattern: "^[+]?[0-9 ()-]{7,20}$" } },
+  },
+  {
+    keywords: /\b(company|organi[sz]ation|employer|business)/,
+    field: { id: "company", type: "text", label: "Company", placeholder: "Where do you work?" },
+  },
+  {
+    keywords: /\b(job title|role|position)/,
+    field: { id: "jobTitle", type: "text", label: "Job Title", placeholder: "e.g. Product Manager" },
+  },
+  {
+    keywords: /\b(birth|dob|birthday)/,
+    field: { id: "birthDate", type: "date", label: "Date of Birth", placeholder: "Select your birth date", icon: "calendar" },
+  },
+  {
+    keywords: /\bage\b/,
+    field: { id: "age", type: "number", label: "Age", placeholder: "Enter your age", validation: { min: 0, max: 120 }, icon: "hash" },
+  },
+  {
+    keywords: /\b(event date|which day|attendance|session|booking|appointment|reservation)/,
+    field: { id: "eventDate", type: "date", label: "Preferred Date", placeholder: "Pick a date", required: true, icon: "calendar" },
+  },
+  {
+    keywords: /\b(guests?|plus[- ]one|tickets?|party size|headcount)/,
+    field: { id: "guests", type: "number", label: "Number of Guests", placeholder: "0", validation: { min: 0, max: 20 }, icon: "hash" },
+  },
+  {
+    keywords: /\b(diet|dietary|allerg|food|meal|catering)/,
+    field: {
+      id: "dietaryRestrictions",
+      type: "select",
+      label: "Dietary Restrictions",
+      placeholder: "Select any dietary needs",
+      options: [
+        { value: "none", label: "None" },
+        { value: "vegetarian", label: "Vegetarian" },
+        { value: "vegan", label: "Vegan" },
+        { value: "gluten-free", label: "Gluten-free" },
+        { value: "halal", label: "Halal" },
+        { value: "kosher", label: "Kosher" },
+        { value: "other", label: "Other" },
+      ],
+    },
+  },
+  {
+    keywords: /\b(t-?shirt|shirt|apparel|merch)/,
+    field: {
+      id: "tshirtSize",
+      type: "select",
+      label: "T-Shirt Size",
+      placeholder: "Select your size",
+      options: ["XS", "S", "M", "L", "XL", "XXL"].map((size) => ({ value: size.toLowerCase(), label: size })),
+    },
+  },
+  {
+    keywords: /\b(rating|rate|satisf|score|nps)/,
+    field: {
+      id: "rating",
+      type: "select",
+      label: "Overall Rating",
+      placeholder: "How would you rate us?",
+      required: true,
+      options: [
+        { value: "5", label: "5 - Excellent" },
+        { value: "4", label: "4 - Good" },
+        { value: "3", label: "3 - Average" },
+        { value: "2", label: "2 - Poor" },
+        { value: "1", label: "1 - Very poor" },
+      ],
+    },
+  },
+  {
+    keywords: /\b(address|shipping|mailing|delivery)/,
+    field: { id: "address", type: "textarea", label: "Address", placeholder: "Street, city, postal code, country", validation: { maxLength: 300 } },
+  },
+  {
+    keywords: /\b(website|portfolio|url|linkedin)/,
+    field: { id: "website", type: "text", label: "Website", placeholder: "https://", validation: { pattern: "^https?://.+" } },
+  },
+  {
+    keywords: /\b(resume|cv|attach|upload)/,
+    field: { id: "attachment", type: "file", label: "Attachment", accept: ".pdf,.doc,.docx", validation: { maxFileSize: 5 * 1024 * 1024, maxFiles: 1 }, icon: "attachment" },
+  },
+  {
+    keywords: /\b(photo|picture|image|screenshot)/,
+    field: { id: "photos", type: "file", label: "Photos", accept: "image/*", validation: { maxFileSize: 10 * 1024 * 1024, maxFiles: 5 } },
+  },
+  {
+    keywords: /\b(feedback|comment|suggestion|review|message|notes?|question|survey)/,
+    field: { id: "comments", type: "textarea", label: "Comments", placeholder: "Share your thoughts...", validation: { maxLength: 1000 }, icon: "message" },
+  },
+  {
+    keywords: /\b(newsletter|subscribe|updates|marketing)/,
+    field: { id: "newsletter", type: "checkbox", label: "Newsletter", placeholder: "Keep me posted with news and updates" },
+  },
+  {
+    keywords: /\b(terms|consent|agree|gdpr|waiver|privacy)/,
+    field: { id: "consent", type: "checkbox", label: "Consent", placeholder: "I agree to the terms and privacy policy", required: true },
+  },
+];
+
+const FALLBACK_FIELD_IDS = ["fullName", "email", "comments"];
+
+// "event registration with dietary restrictions" -> "Event Registration"
+const toTitle = (prompt: string) => {
+  const subject = prompt.split(/\b(?:with|including|that|which|for collecting|asking)\b/i)[0].trim() || prompt;
+  const words = subject.replace(/^(an?|the)\s+/i, "").split(/\s+/).slice(0, 6);
+  const title = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+  return /form$/i.test(title) || /registration|survey|application/i.test(title) ? title : `${title} Form`;
+};
+
+export const generateFormFromKeywords = (prompt: string): FormSchema => {
+  const text = prompt.toLowerCase();
+  let fields = FIELD_TEMPLATES.filter((template) => template.keywords.test(text)).map((template) => ({
+    ...template.field,
+  }));
+
+  if (fields.length === 0) {
+    fields = FIELD_TEMPLATES.filter((template) => FALLBACK_FIELD_IDS.includes(template.field.id)).map(
+      (template) => ({ ...template.field })
+    );
+  }
+
+  const trimmed = prompt.trim();
+  return {
+    id: `generated_form_${Date.now()}`,
+    title: toTitle(trimmed),
+    description: trimmed.charAt(0).toUpperCase() + trimmed.slice(1),
+    fields,
+    submitLabel: "Submit",
+  };
+};
@@ -0,0 +1,28 @@
+import { FormSchema } from "@/types/form";
+import { AIProvider } from "@/lib/ai/types";
+import { parseFormSchemaDocument } from "@/lib/formSchemaDocument";
+import { migrateFormSchema } from "@/lib/schemaMigrations";
+
+export class FormGenerationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "FormGenerationError";
+    this.issues = issues;
+  }
+}
+
+// Whatever the provider returns is checked against the FormSchema shape before it reaches the editor
+export const generateFormSchema = async (
+  provider: AIProvider,
+  prompt: string,
+  signal?: AbortSignal
+): Promise<FormSchema> => {
+  const document = await provider.generateForm(prompt, signal);
+  const { schema, issues } = parseFormSchemaDocument(document);
+  if (!schema) {
+    throw new FormGenerationError("The generated form did not match the expected schema", issues);
+  }
+  return migrateFormSchema(schema);
+};
@@ -0,0 +1,137 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FormField } from "@/types/form";
+import {
+  AIProvider,
+  AIProviderError,
+  createAIProvider,
+  createOpenAICompatibleProvider,
+  isAbortError,
+  withFallback,
+} from "@/lib/ai";
+import { postJson } from "@/lib/ai/request";
+
+const fields: FormField[] = [{ id: "email", type: "email", label: "Email", required: true }];
+const request = { fields, values: { email: "ada@example.com" } };
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+// Never answers, like a server that hangs, but stops when the request is aborted like fetch does
+const hangingFetch = vi.fn(
+  (_url: string, init: RequestInit) =>
+    new Promise<Response>((_, reject) => {
+      if (init.signal?.aborted) reject(abortError());
+      init.signal?.addEventListener("abort", () => reject(abortError()));
+    })
+);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const completion = (content: unknown) => jsonResponse({ choices: [{ message: { content: JSON.stringify(content) } }] });
+
+const getError = async (promise: Promise<unknown>) => promise.then(() => null, (error) => error);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.clearAllMocks();
+});
+
+describe("postJson", () => {
+  it("gives up with an AIProviderError once the timeout elapses", async () => {
+    vi.stubGlobal("fetch", hangingFetch);
+    const error = await getError(postJson("http://ai.test/v1", { body: {}, timeoutMs: 20 }));
+
+    expect(error).toBeInstanceOf(AIProviderError);
+    expect(error.message).toBe("AI provider did not respond within 20ms");
+    expect(isAbortError(error)).toBe(false);
+  });
+
+  it("passes cancellation by the caller on as an AbortError", async () => {
+    vi.stubGlobal("fetch", hangingFetch);
+    const controller = new AbortController();
+    const pending = postJson("http://ai.test/v1", { body: {}, timeoutMs: 5000, signal: controller.signal });
+    controller.abort();
+
+    expect(isAbortError(await getError(pending))).toBe(true);
+  });
+
+  it("does not send requests that were cancelled before they started", async () => {
+    vi.stubGlobal("fetch", hangingFetch);
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(isAbortError(await getError(postJson("http://ai.test/v1", { body: {}, timeoutMs: 5000, signal: controller.signal })))).toBe(true);
+    expect(hangingFetch.mock.calls[0][1].signal?.aborted).toBe(true);
+  });
+
+  it("turns error responses into an AIProviderError with the status", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("overloaded", { status: 503 })));
+    const error = await getError(postJson("http://ai.test/v1", { body: {}, timeoutMs: 5000 }));
+
+    expect(error).toBeInstanceOf(AIProviderError);
+    expect(error.status).toBe(503);
+  });
+});
+
+describe("OpenAI-compatible provider", () => {
+  const provider = createOpenAICompatibleProvider({ baseUrl: "http://ai.test/v1/", model: "test-model", timeoutMs: 5000 });
+
+  it("posts chat completions without an API key and reads the JSON reply", async () => {
+    const fetchMock = vi.fn(async () => completion({ isValid: true, suggestions: [], confidence: 0.9 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const result = await provider.validate(request);
+
+    expect(result).toEqual({ isValid: true, suggestions: [], confidence: 0.9 });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://ai.test/v1/chat/completions");
+    expect(init.headers).not.toHaveProperty("Authorization");
+    expect(JSON.parse(init.body as string).model).toBe("test-model");
+  });
+
+  it("treats an empty completion as a provider error", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => jsonResponse({ choices: [] })));
+
+    expect(await getError(provider.validate(request))).toBeInstanceOf(AIProviderError);
+  });
+});
+
+describe("withFallback", () => {
+  const fallbackResult = { isValid: true, suggestions: [], confidence: 0.5 };
+  const createFallback = (): AIProvider => ({
+    name: "fallback",
+    validate: vi.fn(async () => fallbackResult),
+    generateForm: vi.fn(async () => ({ title: "Fallback" })),
+  });
+  const createPrimary = (error: Error): AIProvider => ({
+    name: "primary",
+    validate: vi.fn(async () => Promise.reject(error)),
+    generateForm: vi.fn(async () => Promise.reject(error)),
+  });
+
+  it("uses the fallback when the primary provider fails", async () => {
+    const fallback = createFallback();
+    const provider = withFallback(createPrimary(new AIProviderError("down", 500)), fallback);
+
+    expect(await provider.validate(request)).toBe(fallbackResult);
+    expect(await provider.generateForm("a contact form")).toEqual({ title: "Fallback" });
+    expect(provider.name).toBe("primary+fallback");
+  });
+
+  it("does not fall back on cancellation, so stale requests stay cancelled", async () => {
+    const fallback = createFallback();
+    const provider = withFallback(createPrimary(abortError()), fallback);
+
+    expect(isAbortError(await getError(provider.validate(request)))).toBe(true);
+    expect(fallback.validate).not.toHaveBeenCalled();
+  });
+
+  it("answers with the rule-based provider when a remote provider times out", async () => {
+    vi.stubGlobal("fetch", hangingFetch);
+    const provider = createAIProvider({ provider: "openai", baseUrl: "http://ai.test/v1", timeoutMs: 20 });
+    const result = await provider.validate({ fields, values: { email: "not-an-email" } });
+
+    expect(hangingFetch).toHaveBeenCalledTimes(1);
+    expect(result.suggestions.map((suggestion) => suggestion.field)).toContain("email");
+  });
+});
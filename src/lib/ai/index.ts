@@ -0,0 +1,80 @@
+import { createOllamaProvider } from "@/lib/ai/ollama";
+import { createOpenAICompatibleProvider } from "@/lib/ai/openai";
+import { createRuleBasedProvider } from "@/lib/ai/ruleBased";
+import { AIProvider, isAbortError } from "@/lib/ai/types";
+
+export * from "@/lib/ai/types";
+export { FormGenerationError, generateFormSchema } from "@/lib/ai/generateForm";
+export { createOllamaProvider, createOpenAICompatibleProvider, createRuleBasedProvider };
+
+export type AIProviderKind = "openai" | "ollama" | "rules";
+
+export interface AIProviderConfig {
+  provider: AIProviderKind;
+  baseUrl?: string;
+  model?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+
+// Remote failures (network, timeout, bad reply) fall back to the rule-based provider.
+// Cancellation is passed through so stale requests stay cancelled.
+export const withFallback = (primary: AIProvider, fallback: AIProvider): AIProvider => {
+  const attempt = async <T>(run: (provider: AIProvider) => Promise<T>): Promise<T> => {
+    try {
+      return await run(primary);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return run(fallback);
+    }
+  };
+
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    validate: (request, signal) => attempt((provider) => provider.validate(request, signal)),
+    generateForm: (prompt, signal) => attempt((provider) => provider.generateForm(prompt, signal)),
+  };
+};
+
+export const createAIProvider = (config: AIProviderConfig): AIProvider => {
+  const rules = createRuleBasedProvider();
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  switch (config.provider) {
+    case "openai":
+      return withFallback(
+        createOpenAICompatibleProvider({
+          baseUrl: config.baseUrl || "http://localhost:3003/v1",
+          model: config.model || "gpt-4o-mini",
+          timeoutMs,
+        }),
+        rules
+      );
+    case "ollama":
+      return withFallback(
+        createOllamaProvider({
+          baseUrl: config.baseUrl || "http://localhost:11434",
+          model: config.model || "llama3.1",
+          timeoutMs,
+        }),
+        rules
+      );
+    case "rules":
+    default:
+      return rules;
+  }
+};
+
+// Configured through VITE_AI_PROVIDER, VITE_AI_BASE_URL, VITE_AI_MODEL and VITE_AI_TIMEOUT_MS.
+// VITE_ variables end up in the browser bundle, so API keys stay with the server that
+// VITE_AI_BASE_URL points at (`npm run ai-proxy` for OpenAI). `npm run mock-server` serves both
+// remote APIs at http://localhost:3001.
+export const getAIProviderConfigFromEnv = (): AIProviderConfig => ({
+  provider: (import.meta.env.VITE_AI_PROVIDER as AIProviderKind | undefined) || "rules",
+  baseUrl: import.meta.env.VITE_AI_BASE_URL as string | undefined,
+  model: import.meta.env.VITE_AI_MODEL as string | undefined,
+  timeoutMs: import.meta.env.VITE_AI_TIMEOUT_MS ? Number(import.meta.env.VITE_AI_TIMEOUT_MS) : undefined,
+});
+
+export const defaultAIProvider = createAIProvider(getAIProviderConfigFromEnv());
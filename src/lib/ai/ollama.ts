@@ -0,0 +1,50 @@
+import { AIProvider, AIProviderError } from "@/lib/ai/types";
+import {
+  ChatMessage,
+  buildGenerationMessages,
+  buildValidationMessages,
+  extractJsonObject,
+  parseValidationReply,
+} from "@/lib/ai/prompt";
+import { postJson } from "@/lib/ai/request";
+
+export interface OllamaConfig {
+  // e.g. http://localhost:11434
+  baseUrl: string;
+  model: string;
+  timeoutMs: number;
+}
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+}
+
+export const createOllamaProvider = (config: OllamaConfig): AIProvider => {
+  const chat = async (messages: ChatMessage[], signal?: AbortSignal) => {
+    const response = await postJson<OllamaChatResponse>(`${config.baseUrl.replace(/\/+$/, "")}/api/chat`, {
+      body: {
+        model: config.model,
+        messages,
+        stream: false,
+        format: "json",
+        options: { temperature: 0 },
+      },
+      timeoutMs: config.timeoutMs,
+      signal,
+    });
+
+    const content = response.message?.content;
+    if (!content) {
+      throw new AIProviderError("AI provider returned an empty reply");
+    }
+    return content;
+  };
+
+  return {
+    name: "ollama",
+    validate: async (request, signal) =>
+      parseValidationReply(await chat(buildValidationMessages(request), signal), request.fields),
+    generateForm: async (prompt, signal) =>
+      extractJsonObject(await chat(buildGenerationMessages(prompt), signal)),
+  };
+};
@@ -0,0 +1,51 @@
+import { AIProvider, AIProviderError } from "@/lib/ai/types";
+import {
+  ChatMessage,
+  buildGenerationMessages,
+  buildValidationMessages,
+  extractJsonObject,
+  parseValidationReply,
+} from "@/lib/ai/prompt";
+import { postJson } from "@/lib/ai/request";
+
+// No API key here: anything the browser sends can be read by anyone using the app. Point
+// baseUrl at a server that adds the key, such as `npm run ai-proxy`.
+export interface OpenAICompatibleConfig {
+  // Any server implementing /chat/completions, e.g. http://localhost:3003/v1
+  baseUrl: string;
+  model: string;
+  timeoutMs: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const complete = async (messages: ChatMessage[], signal?: AbortSignal) => {
+    const response = await postJson<ChatCompletionResponse>(`${config.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      body: {
+        model: config.model,
+        messages,
+        temperature: 0,
+        response_format: { type: "json_object" },
+      },
+      timeoutMs: config.timeoutMs,
+      signal,
+    });
+
+    const content = response.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new AIProviderError("AI provider returned an empty completion");
+    }
+    return content;
+  };
+
+  return {
+    name: "openai",
+    validate: async (request, signal) =>
+      parseValidationReply(await complete(buildValidationMessages(request), signal), request.fields),
+    generateForm: async (prompt, signal) =>
+      extractJsonObject(await complete(buildGenerationMessages(prompt), signal)),
+  };
+};
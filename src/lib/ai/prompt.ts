@@ -0,0 +1,109 @@
+import { FormField } from "@/types/form";
+import {
+  AIProviderError,
+  AIValidationRequest,
+  AIValidationResponse,
+  AIValidationSuggestion,
+} from "@/lib/ai/types";
+import { EXPRESSION_FUNCTIONS } from "@/lib/expressions";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+const VALIDATION_SYSTEM_PROMPT = [
+  "You review form submissions before they are sent.",
+  "You receive the form's field definitions and the values entered so far.",
+  "Point out values that look wrong, implausible or incomplete. Do not repeat the field's own required/min/max rules.",
+  'Reply with JSON only: {"suggestions":[{"field":"<field id>","suggestion":"<short advice>","severity":"error"|"warning"|"info"}],"confidence":<0..1>}.',
+  "Use severity error only for values that are clearly invalid.",
+].join("\n");
+
+const SEVERITIES = new Set<AIValidationSuggestion["severity"]>(["error", "warning", "info"]);
+
+const describeField = (field: FormField) => ({
+  id: field.id,
+  type: field.type,
+  label: field.label,
+  required: !!field.required,
+  validation: field.validation,
+  options: field.options?.map((option) => option.value),
+});
+
+const GENERATION_SYSTEM_PROMPT = [
+  "You design web forms from a short description.",
+  "Reply with JSON only, matching this TypeScript shape:",
+  "{ id: string; title: string; description?: string; submitLabel?: string; fields: {",
+  "  id: string /* camelCase, unique */;",
+  '  type: "text" | "email" | "textarea" | "select" | "radio" | "multiselect" | "checkboxGroup" | "checkbox" | "number" | "date" | "file" | "group";',
+  "  label: string; placeholder?: string; required?: boolean;",
+  "  validation?: { minLength?: number; maxLength?: number; pattern?: string; min?: number; max?: number; minSelections?: number; maxSelections?: number; maxFileSize?: number /* bytes */; maxFiles?: number };",
+  "  options?: { value: string; label: string }[] /* required for select, radio, multiselect and checkboxGroup */;",
+  "  accept?: string /* file fields only, e.g. \".pdf,image/*\" */;",
+  '  icon?: "user" | "mail" | "message" | "hash" | "calendar" | "attachment";',
+  "  fields?: /* group only: the same field shape, without nested groups */ object[];",
+  "  repeatable?: { min?: number; max?: number } /* group only: how many entries can be added */;",
+  "  compute?: string /* expression over other field ids, e.g. \"quantity * unitPrice\" or \"years(birthDate)\" */;",
+  "  defaultValue?: string /* expression, e.g. \"today()\" or \"1\" */;",
+  "  validate?: { expression: string; message: string }[] /* e.g. { expression: \"endDate > startDate\", message: \"...\" } */;",
+  "  sensitive?: boolean /* never saved in drafts, e.g. for ID or card numbers */;",
+  "}[] }",
+  "For checkboxes, put the sentence shown next to the box in placeholder.",
+  "Use radio for a short list with one answer, multiselect or checkboxGroup when several answers are allowed.",
+  "Use file for uploads such as a resume or photos.",
+  "Use a repeatable group when the same details are collected several times, e.g. one entry per attendee.",
+  `Expressions support + - * / %, comparisons, && || !, a ? b : c and the functions ${EXPRESSION_FUNCTIONS.join(", ")}.`,
+].join("\n");
+
+export const buildGenerationMessages = (prompt: string): ChatMessage[] => [
+  { role: "system", content: GENERATION_SYSTEM_PROMPT },
+  { role: "user", content: JSON.stringify({ prompt }) },
+];
+
+export const buildValidationMessages = ({ fields, values }: AIValidationRequest): ChatMessage[] => [
+  { role: "system", content: VALIDATION_SYSTEM_PROMPT },
+  {
+    role: "user",
+    content: JSON.stringify({ fields: fields.map(describeField), values }),
+  },
+];
+
+// Models wrap JSON in prose or code fences often enough that we look for the outermost object
+export const extractJsonObject = (content: string): unknown => {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new AIProviderError("AI provider reply did not contain a JSON object");
+  }
+  try {
+    return JSON.parse(content.slice(start, end + 1));
+  } catch {
+    throw new AIProviderError("AI provider reply was not valid JSON");
+  }
+};
+
+// Keeps only well-formed suggestions that point at fields of this form
+export const parseValidationReply = (content: string, fields: FormField[]): AIValidationResponse => {
+  const reply = extractJsonObject(content) as { suggestions?: unknown; confidence?: unknown };
+  const fieldIds = new Set(fields.map((field) => field.id));
+
+  const suggestions = (Array.isArray(reply.suggestions) ? reply.suggestions : [])
+    .filter(
+      (item): item is AIValidationSuggestion =>
+        !!item &&
+        typeof item.field === "string" &&
+        fieldIds.has(item.field) &&
+        typeof item.suggestion === "string" &&
+        SEVERITIES.has(item.severity)
+    )
+    .map(({ field, suggestion, severity }) => ({ field, suggestion, severity }));
+
+  const confidence = typeof reply.confidence === "number" ? Math.min(1, Math.max(0, reply.confidence)) : 0.5;
+
+  return {
+    isValid: suggestions.every((item) => item.severity !== "error"),
+    suggestions,
+    confidence,
+  };
+};
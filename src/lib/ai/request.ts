@@ -0,0 +1,47 @@
+import { AIProviderError } from "@/lib/ai/types";
+
+interface JsonRequestOptions {
+  headers?: Record<string, string>;
+  body: unknown;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+// POSTs JSON and aborts when either the caller cancels or the timeout elapses.
+// Caller cancellation surfaces as an AbortError; a timeout as an AIProviderError.
+export const postJson = async <T>(url: string, options: JsonRequestOptions): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs);
+  const forwardAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", forwardAbort);
+  if (options.signal?.aborted) controller.abort();
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json", ...options.headers },
+      body: JSON.stringify(options.body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new AIProviderError(`AI provider responded with ${response.status}${text ? `: ${text.slice(0, 200)}` : ""}`, response.status);
+    }
+
+    return (await response.json()) as T;
+  } catch (error) {
+    if (timedOut) {
+      throw new AIProviderError(`AI provider did not respond within ${options.timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener("abort", forwardAbort);
+  }
+};
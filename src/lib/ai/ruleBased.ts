@@ -0,0 +1,82 @@
+import { AIProvider, AIValidationSuggestion } from "@/lib/ai/types";
+import { generateFormFromKeywords } from "@/lib/ai/formTemplates";
+
+// Deterministic heuristics that need no network. Used on its own when no model is
+// configured and as the fallback when a remote provider fails.
+export const createRuleBasedProvider = (): AIProvider => ({
+  name: "rules",
+  validate: async ({ fields, values }) => {
+    const suggestions: AIValidationSuggestion[] = [];
+
+    fields.forEach((field) => {
+      const value = values[field.id];
+
+      switch (field.type) {
+        case "email":
+          if (typeof value === "string" && value && !value.includes("@")) {
+            suggestions.push({
+              field: field.id,
+              suggestion: "Email format appears invalid. Consider using a proper email format.",
+              severity: "error"
+            });
+          }
+          break;
+
+        case "text":
+          if (field.id.toLowerCase().includes("name") && typeof value === "string" && value) {
+            if (value.length < 2) {
+              suggestions.push({
+                field: field.id,
+                suggestion: "Name seems too short. Consider adding more characters.",
+                severity: "warning"
+              });
+            }
+            if (!/^[a-zA-Z\s]+$/.test(value)) {
+              suggestions.push({
+                field: field.id,
+                suggestion: "Name contains special characters. Consider using only letters.",
+                severity: "warning"
+              });
+            }
+          }
+          break;
+
+        case "textarea":
+          if (typeof value === "string" && value.length > 0 && value.length < 10) {
+            suggestions.push({
+              field: field.id,
+              suggestion: "Content seems brief. Consider adding more detail for better context.",
+              severity: "info"
+            });
+          }
+          break;
+
+        case "number":
+          if (field.id.toLowerCase().includes("age") && value !== undefined && value !== "") {
+            const age = Number(value);
+            if (age < 13 || age > 120) {
+              suggestions.push({
+                field: field.id,
+                suggestion: "Age value seems unusual. Please verify the entered age.",
+                severity: "warning"
+              });
+            }
+          }
+          break;
+      }
+    });
+
+    // Confidence drops with every finding instead of being random, so results are reproducible
+    const penalty = suggestions.reduce(
+      (total, item) => total + (item.severity === "error" ? 0.25 : item.severity === "warning" ? 0.1 : 0.03),
+      0
+    );
+
+    return {
+      isValid: suggestions.every((item) => item.severity !== "error"),
+      suggestions,
+      confidence: Math.max(0.3, 1 - penalty),
+    };
+  },
+  generateForm: async (prompt) => generateFormFromKeywords(prompt),
+});
@@ -0,0 +1,38 @@
+import { FormField } from "@/types/form";
+
+export interface AIValidationSuggestion {
+  field: string;
+  suggestion: string;
+  severity: "error" | "warning" | "info";
+}
+
+export interface AIValidationResponse {
+  isValid: boolean;
+  suggestions: AIValidationSuggestion[];
+  confidence: number;
+}
+
+export interface AIValidationRequest {
+  fields: FormField[];
+  values: Record<string, unknown>;
+}
+
+export interface AIProvider {
+  name: string;
+  validate: (request: AIValidationRequest, signal?: AbortSignal) => Promise<AIValidationResponse>;
+  // Returns an unchecked schema document; callers validate it before use
+  generateForm: (prompt: string, signal?: AbortSignal) => Promise<unknown>;
+}
+
+export class AIProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "AIProviderError";
+    this.status = status;
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
@@ -0,0 +1,24 @@
+import * as z from "zod";
+import { FormField } from "@/types/form";
+import { FieldTypeDefinition } from "@/lib/fieldTypes";
+
+export const DEFAULT_RATING_STARS = 5;
+
+export const getRatingStars = (field: FormField) => Number(field.settings?.stars) || DEFAULT_RATING_STARS;
+
+export const ratingFieldType: FieldTypeDefinition = {
+  type: "rating",
+  label: "Star Rating",
+  toZod: (field, { t }) => {
+    const stars = getRatingStars(field);
+    return z.coerce
+      .number()
+      .int()
+      .min(1, t("validation.min", { label: field.label, min: 1 }))
+      .max(stars, t("validation.max", { label: field.label, max: stars }));
+  },
+};
+
+// Field types this app adds to the built-in ones, without their controls. Enough for servers
+// to validate submissions; the app adds controls, builder editors and icons in components/fields.
+export const CUSTOM_FIELD_TYPES: FieldTypeDefinition[] = [ratingFieldType];
@@ -0,0 +1,4 @@
+import { FormSchema } from "@/types/form";
+
+// Keeps the literal ids, types and option values of a schema so InferSubmission can see them
+export const defineFormSchema = <const S extends FormSchema>(schema: S): S => schema;
@@ -0,0 +1,39 @@
+import { FieldErrors, get } from "react-hook-form";
+import { FormField } from "@/types/form";
+import { getFieldInputId } from "@/lib/fieldGroups";
+import { Translator } from "@/lib/i18n";
+
+export interface ErrorSummaryItem {
+  // Form path of the value, e.g. "previousEmployers.0.role"
+  name: string;
+  label: string;
+  message: string;
+}
+
+// Errors in the order the fields are shown, with errors inside group entries listed per entry
+export const getErrorSummary = (fields: FormField[], errors: FieldErrors, t: Translator, basePath = "", labelPrefix = ""): ErrorSummaryItem[] =>
+  fields.flatMap((field) => {
+    const name = basePath ? `${basePath}.${field.id}` : field.id;
+    const error = get(errors, name);
+    if (!error) return [];
+
+    const label = `${labelPrefix}${field.label}`;
+    const message = error.message ?? error.root?.message;
+    const items: ErrorSummaryItem[] = message ? [{ name, label, message: String(message) }] : [];
+    if (field.type === "group" && Array.isArray(error)) {
+      error.forEach((_entryErrors, index) => {
+        const entryLabel = t("group.entry", { label: field.label, index: index + 1 });
+        items.push(...getErrorSummary(field.fields ?? [], errors, t, `${name}.${index}`, `${entryLabel}: `));
+      });
+    }
+    return items;
+  });
+
+// Radio and checkbox groups have no element with the field's id, so their first option takes focus
+export const focusField = (name: string) => {
+  const inputId = getFieldInputId(name);
+  const target =
+    document.getElementById(inputId) ??
+    document.querySelector<HTMLElement>(`[aria-labelledby="${inputId}-label"] :is(button, input, textarea)`);
+  target?.focus();
+};
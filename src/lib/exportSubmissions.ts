@@ -0,0 +1,38 @@
+import { FormField, SubmissionConfig } from "@/types/form";
+import { StoredSubmission, getSubmissionValue } from "@/lib/transports";
+import { formatFieldValue } from "@/lib/formatFieldValue";
+
+const escapeCsvCell = (value: string) => {
+  // Prefix cells that spreadsheet apps would otherwise evaluate as formulas
+  const safe = /^[=+@\t\r]|^-(?!\d)/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// CSV uses the same display formatting as the table so the export matches what is on screen
+export const submissionsToCsv = (
+  fields: FormField[],
+  submissions: StoredSubmission[],
+  config: SubmissionConfig
+) => {
+  const header = ["Submitted At", ...fields.map((field) => field.label)];
+  const rows = submissions.map((submission) => [
+    submission.submittedAt,
+    ...fields.map((field) => formatFieldValue(field, getSubmissionValue(submission.data, field, config))),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+};
+
+export const submissionsToJson = (submissions: StoredSubmission[]) =>
+  JSON.stringify(submissions, null, 2);
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
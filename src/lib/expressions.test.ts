@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  EXPRESSION_FUNCTIONS,
+  ExpressionError,
+  evaluateExpression,
+  getExpressionIdentifiers,
+  parseExpression,
+} from "@/lib/expressions";
+
+const scope = {
+  quantity: 3,
+  unitPrice: 2.5,
+  name: "Ada",
+  tags: ["a", "b"],
+  startDate: new Date(2026, 0, 1),
+  endDate: new Date(2026, 0, 11),
+  birthDate: new Date(1990, 5, 15),
+  empty: null,
+};
+
+const getError = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  return null;
+};
+
+describe("evaluateExpression", () => {
+  it.each([
+    ["quantity * unitPrice", 7.5],
+    ["quantity + 2 * 3", 9],
+    ["(quantity + 2) * 3", 15],
+    ["-quantity % 2", -1],
+    ["quantity / 0", null],
+    ['"12" + "3"', "123"],
+    ["name + ' Lovelace'", "Ada Lovelace"],
+    ["quantity > 2 && name == 'Ada'", true],
+    ["!(quantity >= 3) || false", false],
+    ["quantity > 5 ? 'many' : 'few'", "few"],
+    ["days(startDate, endDate)", 10],
+    ["endDate > startDate", true],
+    ["isEmpty(empty) && !isEmpty(tags)", true],
+    ["len(tags) + len(name)", 5],
+    ["min(4, quantity, 7)", 3],
+    ["empty + 1", null],
+    ["empty > 1", null],
+  ])("%s gives %j", (source, expected) => {
+    expect(evaluateExpression(source, scope)).toEqual(expected);
+  });
+
+  it("keeps empty inputs empty instead of failing", () => {
+    expect(evaluateExpression("years(empty, today())", scope)).toBeNull();
+  });
+
+  it("refuses names that are not in the scope", () => {
+    expect(() => evaluateExpression("missing + 1", scope)).toThrow('Unknown field "missing"');
+  });
+
+  it("lists the names an expression reads", () => {
+    expect(getExpressionIdentifiers("isEmpty(endDate) || endDate > startDate ? quantity : 0").sort()).toEqual([
+      "endDate",
+      "quantity",
+      "startDate",
+    ]);
+  });
+});
+
+describe("parseExpression", () => {
+  it("reports where a syntax error is", () => {
+    const error = getError(() => parseExpression("quantity * (unitPrice + "));
+
+    expect(error).toBeInstanceOf(ExpressionError);
+    expect((error as ExpressionError).position).toBe(24);
+  });
+
+  it.each([
+    ["", "Expression is empty"],
+    ["'open", "Unterminated string"],
+    ["quantity unitPrice", "Unexpected token"],
+    ["min()", "Wrong number of arguments for min()"],
+    ["today(1)", "Wrong number of arguments for today()"],
+    ["quantity ? 1", 'Expected ":"'],
+  ])("refuses %j", (source, message) => {
+    expect(() => parseExpression(source)).toThrow(message);
+  });
+
+  it("gives back the same tree for the same source", () => {
+    expect(parseExpression("quantity + 1")).toBe(parseExpression("quantity + 1"));
+  });
+
+  it("forgets the oldest parsed expressions once the cache is full", () => {
+    const first = parseExpression("quantity + 0");
+    for (let index = 1; index <= 600; index++) parseExpression(`quantity + ${index}`);
+
+    expect(parseExpression("quantity + 600")).toBe(parseExpression("quantity + 600"));
+    expect(parseExpression("quantity + 0")).not.toBe(first);
+    expect(parseExpression("quantity + 0")).toEqual(first);
+  });
+});
+
+describe("sandbox", () => {
+  it("only calls the listed functions", () => {
+    expect(EXPRESSION_FUNCTIONS).not.toContain("constructor");
+    ["constructor()", "eval('1')", "Function('return 1')", "alert(1)", "toString()", "hasOwnProperty('a')"].forEach((source) => {
+      expect(() => parseExpression(source)).toThrow(/Unknown function/);
+    });
+  });
+
+  it("does not reach properties through the scope's prototype", () => {
+    ["constructor", "__proto__", "toString", "hasOwnProperty", "prototype"].forEach((source) => {
+      expect(() => evaluateExpression(source, scope)).toThrow(/Unknown field/);
+    });
+  });
+
+  it("has no property access, indexing or assignment syntax", () => {
+    ["name.constructor", "tags[0]", "name['length']", "quantity = 1", "name.__proto__.polluted", "`x${quantity}`", "() => 1", "a; b"].forEach(
+      (source) => {
+        expect(() => parseExpression(source)).toThrow(ExpressionError);
+      }
+    );
+  });
+
+  it("does not pollute prototypes", () => {
+    const hostile = { __proto__: null, polluted: "no" } as unknown as Record<string, string>;
+    evaluateExpression("polluted + '!'", hostile);
+
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("limits nesting", () => {
+    expect(() => parseExpression(`${"(".repeat(100)}1${")".repeat(100)}`)).toThrow("Expression is nested too deeply");
+    expect(() => parseExpression(`${"-".repeat(100)}1`)).toThrow("Expression is nested too deeply");
+    expect(() => parseExpression(`${"!".repeat(100)}true`)).toThrow("Expression is nested too deeply");
+    expect(evaluateExpression(`${"(".repeat(10)}1${")".repeat(10)}`, {})).toBe(1);
+  });
+
+  it("limits length", () => {
+    expect(() => parseExpression(`1${" + 1".repeat(300)}`)).toThrow("Expressions are limited to 1000 characters");
+  });
+});
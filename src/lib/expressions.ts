@@ -0,0 +1,495 @@
+import { differenceInCalendarDays, differenceInYears, addDays, startOfDay } from "date-fns";
+
+// A small expression language for computed values, defaults and cross-field checks, e.g.
+//   quantity * unitPrice
+//   years(birthDate, today())
+//   isEmpty(endDate) || endDate > startDate
+// Expressions are parsed into a tree and interpreted; nothing is ever passed to eval or
+// Function, identifiers can only name values in the scope, and only the functions below
+// can be called.
+
+export type ExpressionValue = string | number | boolean | Date | null | ExpressionValue[];
+
+export type ExpressionScope = Record<string, ExpressionValue>;
+
+export type ExpressionNode =
+  | { type: "literal"; value: ExpressionValue }
+  | { type: "identifier"; name: string }
+  | { type: "unary"; operator: "!" | "-"; argument: ExpressionNode }
+  | { type: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: "logical"; operator: "&&" | "||"; left: ExpressionNode; right: ExpressionNode }
+  | { type: "conditional"; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: "call"; callee: string; args: ExpressionNode[] };
+
+type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+export class ExpressionError extends Error {
+  // Character offset in the source, when the problem is a syntax error
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(message);
+    this.name = "ExpressionError";
+    this.position = position;
+  }
+}
+
+const MAX_LENGTH = 1000;
+const MAX_DEPTH = 64;
+// Expressions can come from imported or generated schemas, so the parse cache is bounded
+const MAX_CACHED = 500;
+
+type Token =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "string"; value: string; position: number }
+  | { kind: "identifier"; value: string; position: number }
+  | { kind: "operator"; value: string; position: number }
+  | { kind: "end"; position: number };
+
+const OPERATORS = ["&&", "||", "==", "!=", "<=", ">=", "<", ">", "+", "-", "*", "/", "%", "!", "?", ":", "(", ")", ","];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(index));
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]), position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+    if (identifier) {
+      tokens.push({ kind: "identifier", value: identifier[0], position: index });
+      index += identifier[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === "\\" && end + 1 < source.length) end++;
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        throw new ExpressionError("Unterminated string", index);
+      }
+      tokens.push({ kind: "string", value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, index);
+    }
+    tokens.push({ kind: "operator", value: operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ kind: "end", position: source.length });
+  return tokens;
+};
+
+// Values arrive as-is from the form; these helpers give every operator a defined result.
+// Anything involving an empty value is null rather than an error, so a computed field
+// simply stays empty until its inputs are filled in.
+const isEmpty = (value: ExpressionValue) =>
+  value === null || value === "" || (Array.isArray(value) && value.length === 0);
+
+export const isExpressionTruthy = (value: ExpressionValue) =>
+  !isEmpty(value) && value !== false && value !== 0 && !(typeof value === "number" && isNaN(value));
+
+const toNumber = (value: ExpressionValue): number | null => {
+  if (typeof value === "number") return isNaN(value) ? null : value;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return null;
+};
+
+const toDate = (value: ExpressionValue): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === "string" && value !== "") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const toText = (value: ExpressionValue): string => {
+  if (value === null) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (Array.isArray(value)) return value.map(toText).join(", ");
+  return String(value);
+};
+
+const flatten = (values: ExpressionValue[]): ExpressionValue[] =>
+  values.flatMap((value) => (Array.isArray(value) ? flatten(value) : [value]));
+
+const numbersOf = (values: ExpressionValue[]) =>
+  flatten(values)
+    .map(toNumber)
+    .filter((value): value is number => value !== null);
+
+const isEqual = (left: ExpressionValue, right: ExpressionValue): boolean => {
+  if (left === null || right === null) return left === right;
+  if (left instanceof Date || right instanceof Date) {
+    return toDate(left)?.getTime() === toDate(right)?.getTime();
+  }
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return Array.isArray(left) && Array.isArray(right) && left.length === right.length && left.every((item, i) => isEqual(item, right[i]));
+  }
+  if (typeof left === "number" || typeof right === "number") return toNumber(left) === toNumber(right);
+  return left === right;
+};
+
+const compare = (left: ExpressionValue, right: ExpressionValue): number | null => {
+  if (isEmpty(left) || isEmpty(right)) return null;
+  if (left instanceof Date || right instanceof Date) {
+    const a = toDate(left);
+    const b = toDate(right);
+    return a && b ? a.getTime() - b.getTime() : null;
+  }
+  if (typeof left === "string" && typeof right === "string" && (toNumber(left) === null || toNumber(right) === null)) {
+    return left.localeCompare(right);
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  return a !== null && b !== null ? a - b : null;
+};
+
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  run: (...args: ExpressionValue[]) => ExpressionValue;
+}
+
+const numeric = (fn: (value: number) => number): ExpressionFunction => ({
+  minArgs: 1,
+  maxArgs: 1,
+  run: (value) => {
+    const number = toNumber(value);
+    return number === null ? null : fn(number);
+  },
+});
+
+const FUNCTIONS = new Map<string, ExpressionFunction>([
+  ["today", { minArgs: 0, maxArgs: 0, run: () => startOfDay(new Date()) }],
+  ["now", { minArgs: 0, maxArgs: 0, run: () => new Date() }],
+  [
+    "years",
+    {
+      minArgs: 1,
+      maxArgs: 2,
+      run: (from, to = startOfDay(new Date())) => {
+        const start = toDate(from);
+        const end = toDate(to);
+        return start && end ? differenceInYears(end, start) : null;
+      },
+    },
+  ],
+  [
+    "days",
+    {
+      minArgs: 1,
+      maxArgs: 2,
+      run: (from, to = startOfDay(new Date())) => {
+        const start = toDate(from);
+        const end = toDate(to);
+        return start && end ? differenceInCalendarDays(end, start) : null;
+      },
+    },
+  ],
+  [
+    "addDays",
+    {
+      minArgs: 2,
+      maxArgs: 2,
+      run: (date, amount) => {
+        const start = toDate(date);
+        const days = toNumber(amount);
+        return start && days !== null ? addDays(start, days) : null;
+      },
+    },
+  ],
+  ["date", { minArgs: 1, maxArgs: 1, run: (value) => toDate(value) }],
+  ["number", { minArgs: 1, maxArgs: 1, run: (value) => toNumber(value) }],
+  ["text", { minArgs: 1, maxArgs: 1, run: (value) => toText(value) }],
+  ["min", { minArgs: 1, maxArgs: Infinity, run: (...values) => (numbersOf(values).length ? Math.min(...numbersOf(values)) : null) }],
+  ["max", { minArgs: 1, maxArgs: Infinity, run: (...values) => (numbersOf(values).length ? Math.max(...numbersOf(values)) : null) }],
+  ["sum", { minArgs: 1, maxArgs: Infinity, run: (...values) => numbersOf(values).reduce((total, value) => total + value, 0) }],
+  [
+    "round",
+    {
+      minArgs: 1,
+      maxArgs: 2,
+      run: (value, digits = 0) => {
+        const number = toNumber(value);
+        const factor = 10 ** (toNumber(digits) ?? 0);
+        return number === null ? null : Math.round(number * factor) / factor;
+      },
+    },
+  ],
+  ["floor", numeric(Math.floor)],
+  ["ceil", numeric(Math.ceil)],
+  ["abs", numeric(Math.abs)],
+  ["len", { minArgs: 1, maxArgs: 1, run: (value) => (Array.isArray(value) ? value.length : toText(value).length) }],
+  ["isEmpty", { minArgs: 1, maxArgs: 1, run: (value) => isEmpty(value) }],
+  [
+    "contains",
+    {
+      minArgs: 2,
+      maxArgs: 2,
+      run: (collection, item) =>
+        Array.isArray(collection)
+          ? collection.some((entry) => isEqual(entry, item))
+          : toText(collection).toLowerCase().includes(toText(item).toLowerCase()),
+    },
+  ],
+]);
+
+export const EXPRESSION_FUNCTIONS = [...FUNCTIONS.keys()];
+
+// Recursive descent parser; each level handles one precedence tier, lowest first
+const parseTokens = (tokens: Token[]): ExpressionNode => {
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return token.kind === "operator" && values.includes(token.value);
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new ExpressionError(`Expected "${value}"`, peek().position);
+    }
+    index++;
+  };
+  const nested = <T,>(parse: () => T): T => {
+    if (++depth > MAX_DEPTH) {
+      throw new ExpressionError("Expression is nested too deeply", peek().position);
+    }
+    const result = parse();
+    depth--;
+    return result;
+  };
+
+  const binaryLevel = (operators: string[], next: () => ExpressionNode) => (): ExpressionNode => {
+    let left = next();
+    while (isOperator(...operators)) {
+      const operator = (tokens[index++] as { value: string }).value;
+      const right = next();
+      left =
+        operator === "&&" || operator === "||"
+          ? { type: "logical", operator, left, right }
+          : { type: "binary", operator: operator as BinaryOperator, left, right };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (token.kind === "number" || token.kind === "string") {
+      index++;
+      return { type: "literal", value: token.value };
+    }
+    if (token.kind === "identifier") {
+      index++;
+      if (token.value === "true" || token.value === "false") return { type: "literal", value: token.value === "true" };
+      if (token.value === "null") return { type: "literal", value: null };
+
+      if (!isOperator("(")) return { type: "identifier", name: token.value };
+
+      const fn = FUNCTIONS.get(token.value);
+      if (!fn) {
+        throw new ExpressionError(`Unknown function "${token.value}"`, token.position);
+      }
+      index++;
+      const args: ExpressionNode[] = [];
+      if (!isOperator(")")) {
+        args.push(parseConditional());
+        while (isOperator(",")) {
+          index++;
+          args.push(parseConditional());
+        }
+      }
+      expect(")");
+      if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        throw new ExpressionError(`Wrong number of arguments for ${token.value}()`, token.position);
+      }
+      return { type: "call", callee: token.value, args };
+    }
+    if (isOperator("(")) {
+      index++;
+      const expression = parseConditional();
+      expect(")");
+      return expression;
+    }
+    throw new ExpressionError(token.kind === "end" ? "Unexpected end of expression" : "Unexpected token", token.position);
+  };
+
+  const parseUnary = (): ExpressionNode =>
+    nested(() => {
+      if (isOperator("!", "-")) {
+        const operator = (tokens[index++] as { value: string }).value as "!" | "-";
+        return { type: "unary", operator, argument: parseUnary() };
+      }
+      return parsePrimary();
+    });
+
+  const parseMultiplicative = binaryLevel(["*", "/", "%"], parseUnary);
+  const parseAdditive = binaryLevel(["+", "-"], parseMultiplicative);
+  const parseComparison = binaryLevel(["<", "<=", ">", ">="], parseAdditive);
+  const parseEquality = binaryLevel(["==", "!="], parseComparison);
+  const parseAnd = binaryLevel(["&&"], parseEquality);
+  const parseOr = binaryLevel(["||"], parseAnd);
+
+  function parseConditional(): ExpressionNode {
+    return nested(() => {
+      const test = parseOr();
+      if (!isOperator("?")) return test;
+      index++;
+      const consequent = parseConditional();
+      expect(":");
+      const alternate = parseConditional();
+      return { type: "conditional", test, consequent, alternate };
+    });
+  }
+
+  const expression = parseConditional();
+  if (peek().kind !== "end") {
+    throw new ExpressionError("Unexpected token", peek().position);
+  }
+  return expression;
+};
+
+const parsed = new Map<string, ExpressionNode>();
+
+export const parseExpression = (source: string): ExpressionNode => {
+  const cached = parsed.get(source);
+  if (cached) return cached;
+  if (source.length > MAX_LENGTH) {
+    throw new ExpressionError(`Expressions are limited to ${MAX_LENGTH} characters`);
+  }
+  if (source.trim() === "") {
+    throw new ExpressionError("Expression is empty", 0);
+  }
+  const node = parseTokens(tokenize(source));
+  // Maps keep insertion order, so the first key is the oldest entry
+  if (parsed.size >= MAX_CACHED) parsed.delete(parsed.keys().next().value);
+  parsed.set(source, node);
+  return node;
+};
+
+const evaluateNode = (node: ExpressionNode, scope: ExpressionScope): ExpressionValue => {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "identifier":
+      if (!Object.prototype.hasOwnProperty.call(scope, node.name)) {
+        throw new ExpressionError(`Unknown field "${node.name}"`);
+      }
+      return scope[node.name] ?? null;
+    case "unary": {
+      const value = evaluateNode(node.argument, scope);
+      if (node.operator === "!") return !isExpressionTruthy(value);
+      const number = toNumber(value);
+      return number === null ? null : -number;
+    }
+    case "logical": {
+      const left = isExpressionTruthy(evaluateNode(node.left, scope));
+      if (node.operator === "&&") return left && isExpressionTruthy(evaluateNode(node.right, scope));
+      return left || isExpressionTruthy(evaluateNode(node.right, scope));
+    }
+    case "conditional":
+      return isExpressionTruthy(evaluateNode(node.test, scope))
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+    case "call": {
+      const fn = FUNCTIONS.get(node.callee);
+      return fn.run(...node.args.map((arg) => evaluateNode(arg, scope)));
+    }
+    case "binary": {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+
+      if (node.operator === "==") return isEqual(left, right);
+      if (node.operator === "!=") return !isEqual(left, right);
+      if (["<", "<=", ">", ">="].includes(node.operator)) {
+        const order = compare(left, right);
+        if (order === null) return null;
+        if (node.operator === "<") return order < 0;
+        if (node.operator === "<=") return order <= 0;
+        if (node.operator === ">") return order > 0;
+        return order >= 0;
+      }
+
+      // "+" joins as soon as either side is text, so "12" + "3" is "123"
+      if (node.operator === "+" && (typeof left === "string" || typeof right === "string")) {
+        return toText(left) + toText(right);
+      }
+
+      const a = left instanceof Date ? null : toNumber(left);
+      const b = right instanceof Date ? null : toNumber(right);
+      if (a === null || b === null) return null;
+      switch (node.operator) {
+        case "+":
+          return a + b;
+        case "-":
+          return a - b;
+        case "*":
+          return a * b;
+        case "/":
+          return b === 0 ? null : a / b;
+        case "%":
+          return b === 0 ? null : a % b;
+      }
+      return null;
+    }
+  }
+};
+
+export const evaluateExpression = (source: string, scope: ExpressionScope): ExpressionValue =>
+  evaluateNode(parseExpression(source), scope);
+
+// Names of the values an expression reads, used to check references before it runs
+export const getExpressionIdentifiers = (source: string): string[] => {
+  const names = new Set<string>();
+  const visit = (node: ExpressionNode) => {
+    switch (node.type) {
+      case "identifier":
+        names.add(node.name);
+        break;
+      case "unary":
+        visit(node.argument);
+        break;
+      case "binary":
+      case "logical":
+        visit(node.left);
+        visit(node.right);
+        break;
+      case "conditional":
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case "call":
+        node.args.forEach(visit);
+        break;
+    }
+  };
+  visit(parseExpression(source));
+  return [...names];
+};
@@ -0,0 +1,139 @@
+import { FormField } from "@/types/form";
+import { getVisibleFields } from "@/lib/formRules";
+import { getGroupBounds, toGroupEntries } from "@/lib/fieldGroups";
+import { ExpressionScope, ExpressionValue, evaluateExpression, isExpressionTruthy } from "@/lib/expressions";
+
+type FormValues = Record<string, unknown>;
+
+// Field types whose value an expression can produce
+export const COMPUTABLE_FIELD_TYPES: FormField["type"][] = ["text", "textarea", "email", "number", "date", "checkbox"];
+
+const toExpressionValue = (field: FormField, value: unknown): ExpressionValue => {
+  if (value === undefined || value === null || value === "") return null;
+  switch (field.type) {
+    case "number": {
+      const number = Number(value);
+      return isNaN(number) ? null : number;
+    }
+    case "date": {
+      const date = value instanceof Date ? value : new Date(String(value));
+      return isNaN(date.getTime()) ? null : date;
+    }
+    case "checkbox":
+      return value === true;
+    case "multiselect":
+    case "checkboxGroup":
+      return Array.isArray(value) ? value.map(String) : [String(value)];
+    // Expressions cannot look inside files or group entries, only count them
+    case "file":
+    case "group":
+      return Array.isArray(value) ? value.length : 0;
+    default:
+      return String(value);
+  }
+};
+
+// Field ids mapped to their values as expressions see them. Hidden fields read as null.
+export const getExpressionScope = (fields: FormField[], values: FormValues): ExpressionScope => {
+  const visibleIds = new Set(getVisibleFields(fields, values).map((field) => field.id));
+  return Object.fromEntries(
+    fields.map((field) => [field.id, visibleIds.has(field.id) ? toExpressionValue(field, values[field.id]) : null])
+  );
+};
+
+// Mistakes in an expression are reported by the schema linter, so at runtime they read as "no value"
+const safelyEvaluate = (expression: string, scope: ExpressionScope): ExpressionValue => {
+  try {
+    return evaluateExpression(expression, scope);
+  } catch {
+    return null;
+  }
+};
+
+// Converts an expression result into what the field's input holds
+const toFieldValue = (field: FormField, result: ExpressionValue): unknown => {
+  if (result === null) return field.type === "checkbox" ? false : undefined;
+  switch (field.type) {
+    case "number": {
+      const number = typeof result === "number" ? result : Number(result);
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case "date": {
+      const date = result instanceof Date ? result : new Date(String(result));
+      return isNaN(date.getTime()) ? undefined : date;
+    }
+    case "checkbox":
+      return isExpressionTruthy(result);
+    default:
+      return result instanceof Date ? result.toISOString().slice(0, 10) : String(result);
+  }
+};
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b || ((a ?? "") === "" && (b ?? "") === "");
+
+export interface ComputedValueUpdate {
+  // Form path, e.g. "total" or "items.0.subtotal"
+  name: string;
+  value: unknown;
+}
+
+// Values of computed fields that are out of date. Computed fields may build on each other,
+// so evaluation repeats until nothing changes (bounded, in case expressions form a cycle).
+export const getComputedValueUpdates = (fields: FormField[], values: FormValues, basePath = ""): ComputedValueUpdate[] => {
+  const current = { ...values };
+  const changed = new Map<string, unknown>();
+  const computed = fields.filter((field) => field.compute && COMPUTABLE_FIELD_TYPES.includes(field.type));
+
+  for (let pass = 0; pass <= computed.length; pass++) {
+    const scope = getExpressionScope(fields, current);
+    const visibleIds = new Set(getVisibleFields(fields, current).map((field) => field.id));
+    let stable = true;
+    computed
+      .filter((field) => visibleIds.has(field.id))
+      .forEach((field) => {
+        const value = toFieldValue(field, safelyEvaluate(field.compute, scope));
+        if (!isSameValue(value, current[field.id])) {
+          current[field.id] = value;
+          changed.set(field.id, value);
+          stable = false;
+        }
+      });
+    if (stable) break;
+  }
+
+  const updates = [...changed].map(([id, value]) => ({ name: `${basePath}${id}`, value }));
+  fields
+    .filter((field) => field.type === "group")
+    .forEach((group) =>
+      toGroupEntries(current[group.id]).forEach((entry, index) =>
+        updates.push(...getComputedValueUpdates(group.fields ?? [], entry, `${basePath}${group.id}.${index}.`))
+      )
+    );
+  return updates;
+};
+
+// Initial values: defaultValue expressions in field order, each able to use the ones before it.
+// Groups start with as many entries as they require.
+export const getDefaultFormValues = (fields: FormField[]): FormValues => {
+  const values: FormValues = {};
+  fields.forEach((field) => {
+    if (field.type === "group") {
+      values[field.id] = Array.from({ length: getGroupBounds(field).min }, () => getDefaultFormValues(field.fields ?? []));
+    } else if (field.defaultValue) {
+      const value = toFieldValue(field, safelyEvaluate(field.defaultValue, getExpressionScope(fields, values)));
+      if (value !== undefined) values[field.id] = value;
+    }
+  });
+  return values;
+};
+
+// Messages of the field's validate rules that currently fail. A rule that cannot be decided
+// yet (its inputs are empty) passes; required checks cover missing values.
+export const getExpressionRuleFailures = (field: FormField, scope: ExpressionScope): string[] =>
+  (field.validate ?? [])
+    .filter((rule) => {
+      const result = safelyEvaluate(rule.expression, scope);
+      return result !== null && !isExpressionTruthy(result);
+    })
+    .map((rule) => rule.message || `${field.label} is invalid`);
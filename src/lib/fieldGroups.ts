@@ -0,0 +1,21 @@
+import { FormField } from "@/types/form";
+
+export type GroupEntry = Record<string, unknown>;
+
+export const isGroupField = (field: Pick<FormField, "type">) => field.type === "group";
+
+// How many entries a group accepts. A required repeatable group needs at least one.
+export const getGroupBounds = (field: FormField): { min: number; max?: number } => {
+  if (!field.repeatable) return { min: 1, max: 1 };
+  const min = field.repeatable.min ?? 0;
+  return { min: field.required ? Math.max(min, 1) : min, max: field.repeatable.max };
+};
+
+export const toGroupEntries = (value: unknown): GroupEntry[] =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is GroupEntry => typeof entry === "object" && entry !== null && !Array.isArray(entry))
+    : [];
+
+// Element id of the control for a form path. Group paths such as "attendees.0.email" repeat
+// per entry, and their dots would need escaping in CSS selectors.
+export const getFieldInputId = (name: string) => name.replace(/\./g, "-");
@@ -0,0 +1,25 @@
+import { Calendar, Hash, LucideIcon, Mail, MessageSquare, Paperclip, User } from "lucide-react";
+import { getCustomFieldType } from "@/lib/fieldTypes";
+
+// Icon names a schema can reference through FormField.icon
+export const FIELD_ICONS: Record<string, { label: string; icon: LucideIcon }> = {
+  user: { label: "Person", icon: User },
+  mail: { label: "Mail", icon: Mail },
+  message: { label: "Message", icon: MessageSquare },
+  hash: { label: "Number", icon: Hash },
+  calendar: { label: "Calendar", icon: Calendar },
+  attachment: { label: "Attachment", icon: Paperclip },
+};
+
+const DEFAULT_ICON_BY_TYPE: Record<string, string> = {
+  email: "mail",
+  textarea: "message",
+  number: "hash",
+  date: "calendar",
+  file: "attachment",
+};
+
+export const getFieldIcon = (type: string, iconName?: string): LucideIcon =>
+  FIELD_ICONS[iconName ?? ""]?.icon ??
+  getCustomFieldType(type)?.defaultIcon ??
+  FIELD_ICONS[DEFAULT_ICON_BY_TYPE[type] ?? "user"].icon;
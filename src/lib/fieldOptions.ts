@@ -0,0 +1,18 @@
+import { FormField } from "@/types/form";
+
+// Field types whose answers are picked from `options`
+export const CHOICE_FIELD_TYPES: FormField["type"][] = ["select", "radio", "multiselect", "checkboxGroup"];
+
+export const isChoiceField = (field: Pick<FormField, "type">) => CHOICE_FIELD_TYPES.includes(field.type);
+
+// Choice fields that submit an array of option values rather than a single one
+export const isMultiChoiceField = (field: Pick<FormField, "type">) =>
+  field.type === "multiselect" || field.type === "checkboxGroup";
+
+export const toValueList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  return value === undefined || value === null || value === "" ? [] : [String(value)];
+};
+
+export const getOptionLabel = (field: FormField, value: string) =>
+  field.options?.find((option) => option.value === value)?.label ?? value;
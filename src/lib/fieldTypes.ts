@@ -0,0 +1,108 @@
+import type { ComponentType } from "react";
+import type { LucideIcon } from "lucide-react";
+import type * as z from "zod";
+import { BuiltInFieldType, FieldType, FormField } from "@/types/form";
+import { FieldRenderer } from "@/types/fieldRenderers";
+import { isChoiceField } from "@/lib/fieldOptions";
+import { Translator } from "@/lib/i18n";
+
+export const FIELD_TYPE_OPTIONS: { value: BuiltInFieldType; label: string }[] = [
+  { value: "text", label: "Text Input" },
+  { value: "email", label: "Email" },
+  { value: "textarea", label: "Text Area" },
+  { value: "select", label: "Select Dropdown" },
+  { value: "radio", label: "Radio Group" },
+  { value: "multiselect", label: "Multi-Select" },
+  { value: "checkboxGroup", label: "Checkbox Group" },
+  { value: "checkbox", label: "Checkbox" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "file", label: "File Upload" },
+  { value: "group", label: "Field Group" },
+];
+
+let fieldIdCounter = 0;
+
+// Unique even when several fields are added within the same millisecond. No hyphens, so the
+// id can be used as a name in expressions.
+export const createFieldId = () => `field_${Date.now().toString(36)}_${++fieldIdCounter}`;
+
+// Choice fields and groups are unusable when empty, so switching to them seeds something to edit
+export const getTypeChangeUpdates = (field: FormField, type: FieldType): Partial<FormField> => ({
+  type,
+  // Settings belong to the type they were made for
+  ...(type !== field.type && { settings: undefined }),
+  ...(isChoiceField({ type }) &&
+    !field.options?.length && {
+      options: [
+        { value: "option-1", label: "Option 1" },
+        { value: "option-2", label: "Option 2" },
+      ],
+    }),
+  ...(type === "group" &&
+    !field.fields?.length && {
+      fields: [{ id: "name", type: "text", label: "Name", required: true }],
+      repeatable: { min: 1 },
+    }),
+});
+
+export interface FieldEditorProps {
+  field: FormField;
+  onChange: (updates: Partial<FormField>) => void;
+}
+
+export interface FieldTypeDefinition {
+  type: string;
+  // Name shown in the builder's type pickers
+  label: string;
+  // Draws the control; DynamicField adds the label and error message around it. Servers,
+  // which only validate, register types without one.
+  render?: FieldRenderer;
+  // Checks a value that was given. Empty values never reach it: the form reports them
+  // as missing when the field is required and accepts them otherwise.
+  toZod: (field: FormField, context: { t: Translator }) => z.ZodTypeAny;
+  // Edits the type's own settings in the builder, usually kept in field.settings
+  builderEditor?: ComponentType<FieldEditorProps>;
+  defaultIcon?: LucideIcon;
+  // Turns the form value into what is submitted, e.g. a signature drawing into a data URL
+  serialize?: (value: unknown, field: FormField) => unknown;
+}
+
+const customFieldTypes = new Map<string, FieldTypeDefinition>();
+
+export const isBuiltInFieldType = (type: string): type is BuiltInFieldType =>
+  FIELD_TYPE_OPTIONS.some((option) => option.value === type);
+
+// Register custom types before any form that uses them is loaded, e.g. in main.tsx
+export const registerFieldType = (definition: FieldTypeDefinition) => {
+  if (isBuiltInFieldType(definition.type)) {
+    throw new Error(`"${definition.type}" is a built-in field type and cannot be registered again.`);
+  }
+  if (customFieldTypes.has(definition.type)) {
+    throw new Error(`A field type "${definition.type}" is already registered.`);
+  }
+  customFieldTypes.set(definition.type, definition);
+};
+
+export const getCustomFieldType = (type: string) => customFieldTypes.get(type);
+
+export const isKnownFieldType = (type: string) => isBuiltInFieldType(type) || customFieldTypes.has(type);
+
+// Built-in types first, then registered ones in registration order
+export const getFieldTypeOptions = (): { value: FieldType; label: string }[] => [
+  ...FIELD_TYPE_OPTIONS,
+  ...[...customFieldTypes.values()].map(({ type, label }) => ({ value: type, label })),
+];
+
+// Applies the serializers of custom types, including those inside group entries
+export const serializeFieldValues = (fields: FormField[], values: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(values).map(([id, value]) => {
+      const field = fields.find((candidate) => candidate.id === id);
+      if (field?.type === "group" && Array.isArray(value)) {
+        return [id, value.map((entry) => serializeFieldValues(field.fields ?? [], entry))];
+      }
+      const serialize = field && getCustomFieldType(field.type)?.serialize;
+      return [id, serialize && value !== undefined ? serialize(value, field) : value];
+    })
+  );
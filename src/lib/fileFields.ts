@@ -0,0 +1,60 @@
+import { FormField } from "@/types/form";
+
+// What is kept of an uploaded file once it has been stored or serialised
+export interface FileDescriptor {
+  name: string;
+  size: number;
+  type: string;
+}
+
+export const describeFile = (file: Blob): FileDescriptor => ({
+  name: file instanceof File ? file.name : "file",
+  size: file.size,
+  type: file.type,
+});
+
+const isFileDescriptor = (value: unknown): value is FileDescriptor =>
+  typeof value === "object" && value !== null && typeof (value as FileDescriptor).name === "string";
+
+// Accepts File objects from the form as well as descriptors read back from storage
+export const toFileDescriptors = (value: unknown): FileDescriptor[] =>
+  (Array.isArray(value) ? value : value ? [value] : [])
+    .map((item) => (item instanceof Blob ? describeFile(item) : item))
+    .filter(isFileDescriptor);
+
+// Looks inside arrays and group entries too
+const containsFile = (value: unknown): boolean => {
+  if (value instanceof Blob) return true;
+  if (Array.isArray(value)) return value.some(containsFile);
+  if (typeof value === "object" && value !== null && !(value instanceof Date)) return Object.values(value).some(containsFile);
+  return false;
+};
+
+export const hasFiles = (payload: Record<string, unknown>) => Object.values(payload).some(containsFile);
+
+// Includes file fields inside groups
+export const hasFileFields = (fields: FormField[]): boolean =>
+  fields.some((field) => field.type === "file" || (field.type === "group" && hasFileFields(field.fields ?? [])));
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Same rules as the HTML accept attribute: extensions (".pdf"), exact types and wildcards ("image/*")
+export const matchesAccept = (file: Pick<FileDescriptor, "name" | "type">, accept?: string) => {
+  const patterns = (accept ?? "")
+    .split(",")
+    .map((pattern) => pattern.trim().toLowerCase())
+    .filter(Boolean);
+  if (patterns.length === 0) return true;
+
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+  return patterns.some((pattern) => {
+    if (pattern.startsWith(".")) return name.endsWith(pattern);
+    if (pattern.endsWith("/*")) return type.startsWith(pattern.slice(0, -1));
+    return type === pattern;
+  });
+};
@@ -0,0 +1,139 @@
+import { FormField, FormSchema } from "@/types/form";
+import { toGroupEntries } from "@/lib/fieldGroups";
+import { getDefaultFormValues } from "@/lib/fieldExpressions";
+
+type FormValues = Record<string, unknown>;
+
+export interface FormDraft {
+  formId: string;
+  // Revision of the form the answers were given for
+  schemaRevision?: number;
+  savedAt: string;
+  expiresAt: string;
+  // Wizard step the person was on
+  step: number;
+  values: FormValues;
+}
+
+export const DEFAULT_DRAFT_EXPIRY_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getDraftStorageKey = (formId: string) => `form-drafts:${formId}`;
+
+export const isDraftEnabled = (schema: FormSchema) => schema.drafts?.enabled !== false;
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+
+// Sensitive fields are never stored, and neither are files: their contents cannot be
+// written to storage and a file name alone cannot be uploaded again. Computed values
+// are left out as well, since they are worked out again from the stored inputs.
+const isStorable = (field: FormField) => !field.sensitive && field.type !== "file" && !field.compute;
+
+const toStoredValues = (fields: FormField[], values: FormValues): FormValues =>
+  Object.fromEntries(
+    fields
+      .filter((field) => isStorable(field) && !isEmptyValue(values[field.id]))
+      .map((field) => [
+        field.id,
+        field.type === "group"
+          ? toGroupEntries(values[field.id]).map((entry) => toStoredValues(field.fields ?? [], entry))
+          : values[field.id],
+      ])
+  );
+
+// JSON turns dates into strings, so they are turned back into Date objects for the date pickers.
+// Values for fields the form no longer has, or that became sensitive, are dropped.
+const reviveValues = (fields: FormField[], values: FormValues): FormValues =>
+  Object.fromEntries(
+    fields
+      .filter((field) => isStorable(field) && field.id in values)
+      .map((field): [string, unknown] => {
+        const value = values[field.id];
+        if (field.type === "group") {
+          return [field.id, toGroupEntries(value).map((entry) => reviveValues(field.fields ?? [], entry))];
+        }
+        if (field.type === "date" && typeof value === "string") {
+          const date = new Date(value);
+          return [field.id, isNaN(date.getTime()) ? undefined : date];
+        }
+        return [field.id, value];
+      })
+  );
+
+// A form nobody has typed into yet only holds its defaults, which are not worth keeping
+export const hasDraftValues = (schema: FormSchema, values: FormValues) =>
+  JSON.stringify(toStoredValues(schema.fields, values)) !==
+  JSON.stringify(toStoredValues(schema.fields, getDefaultFormValues(schema.fields)));
+
+export const clearFormDraft = (formId: string) => {
+  try {
+    localStorage.removeItem(getDraftStorageKey(formId));
+  } catch {
+    // Storage is unavailable, so there is nothing to clear
+  }
+};
+
+// Returns the saved draft, or null when there was nothing worth saving. Saving is best
+// effort, so a full or blocked storage also gives null rather than an error.
+export const saveFormDraft = (schema: FormSchema, values: FormValues, step = 0): FormDraft | null => {
+  if (!hasDraftValues(schema, values)) {
+    clearFormDraft(schema.id);
+    return null;
+  }
+
+  const savedAt = new Date();
+  const expiryDays = schema.drafts?.expiresAfterDays ?? DEFAULT_DRAFT_EXPIRY_DAYS;
+  const draft: FormDraft = {
+    formId: schema.id,
+    schemaRevision: schema.revision,
+    savedAt: savedAt.toISOString(),
+    expiresAt: new Date(savedAt.getTime() + expiryDays * DAY_MS).toISOString(),
+    step,
+    values: toStoredValues(schema.fields, values),
+  };
+  try {
+    localStorage.setItem(getDraftStorageKey(schema.id), JSON.stringify(draft));
+    return draft;
+  } catch {
+    return null;
+  }
+};
+
+// Expired and unreadable drafts are removed on the way
+export const loadFormDraft = (schema: FormSchema, now = new Date()): FormDraft | null => {
+  try {
+    const raw = localStorage.getItem(getDraftStorageKey(schema.id));
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as Partial<FormDraft>;
+    const expiresAt = new Date(String(draft.expiresAt));
+    if (
+      draft.formId !== schema.id ||
+      typeof draft.values !== "object" ||
+      draft.values === null ||
+      isNaN(expiresAt.getTime()) ||
+      expiresAt <= now
+    ) {
+      clearFormDraft(schema.id);
+      return null;
+    }
+
+    const values = reviveValues(schema.fields, draft.values);
+    if (!hasDraftValues(schema, values)) {
+      clearFormDraft(schema.id);
+      return null;
+    }
+    return {
+      formId: schema.id,
+      schemaRevision: draft.schemaRevision,
+      savedAt: String(draft.savedAt),
+      expiresAt: expiresAt.toISOString(),
+      step: typeof draft.step === "number" && draft.step >= 0 ? draft.step : 0,
+      values,
+    };
+  } catch {
+    clearFormDraft(schema.id);
+    return null;
+  }
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { FormField } from "@/types/form";
+import { getVisibilityCycles, getVisibleFields, stripHiddenValues } from "@/lib/formRules";
+
+const visibleIds = (fields: FormField[], values: Record<string, unknown>) =>
+  getVisibleFields(fields, values).map((field) => field.id);
+
+const chained: FormField[] = [
+  { id: "details", type: "text", label: "Details", visibleWhen: { field: "hasPet", operator: "isTrue" } },
+  { id: "hasPet", type: "checkbox", label: "Has a pet", visibleWhen: { field: "contact", operator: "equals", value: "yes" } },
+  { id: "contact", type: "radio", label: "Contact", options: [{ value: "yes", label: "Yes" }, { value: "no", label: "No" }] },
+];
+
+// A is shown while B is empty and B while A is empty
+const cyclic: FormField[] = [
+  { id: "a", type: "text", label: "A", visibleWhen: { field: "b", operator: "isEmpty" } },
+  { id: "b", type: "text", label: "B", visibleWhen: { field: "a", operator: "isEmpty" } },
+];
+
+describe("getVisibleFields", () => {
+  it("hides fields whose rule depends on a hidden field, whatever the field order", () => {
+    expect(visibleIds(chained, { contact: "yes", hasPet: true })).toEqual(["details", "hasPet", "contact"]);
+    expect(visibleIds(chained, { contact: "no", hasPet: true, details: "cat" })).toEqual(["contact"]);
+    expect(visibleIds([...chained].reverse(), { contact: "no", hasPet: true })).toEqual(["contact"]);
+  });
+
+  it("resolves fields that show or hide each other from the values as entered", () => {
+    expect(visibleIds(cyclic, {})).toEqual(["a", "b"]);
+    expect(visibleIds(cyclic, { a: "x" })).toEqual(["a"]);
+    expect(visibleIds(cyclic, { b: "x" })).toEqual(["b"]);
+    expect(visibleIds(cyclic, { a: "x", b: "y" })).toEqual([]);
+  });
+
+  it("gives the same answer for a cycle in any field order", () => {
+    const cycleWithDependent: FormField[] = [
+      ...cyclic,
+      { id: "c", type: "text", label: "C", visibleWhen: { any: [{ field: "a", operator: "isNotEmpty" }, { field: "b", operator: "isNotEmpty" }] } },
+    ];
+    [{}, { a: "x" }, { b: "x" }, { a: "x", b: "y", c: "z" }].forEach((values) => {
+      expect(visibleIds([...cycleWithDependent].reverse(), values).sort()).toEqual(visibleIds(cycleWithDependent, values).sort());
+    });
+    expect(visibleIds(cycleWithDependent, { a: "x" })).toEqual(["a", "c"]);
+  });
+
+  it("settles a field that depends on itself", () => {
+    const field: FormField = { id: "a", type: "text", label: "A", visibleWhen: { field: "a", operator: "isEmpty" } };
+
+    expect(visibleIds([field], {})).toEqual(["a"]);
+    expect(visibleIds([field], { a: "x" })).toEqual([]);
+  });
+
+  it("drops the values of hidden fields", () => {
+    expect(stripHiddenValues(cyclic, { a: "x", b: "y" })).toEqual({});
+    expect(stripHiddenValues(chained, { contact: "no", hasPet: true, details: "cat" })).toEqual({ contact: "no" });
+  });
+});
+
+describe("getVisibilityCycles", () => {
+  it("lists the fields of each cycle in form order", () => {
+    expect(getVisibilityCycles(chained)).toEqual([]);
+    expect(getVisibilityCycles([...cyclic].reverse()).map((cycle) => cycle.map((field) => field.id))).toEqual([["b", "a"]]);
+  });
+});
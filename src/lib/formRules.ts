@@ -0,0 +1,172 @@
+import { FieldCondition, FieldConditionValue, FieldRule, FormField } from "@/types/form";
+
+type FormValues = Record<string, unknown>;
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  value === false ||
+  (Array.isArray(value) && value.length === 0);
+
+const toComparable = (value: unknown): number | string => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return String(value ?? "");
+};
+
+const matchesValue = (actual: unknown, expected: FieldConditionValue) => {
+  if (Array.isArray(actual)) {
+    return actual.some((item) => String(item) === String(expected));
+  }
+  return String(actual ?? "") === String(expected);
+};
+
+const evaluateCondition = (condition: FieldCondition, values: FormValues): boolean => {
+  const actual = values[condition.field];
+  const expected = condition.value;
+  const expectedList = Array.isArray(expected) ? expected : expected === undefined ? [] : [expected];
+
+  switch (condition.operator) {
+    case "equals":
+      return expectedList.length > 0 && matchesValue(actual, expectedList[0]);
+    case "notEquals":
+      return expectedList.length === 0 || !matchesValue(actual, expectedList[0]);
+    case "in":
+      return expectedList.some((item) => matchesValue(actual, item));
+    case "notIn":
+      return !expectedList.some((item) => matchesValue(actual, item));
+    case "isEmpty":
+      return isEmptyValue(actual);
+    case "isNotEmpty":
+      return !isEmptyValue(actual);
+    case "isTrue":
+      return actual === true;
+    case "isFalse":
+      return actual !== true;
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      if (isEmptyValue(actual) || expectedList.length === 0) return false;
+      const left = toComparable(actual);
+      const right = toComparable(expectedList[0]);
+      if (typeof left !== typeof right) return false;
+      if (condition.operator === "gt") return left > right;
+      if (condition.operator === "gte") return left >= right;
+      if (condition.operator === "lt") return left < right;
+      return left <= right;
+    }
+    default:
+      return false;
+  }
+};
+
+export const evaluateRule = (rule: FieldRule, values: FormValues): boolean => {
+  if ("all" in rule) return rule.all.every((child) => evaluateRule(child, values));
+  if ("any" in rule) return rule.any.some((child) => evaluateRule(child, values));
+  if ("not" in rule) return !evaluateRule(rule.not, values);
+  return evaluateCondition(rule, values);
+};
+
+export const getRuleFields = (rule: FieldRule): string[] => {
+  if ("all" in rule) return rule.all.flatMap(getRuleFields);
+  if ("any" in rule) return rule.any.flatMap(getRuleFields);
+  if ("not" in rule) return getRuleFields(rule.not);
+  return [rule.field];
+};
+
+// Splits fields into sets whose visibleWhen rules depend on each other, in an order where
+// every set comes after the fields it depends on (Tarjan's strongly connected components)
+const getVisibilityComponents = (fields: FormField[]): FormField[][] => {
+  const byId = new Map(fields.map((field) => [field.id, field]));
+  const order = new Map<FormField, number>();
+  const lowLink = new Map<FormField, number>();
+  const stack: FormField[] = [];
+  const onStack = new Set<FormField>();
+  const components: FormField[][] = [];
+
+  const visit = (field: FormField) => {
+    order.set(field, order.size);
+    lowLink.set(field, order.get(field));
+    stack.push(field);
+    onStack.add(field);
+
+    (field.visibleWhen ? getRuleFields(field.visibleWhen) : []).forEach((referencedId) => {
+      const referenced = byId.get(referencedId);
+      if (!referenced) return;
+      if (!order.has(referenced)) {
+        visit(referenced);
+        lowLink.set(field, Math.min(lowLink.get(field), lowLink.get(referenced)));
+      } else if (onStack.has(referenced)) {
+        lowLink.set(field, Math.min(lowLink.get(field), order.get(referenced)));
+      }
+    });
+
+    if (lowLink.get(field) === order.get(field)) {
+      const component: FormField[] = [];
+      let member: FormField;
+      do {
+        member = stack.pop();
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== field);
+      components.push(component.sort((a, b) => fields.indexOf(a) - fields.indexOf(b)));
+    }
+  };
+
+  fields.forEach((field) => {
+    if (!order.has(field)) visit(field);
+  });
+  return components;
+};
+
+// Fields that show or hide each other, e.g. A visible when B is empty and B visible when A is empty
+export const getVisibilityCycles = (fields: FormField[]): FormField[][] =>
+  getVisibilityComponents(fields).filter((component) => component.length > 1);
+
+// Resolves which fields are visible for the given values. A field that is
+// hidden contributes no value, so rules chained on it are evaluated as if it
+// were empty. Rules in a cycle have no such order, so within a cycle they read
+// the values as entered, which gives the same answer however the cycle is entered.
+export const getVisibleFields = (fields: FormField[], values: FormValues): FormField[] => {
+  const visibleIds = new Set<string>();
+
+  getVisibilityComponents(fields).forEach((component) => {
+    const componentIds = new Set(component.map((field) => field.id));
+    const effectiveValues: FormValues = {};
+    fields.forEach((field) => {
+      if (visibleIds.has(field.id) || componentIds.has(field.id)) effectiveValues[field.id] = values[field.id];
+    });
+
+    component
+      .filter((field) => !field.visibleWhen || evaluateRule(field.visibleWhen, effectiveValues))
+      .forEach((field) => visibleIds.add(field.id));
+  });
+
+  return fields.filter((field) => visibleIds.has(field.id));
+};
+
+export const isFieldRequired = (field: FormField, values: FormValues): boolean =>
+  !!field.required || (!!field.requiredWhen && evaluateRule(field.requiredWhen, values));
+
+// Drops values belonging to hidden fields so they never reach the submitted payload.
+// Group entries are stripped against the group's own fields.
+export const stripHiddenValues = <T extends FormValues>(fields: FormField[], values: T): Partial<T> => {
+  const visibleIds = new Set(getVisibleFields(fields, values).map((field) => field.id));
+  const hiddenIds = new Set(fields.filter((field) => !visibleIds.has(field.id)).map((field) => field.id));
+  const groups = new Map(fields.filter((field) => field.type === "group").map((field) => [field.id, field.fields ?? []]));
+
+  return Object.fromEntries(
+    Object.entries(values)
+      .filter(([key]) => !hiddenIds.has(key))
+      .map(([key, value]) =>
+        groups.has(key) && Array.isArray(value)
+          ? [key, value.map((entry: FormValues) => stripHiddenValues(groups.get(key), entry))]
+          : [key, value]
+      )
+  ) as Partial<T>;
+};
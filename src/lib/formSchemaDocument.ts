@@ -0,0 +1,181 @@
+import * as z from "zod";
+import { FormSchema } from "@/types/form";
+import { isKnownFieldType } from "@/lib/fieldTypes";
+
+// Structural check for schema documents that come from outside the code base
+// (AI generation, imports) before they are handed to the builder or renderer.
+
+const conditionValue = z.union([z.string(), z.number(), z.boolean()]);
+
+// Typed loosely: the inferred output does not line up with FieldRule under this tsconfig
+const fieldRule: z.ZodType<unknown> = z.lazy(() =>
+  z.union([
+    z.object({
+      field: z.string().min(1),
+      operator: z.enum([
+        "equals",
+        "notEquals",
+        "in",
+        "notIn",
+        "isEmpty",
+        "isNotEmpty",
+        "isTrue",
+        "isFalse",
+        "gt",
+        "gte",
+        "lt",
+        "lte",
+      ]),
+      value: z.union([conditionValue, z.array(conditionValue)]).optional(),
+    }),
+    z.object({ all: z.array(fieldRule) }),
+    z.object({ any: z.array(fieldRule) }),
+    z.object({ not: fieldRule }),
+  ])
+);
+
+const checkUniqueFieldIds = (fields: { id: string }[], ctx: z.RefinementCtx) => {
+  const seen = new Set<string>();
+  fields.forEach((field, index) => {
+    if (seen.has(field.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: `Duplicate field id "${field.id}"` });
+    }
+    seen.add(field.id);
+  });
+};
+
+const baseFieldDocument = z.object({
+  id: z.string().min(1, "Field id is required"),
+  type: z.string().refine(isKnownFieldType, (type) => ({ message: `Unknown field type "${type}"` })),
+  label: z.string().min(1, "Field label is required"),
+  placeholder: z.string().optional(),
+  required: z.boolean().optional(),
+  validation: z
+    .object({
+      minLength: z.number().int().nonnegative().optional(),
+      maxLength: z.number().int().nonnegative().optional(),
+      pattern: z.string().optional(),
+      min: z.number().optional(),
+      max: z.number().optional(),
+      minSelections: z.number().int().nonnegative().optional(),
+      maxSelections: z.number().int().nonnegative().optional(),
+      maxFileSize: z.number().positive().optional(),
+      maxFiles: z.number().int().positive().optional(),
+    })
+    .optional(),
+  options: z.array(z.object({ value: z.string().min(1), label: z.string().min(1) })).optional(),
+  accept: z.string().optional(),
+  icon: z.string().optional(),
+  visibleWhen: fieldRule.optional(),
+  requiredWhen: fieldRule.optional(),
+  compute: z.string().min(1).optional(),
+  defaultValue: z.string().min(1).optional(),
+  validate: z.array(z.object({ expression: z.string().min(1), message: z.string() })).optional(),
+  sensitive: z.boolean().optional(),
+  settings: z.record(z.unknown()).optional(),
+});
+
+// Groups only go one level deep, so their fields use the base shape
+const formFieldDocument = baseFieldDocument.extend({
+  fields: z.array(baseFieldDocument).superRefine(checkUniqueFieldIds).optional(),
+  repeatable: z
+    .object({
+      min: z.number().int().nonnegative().optional(),
+      max: z.number().int().positive().optional(),
+    })
+    .optional(),
+});
+
+const fieldTranslationDocument: z.ZodType<unknown> = z.lazy(() =>
+  z.object({
+    label: z.string().optional(),
+    placeholder: z.string().optional(),
+    options: z.record(z.string()).optional(),
+    validate: z.array(z.string()).optional(),
+    fields: z.record(fieldTranslationDocument).optional(),
+  })
+);
+
+const formTranslationDocument = z.object({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  submitLabel: z.string().optional(),
+  steps: z.record(z.object({ title: z.string().optional(), description: z.string().optional() })).optional(),
+  fields: z.record(fieldTranslationDocument).optional(),
+});
+
+export const formSchemaDocument = z.object({
+  id: z.string().min(1, "Form id is required"),
+  schemaVersion: z.number().int().optional(),
+  revision: z.number().int().optional(),
+  updatedAt: z.string().optional(),
+  title: z.string().min(1, "Form title is required"),
+  description: z.string().optional(),
+  fields: z
+    .array(formFieldDocument)
+    .min(1, "A form needs at least one field")
+    .superRefine(checkUniqueFieldIds),
+  submitLabel: z.string().optional(),
+  steps: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        title: z.string().min(1),
+        description: z.string().optional(),
+        fields: z.array(z.string()),
+      })
+    )
+    .optional(),
+  submission: z
+    .object({
+      transport: z.enum(["http", "mailto", "memory", "localStorage"]),
+      endpoint: z.string().optional(),
+      method: z.enum(["POST", "PUT", "PATCH"]).optional(),
+      headers: z.record(z.string()).optional(),
+      encoding: z.enum(["json", "multipart"]).optional(),
+      to: z.string().optional(),
+      subject: z.string().optional(),
+      storageKey: z.string().optional(),
+      payloadMapping: z.record(z.string()).optional(),
+      successMessage: z.string().optional(),
+    })
+    .optional(),
+  defaultLocale: z.string().min(1).optional(),
+  translations: z.record(formTranslationDocument).optional(),
+  drafts: z
+    .object({
+      enabled: z.boolean().optional(),
+      expiresAfterDays: z.number().positive().optional(),
+    })
+    .optional(),
+  spamProtection: z
+    .object({
+      honeypot: z.boolean().optional(),
+      honeypotField: z.string().min(1).optional(),
+      minSecondsToSubmit: z.number().optional(),
+      rateLimit: z.object({ maxSubmissions: z.number(), windowMinutes: z.number() }).optional(),
+      proofOfWorkBits: z.number().optional(),
+      duplicateWindowMinutes: z.number().optional(),
+    })
+    .optional(),
+});
+
+// `schema` is null whenever `issues` is non-empty
+export interface FormSchemaDocumentResult {
+  schema: FormSchema | null;
+  issues: string[];
+}
+
+export const parseFormSchemaDocument = (input: unknown): FormSchemaDocumentResult => {
+  const result = formSchemaDocument.safeParse(input);
+  if (result.success) {
+    return { schema: result.data as FormSchema, issues: [] };
+  }
+
+  return {
+    schema: null,
+    issues: result.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    ),
+  };
+};
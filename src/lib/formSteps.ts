@@ -0,0 +1,32 @@
+import { FormField, FormSchema, FormStep } from "@/types/form";
+
+export interface ResolvedFormStep extends Omit<FormStep, "fields"> {
+  fields: FormField[];
+}
+
+export const isWizardSchema = (schema: FormSchema) => !!schema.steps && schema.steps.length > 0;
+
+// Turns the step field ids into field definitions. Fields that no step claims
+// are appended to the last step so nothing in the schema is silently dropped.
+export const resolveFormSteps = (schema: FormSchema): ResolvedFormStep[] => {
+  if (!isWizardSchema(schema)) return [];
+
+  const fieldsById = new Map(schema.fields.map((field) => [field.id, field]));
+  const claimed = new Set<string>();
+
+  const steps = schema.steps.map((step) => {
+    const fields = step.fields
+      .map((id) => fieldsById.get(id))
+      .filter((field): field is FormField => !!field && !claimed.has(field.id));
+    fields.forEach((field) => claimed.add(field.id));
+    return { ...step, fields };
+  });
+
+  const unclaimed = schema.fields.filter((field) => !claimed.has(field.id));
+  if (unclaimed.length > 0) {
+    const last = steps[steps.length - 1];
+    steps[steps.length - 1] = { ...last, fields: [...last.fields, ...unclaimed] };
+  }
+
+  return steps;
+};
@@ -0,0 +1,47 @@
+import { format } from "date-fns";
+import { FormField } from "@/types/form";
+import { getOptionLabel, toValueList } from "@/lib/fieldOptions";
+import { toFileDescriptors } from "@/lib/fileFields";
+import { toGroupEntries } from "@/lib/fieldGroups";
+import { DEFAULT_LOCALE, getDateLocale, getTranslator } from "@/lib/i18n";
+
+export const EMPTY_VALUE_LABEL = "—";
+
+// Human readable rendering of a submitted value, used by review and listing screens
+export const formatFieldValue = (field: FormField, value: unknown, locale: string = DEFAULT_LOCALE): string => {
+  const t = getTranslator(locale);
+  if (value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0)) {
+    return field.type === "checkbox" ? t("field.no") : EMPTY_VALUE_LABEL;
+  }
+
+  switch (field.type) {
+    case "checkbox":
+      return value === true || value === "true" ? t("field.yes") : t("field.no");
+    case "date": {
+      const date = value instanceof Date ? value : new Date(String(value));
+      return isNaN(date.getTime()) ? String(value) : format(date, "PPP", { locale: getDateLocale(locale) });
+    }
+    case "select":
+    case "radio":
+      return getOptionLabel(field, String(value));
+    case "multiselect":
+    case "checkboxGroup":
+      return toValueList(value).map((item) => getOptionLabel(field, item)).join(", ");
+    case "file":
+      return toFileDescriptors(value).map((file) => file.name).join(", ") || EMPTY_VALUE_LABEL;
+    case "group":
+      // One "Label: value" list per entry
+      return (
+        toGroupEntries(value)
+          .map((entry) =>
+            (field.fields ?? [])
+              .filter((subField) => subField.id in entry)
+              .map((subField) => `${subField.label}: ${formatFieldValue(subField, entry[subField.id], locale)}`)
+              .join(", ")
+          )
+          .join("; ") || EMPTY_VALUE_LABEL
+      );
+    default:
+      return String(value);
+  }
+};
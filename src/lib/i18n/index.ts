@@ -0,0 +1,115 @@
+import type { Locale } from "date-fns";
+import { ar, de, enUS, es, fr, he } from "date-fns/locale";
+import { FieldTranslation, FormField, FormSchema } from "@/types/form";
+import { MESSAGE_CATALOGS, MessageKey } from "@/lib/i18n/messages";
+
+export type { Message, MessageCatalog, MessageKey } from "@/lib/i18n/messages";
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: TranslationParams) => string;
+
+export const DEFAULT_LOCALE = "en";
+
+const RTL_LANGUAGES = ["ar", "he", "fa", "ur"];
+
+const DATE_LOCALES: Record<string, Locale> = { en: enUS, es, fr, de, ar, he };
+
+const getLanguage = (locale: string) => locale.split("-")[0].toLowerCase();
+
+// Picks the best match for a locale among the available ones: the exact tag, then
+// the bare language, then any regional variant of that language
+export const matchLocale = (locale: string | undefined, available: string[]): string | undefined => {
+  if (!locale) return undefined;
+  const language = getLanguage(locale);
+  return (
+    available.find((candidate) => candidate.toLowerCase() === locale.toLowerCase()) ??
+    available.find((candidate) => candidate.toLowerCase() === language) ??
+    available.find((candidate) => getLanguage(candidate) === language)
+  );
+};
+
+export const isRtlLocale = (locale: string) => RTL_LANGUAGES.includes(getLanguage(locale));
+
+export const getTextDirection = (locale: string): "ltr" | "rtl" => (isRtlLocale(locale) ? "rtl" : "ltr");
+
+export const getDateLocale = (locale: string): Locale =>
+  DATE_LOCALES[matchLocale(locale, Object.keys(DATE_LOCALES)) ?? DEFAULT_LOCALE];
+
+// Name of a locale in its own language, e.g. "español" for "es"
+export const getLocaleName = (locale: string) => {
+  try {
+    return new Intl.DisplayNames([locale], { type: "language" }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+};
+
+const interpolate = (text: string, params: TranslationParams) =>
+  text.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+
+const translators = new Map<string, Translator>();
+
+// Messages missing from a locale's catalog are shown in English
+export const getTranslator = (locale: string = DEFAULT_LOCALE): Translator => {
+  const cached = translators.get(locale);
+  if (cached) return cached;
+
+  const catalogLocale = matchLocale(locale, Object.keys(MESSAGE_CATALOGS)) ?? DEFAULT_LOCALE;
+  const catalog = MESSAGE_CATALOGS[catalogLocale];
+  const fallback = MESSAGE_CATALOGS[DEFAULT_LOCALE];
+  const pluralRules = new Intl.PluralRules(catalogLocale);
+
+  const translator: Translator = (key, params = {}) => {
+    const message = catalog[key] ?? fallback[key] ?? key;
+    if (typeof message === "string") return interpolate(message, params);
+    const count = typeof params.count === "number" ? params.count : 0;
+    return interpolate(message[pluralRules.select(count)] ?? message.other, params);
+  };
+  translators.set(locale, translator);
+  return translator;
+};
+
+// The schema's own language comes first, followed by every translation it carries
+export const getSchemaLocales = (schema: FormSchema): string[] => {
+  const defaultLocale = schema.defaultLocale || DEFAULT_LOCALE;
+  const translated = Object.keys(schema.translations ?? {}).filter((locale) => locale !== defaultLocale);
+  return [defaultLocale, ...translated];
+};
+
+// Uses the preferred locale when the schema has it, otherwise the schema's own language
+export const resolveSchemaLocale = (schema: FormSchema, preferred?: string): string =>
+  matchLocale(preferred, getSchemaLocales(schema)) ?? schema.defaultLocale ?? DEFAULT_LOCALE;
+
+const localizeField = (field: FormField, translation: FieldTranslation | undefined): FormField => {
+  if (!translation) return field;
+  return {
+    ...field,
+    label: translation.label || field.label,
+    placeholder: translation.placeholder || field.placeholder,
+    options: field.options?.map((option) => ({ ...option, label: translation.options?.[option.value] || option.label })),
+    validate: field.validate?.map((rule, index) => ({ ...rule, message: translation.validate?.[index] || rule.message })),
+    fields: field.fields?.map((subField) => localizeField(subField, translation.fields?.[subField.id])),
+  };
+};
+
+// Swaps the schema's text for the locale's translation. Ids, rules and submission
+// settings are untouched, so values collected with either schema are interchangeable.
+export const localizeFormSchema = <S extends FormSchema>(schema: S, locale: string): S => {
+  const translationLocale = matchLocale(locale, Object.keys(schema.translations ?? {}));
+  const translation = translationLocale ? schema.translations[translationLocale] : undefined;
+  if (!translation) return schema;
+
+  return {
+    ...schema,
+    title: translation.title || schema.title,
+    description: translation.description || schema.description,
+    submitLabel: translation.submitLabel || schema.submitLabel,
+    steps: schema.steps?.map((step) => ({
+      ...step,
+      title: translation.steps?.[step.id]?.title || step.title,
+      description: translation.steps?.[step.id]?.description || step.description,
+    })),
+    fields: schema.fields.map((field) => localizeField(field, translation.fields?.[field.id])),
+  };
+};
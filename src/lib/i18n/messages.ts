@@ -0,0 +1,452 @@
+// A message is either plain text or one text per plural category of its {count}.
+// {lowerLabel} is the field label in lower case, for languages that use it mid-sentence.
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+const en = {
+  "validation.required": "{label} is required",
+  "validation.email": "Please enter a valid email address",
+  "validation.number": "{label} must be a number",
+  "validation.min": "{label} must be at least {min}",
+  "validation.max": "{label} must be no more than {max}",
+  "validation.minLength": {
+    one: "{label} must be at least {count} character",
+    other: "{label} must be at least {count} characters",
+  },
+  "validation.maxLength": {
+    one: "{label} must be no more than {count} character",
+    other: "{label} must be no more than {count} characters",
+  },
+  "validation.pattern": "Invalid {lowerLabel} format",
+  "validation.minSelections": { one: "Select at least {count} option", other: "Select at least {count} options" },
+  "validation.maxSelections": { one: "Select no more than {count} option", other: "Select no more than {count} options" },
+  "validation.maxFiles": { one: "Attach no more than {count} file", other: "Attach no more than {count} files" },
+  "validation.fileType": "{name} is not an accepted file type",
+  "validation.fileSize": "{name} is larger than {size}",
+  "validation.minEntries": { one: "Add at least {count} entry", other: "Add at least {count} entries" },
+  "validation.maxEntries": { one: "Add no more than {count} entry", other: "Add no more than {count} entries" },
+
+  "form.language": "Language",
+  "form.next": "Next",
+  "form.back": "Back",
+  "form.review": "Review",
+  "form.reviewTitle": "Review your answers",
+  "form.stepOf": "Step {current} of {total}",
+  "form.submit": "Submit",
+  "form.submitting": "Submitting...",
+  "form.aiValidating": "AI Validating...",
+  "form.uploading": "Uploading... {percent}%",
+  "form.uploadProgress": "Upload progress",
+  "form.previewTitle": "Preview",
+  "form.previewDescription": "All fields are valid. Nothing was submitted.",
+  "form.invalidTitle": "Validation Issues",
+  "form.invalidDescription": "Please address the validation issues before submitting.",
+  "form.successTitle": "Success!",
+  "form.successDescription": "Your submission has been received.",
+  "form.failedTitle": "Submission Failed",
+  "form.failedDescription": "Something went wrong while submitting the form.",
+  "form.aiTitle": "AI Validation",
+  "form.aiAnalyzing": "Analyzing...",
+  "form.aiConfidence": "{percent}% Confidence",
+  "form.errorSummary": { one: "There is {count} problem with your answers", other: "There are {count} problems with your answers" },
+  "form.aiSuggestions": { one: "AI validation has {count} suggestion", other: "AI validation has {count} suggestions" },
+  "form.aiNoSuggestions": "AI validation found nothing to improve",
+  "form.schemaErrorTitle": "This form cannot be displayed",
+  "form.schemaErrorNamed": "\"{title}\"",
+  "form.schemaErrorUnnamed": "The form definition",
+  "form.schemaErrorDescription": {
+    one: "{form} has {count} problem that must be fixed first.",
+    other: "{form} has {count} problems that must be fixed first.",
+  },
+
+  "field.selectOption": "Select an option",
+  "field.selectOptions": "Select options",
+  "field.searchOptions": "Search options...",
+  "field.noOptions": "No options found.",
+  "field.pickDate": "Pick a date",
+  "field.calculated": "(calculated)",
+  "field.yes": "Yes",
+  "field.no": "No",
+  "field.edit": "Edit",
+  "field.ratingStars": { one: "{count} star", other: "{count} stars" },
+
+  "file.drop": { one: "Drag a file here, or", other: "Drag files here, or" },
+  "file.browse": "Browse files",
+  "file.accepted": "Accepted: {accept}",
+  "file.maxSize": "Up to {size} each",
+  "file.maxFiles": { one: "At most {count} file", other: "At most {count} files" },
+  "file.remove": "Remove {name}",
+
+  "draft.resumeTitle": "Resume your draft?",
+  "draft.resumeDescription": "You have unfinished answers from {date}.",
+  "draft.resume": "Resume",
+  "draft.discard": "Start over",
+  "draft.saved": "Draft saved at {time}",
+  "draft.clear": "Clear draft",
+
+  "spam.title": "Submission not sent",
+  "spam.tooFast": "That was quick! Please check your answers and submit again in a few seconds.",
+  "spam.rateLimited": "You have sent this form several times already. Please try again later.",
+  "spam.honeypotLabel": "Leave this field empty",
+
+  "group.entry": "{label} {index}",
+  "group.add": "Add {lowerLabel}",
+  "group.remove": "Remove {label} {index}",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Partial<Record<MessageKey, Message>>;
+
+const es: MessageCatalog = {
+  "validation.required": "{label} es obligatorio",
+  "validation.email": "Introduce una dirección de correo electrónico válida",
+  "validation.number": "{label} debe ser un número",
+  "validation.min": "{label} debe ser al menos {min}",
+  "validation.max": "{label} no puede ser mayor que {max}",
+  "validation.minLength": {
+    one: "{label} debe tener al menos {count} carácter",
+    other: "{label} debe tener al menos {count} caracteres",
+  },
+  "validation.maxLength": {
+    one: "{label} no puede tener más de {count} carácter",
+    other: "{label} no puede tener más de {count} caracteres",
+  },
+  "validation.pattern": "El formato de {lowerLabel} no es válido",
+  "validation.minSelections": { one: "Selecciona al menos {count} opción", other: "Selecciona al menos {count} opciones" },
+  "validation.maxSelections": { one: "Selecciona como máximo {count} opción", other: "Selecciona como máximo {count} opciones" },
+  "validation.maxFiles": { one: "Adjunta como máximo {count} archivo", other: "Adjunta como máximo {count} archivos" },
+  "validation.fileType": "{name} no es un tipo de archivo aceptado",
+  "validation.fileSize": "{name} ocupa más de {size}",
+  "validation.minEntries": { one: "Añade al menos {count} entrada", other: "Añade al menos {count} entradas" },
+  "validation.maxEntries": { one: "Añade como máximo {count} entrada", other: "Añade como máximo {count} entradas" },
+
+  "form.language": "Idioma",
+  "form.next": "Siguiente",
+  "form.back": "Atrás",
+  "form.review": "Revisar",
+  "form.reviewTitle": "Revisa tus respuestas",
+  "form.stepOf": "Paso {current} de {total}",
+  "form.submit": "Enviar",
+  "form.submitting": "Enviando...",
+  "form.aiValidating": "Validando con IA...",
+  "form.uploading": "Subiendo... {percent}%",
+  "form.uploadProgress": "Progreso de la subida",
+  "form.previewTitle": "Vista previa",
+  "form.previewDescription": "Todos los campos son válidos. No se ha enviado nada.",
+  "form.invalidTitle": "Problemas de validación",
+  "form.invalidDescription": "Corrige los problemas de validación antes de enviar.",
+  "form.successTitle": "¡Enviado!",
+  "form.successDescription": "Hemos recibido tu envío.",
+  "form.failedTitle": "Error en el envío",
+  "form.failedDescription": "Algo salió mal al enviar el formulario.",
+  "form.aiTitle": "Validación con IA",
+  "form.aiAnalyzing": "Analizando...",
+  "form.aiConfidence": "{percent}% de confianza",
+  "form.errorSummary": { one: "Hay {count} problema en tus respuestas", other: "Hay {count} problemas en tus respuestas" },
+  "form.aiSuggestions": { one: "La validación con IA tiene {count} sugerencia", other: "La validación con IA tiene {count} sugerencias" },
+  "form.aiNoSuggestions": "La validación con IA no encontró nada que mejorar",
+  "form.schemaErrorTitle": "Este formulario no se puede mostrar",
+  "form.schemaErrorNamed": "«{title}»",
+  "form.schemaErrorUnnamed": "La definición del formulario",
+  "form.schemaErrorDescription": {
+    one: "{form} tiene {count} problema que debe corregirse primero.",
+    other: "{form} tiene {count} problemas que deben corregirse primero.",
+  },
+
+  "field.selectOption": "Selecciona una opción",
+  "field.selectOptions": "Selecciona opciones",
+  "field.searchOptions": "Buscar opciones...",
+  "field.noOptions": "No se encontraron opciones.",
+  "field.pickDate": "Elige una fecha",
+  "field.calculated": "(calculado)",
+  "field.yes": "Sí",
+  "field.no": "No",
+  "field.edit": "Editar",
+  "field.ratingStars": { one: "{count} estrella", other: "{count} estrellas" },
+
+  "file.drop": { one: "Arrastra un archivo aquí, o", other: "Arrastra archivos aquí, o" },
+  "file.browse": "Buscar archivos",
+  "file.accepted": "Se aceptan: {accept}",
+  "file.maxSize": "Hasta {size} cada uno",
+  "file.maxFiles": { one: "Como máximo {count} archivo", other: "Como máximo {count} archivos" },
+  "file.remove": "Quitar {name}",
+
+  "draft.resumeTitle": "¿Continuar con tu borrador?",
+  "draft.resumeDescription": "Tienes respuestas sin terminar del {date}.",
+  "draft.resume": "Continuar",
+  "draft.discard": "Empezar de nuevo",
+  "draft.saved": "Borrador guardado a las {time}",
+  "draft.clear": "Borrar borrador",
+
+  "spam.title": "Envío no realizado",
+  "spam.tooFast": "¡Qué rapidez! Revisa tus respuestas y vuelve a enviarlas en unos segundos.",
+  "spam.rateLimited": "Ya has enviado este formulario varias veces. Inténtalo de nuevo más tarde.",
+  "spam.honeypotLabel": "Deja este campo vacío",
+
+  "group.add": "Añadir {lowerLabel}",
+  "group.remove": "Quitar {label} {index}",
+};
+
+const fr: MessageCatalog = {
+  "validation.required": "{label} est obligatoire",
+  "validation.email": "Veuillez saisir une adresse e-mail valide",
+  "validation.number": "{label} doit être un nombre",
+  "validation.min": "{label} doit être au moins {min}",
+  "validation.max": "{label} ne doit pas dépasser {max}",
+  "validation.minLength": {
+    one: "{label} doit contenir au moins {count} caractère",
+    other: "{label} doit contenir au moins {count} caractères",
+  },
+  "validation.maxLength": {
+    one: "{label} ne doit pas dépasser {count} caractère",
+    other: "{label} ne doit pas dépasser {count} caractères",
+  },
+  "validation.pattern": "Le format de {lowerLabel} n'est pas valide",
+  "validation.minSelections": { one: "Sélectionnez au moins {count} option", other: "Sélectionnez au moins {count} options" },
+  "validation.maxSelections": { one: "Sélectionnez au plus {count} option", other: "Sélectionnez au plus {count} options" },
+  "validation.maxFiles": { one: "Joignez au plus {count} fichier", other: "Joignez au plus {count} fichiers" },
+  "validation.fileType": "{name} n'est pas un type de fichier accepté",
+  "validation.fileSize": "{name} dépasse {size}",
+  "validation.minEntries": { one: "Ajoutez au moins {count} entrée", other: "Ajoutez au moins {count} entrées" },
+  "validation.maxEntries": { one: "Ajoutez au plus {count} entrée", other: "Ajoutez au plus {count} entrées" },
+
+  "form.language": "Langue",
+  "form.next": "Suivant",
+  "form.back": "Retour",
+  "form.review": "Vérifier",
+  "form.reviewTitle": "Vérifiez vos réponses",
+  "form.stepOf": "Étape {current} sur {total}",
+  "form.submit": "Envoyer",
+  "form.submitting": "Envoi...",
+  "form.aiValidating": "Validation par IA...",
+  "form.uploading": "Téléversement... {percent} %",
+  "form.uploadProgress": "Progression du téléversement",
+  "form.previewTitle": "Aperçu",
+  "form.previewDescription": "Tous les champs sont valides. Rien n'a été envoyé.",
+  "form.invalidTitle": "Problèmes de validation",
+  "form.invalidDescription": "Veuillez corriger les problèmes de validation avant d'envoyer.",
+  "form.successTitle": "Envoyé !",
+  "form.successDescription": "Votre envoi a bien été reçu.",
+  "form.failedTitle": "Échec de l'envoi",
+  "form.failedDescription": "Une erreur s'est produite lors de l'envoi du formulaire.",
+  "form.aiTitle": "Validation par IA",
+  "form.aiAnalyzing": "Analyse...",
+  "form.aiConfidence": "Confiance : {percent} %",
+  "form.errorSummary": { one: "Il y a {count} problème dans vos réponses", other: "Il y a {count} problèmes dans vos réponses" },
+  "form.aiSuggestions": { one: "La validation par IA a {count} suggestion", other: "La validation par IA a {count} suggestions" },
+  "form.aiNoSuggestions": "La validation par IA n'a rien trouvé à améliorer",
+  "form.schemaErrorTitle": "Ce formulaire ne peut pas être affiché",
+  "form.schemaErrorNamed": "« {title} »",
+  "form.schemaErrorUnnamed": "La définition du formulaire",
+  "form.schemaErrorDescription": {
+    one: "{form} contient {count} problème à corriger d'abord.",
+    other: "{form} contient {count} problèmes à corriger d'abord.",
+  },
+
+  "field.selectOption": "Sélectionnez une option",
+  "field.selectOptions": "Sélectionnez des options",
+  "field.searchOptions": "Rechercher des options...",
+  "field.noOptions": "Aucune option trouvée.",
+  "field.pickDate": "Choisissez une date",
+  "field.calculated": "(calculé)",
+  "field.yes": "Oui",
+  "field.no": "Non",
+  "field.edit": "Modifier",
+  "field.ratingStars": { one: "{count} étoile", other: "{count} étoiles" },
+
+  "file.drop": { one: "Glissez un fichier ici, ou", other: "Glissez des fichiers ici, ou" },
+  "file.browse": "Parcourir",
+  "file.accepted": "Acceptés : {accept}",
+  "file.maxSize": "Jusqu'à {size} chacun",
+  "file.maxFiles": { one: "Au plus {count} fichier", other: "Au plus {count} fichiers" },
+  "file.remove": "Retirer {name}",
+
+  "draft.resumeTitle": "Reprendre votre brouillon ?",
+  "draft.resumeDescription": "Vous avez des réponses inachevées du {date}.",
+  "draft.resume": "Reprendre",
+  "draft.discard": "Recommencer",
+  "draft.saved": "Brouillon enregistré à {time}",
+  "draft.clear": "Effacer le brouillon",
+
+  "spam.title": "Envoi non effectué",
+  "spam.tooFast": "C'était rapide ! Vérifiez vos réponses et renvoyez-les dans quelques secondes.",
+  "spam.rateLimited": "Vous avez déjà envoyé ce formulaire plusieurs fois. Réessayez plus tard.",
+  "spam.honeypotLabel": "Laissez ce champ vide",
+
+  "group.add": "Ajouter {lowerLabel}",
+  "group.remove": "Retirer {label} {index}",
+};
+
+const de: MessageCatalog = {
+  "validation.required": "{label} ist erforderlich",
+  "validation.email": "Bitte gib eine gültige E-Mail-Adresse ein",
+  "validation.number": "{label} muss eine Zahl sein",
+  "validation.min": "{label} muss mindestens {min} sein",
+  "validation.max": "{label} darf höchstens {max} sein",
+  "validation.minLength": {
+    one: "{label} muss mindestens {count} Zeichen lang sein",
+    other: "{label} muss mindestens {count} Zeichen lang sein",
+  },
+  "validation.maxLength": {
+    one: "{label} darf höchstens {count} Zeichen lang sein",
+    other: "{label} darf höchstens {count} Zeichen lang sein",
+  },
+  "validation.pattern": "Ungültiges Format: {label}",
+  "validation.minSelections": { one: "Wähle mindestens {count} Option", other: "Wähle mindestens {count} Optionen" },
+  "validation.maxSelections": { one: "Wähle höchstens {count} Option", other: "Wähle höchstens {count} Optionen" },
+  "validation.maxFiles": { one: "Hänge höchstens {count} Datei an", other: "Hänge höchstens {count} Dateien an" },
+  "validation.fileType": "{name} ist kein erlaubter Dateityp",
+  "validation.fileSize": "{name} ist größer als {size}",
+  "validation.minEntries": { one: "Füge mindestens {count} Eintrag hinzu", other: "Füge mindestens {count} Einträge hinzu" },
+  "validation.maxEntries": { one: "Füge höchstens {count} Eintrag hinzu", other: "Füge höchstens {count} Einträge hinzu" },
+
+  "form.language": "Sprache",
+  "form.next": "Weiter",
+  "form.back": "Zurück",
+  "form.review": "Überprüfen",
+  "form.reviewTitle": "Überprüfe deine Angaben",
+  "form.stepOf": "Schritt {current} von {total}",
+  "form.submit": "Absenden",
+  "form.submitting": "Wird gesendet...",
+  "form.aiValidating": "KI-Prüfung läuft...",
+  "form.uploading": "Wird hochgeladen... {percent} %",
+  "form.uploadProgress": "Upload-Fortschritt",
+  "form.previewTitle": "Vorschau",
+  "form.previewDescription": "Alle Felder sind gültig. Es wurde nichts gesendet.",
+  "form.invalidTitle": "Validierungsprobleme",
+  "form.invalidDescription": "Bitte behebe die Validierungsprobleme vor dem Absenden.",
+  "form.successTitle": "Gesendet!",
+  "form.successDescription": "Deine Angaben sind bei uns eingegangen.",
+  "form.failedTitle": "Senden fehlgeschlagen",
+  "form.failedDescription": "Beim Senden des Formulars ist etwas schiefgelaufen.",
+  "form.aiTitle": "KI-Prüfung",
+  "form.aiAnalyzing": "Wird analysiert...",
+  "form.aiConfidence": "{percent} % Zuversicht",
+  "form.errorSummary": { one: "Deine Angaben enthalten {count} Problem", other: "Deine Angaben enthalten {count} Probleme" },
+  "form.aiSuggestions": { one: "Die KI-Prüfung hat {count} Vorschlag", other: "Die KI-Prüfung hat {count} Vorschläge" },
+  "form.aiNoSuggestions": "Die KI-Prüfung hat nichts zu verbessern gefunden",
+  "form.schemaErrorTitle": "Dieses Formular kann nicht angezeigt werden",
+  "form.schemaErrorNamed": "„{title}“",
+  "form.schemaErrorUnnamed": "Die Formulardefinition",
+  "form.schemaErrorDescription": {
+    one: "{form} enthält {count} Problem, das zuerst behoben werden muss.",
+    other: "{form} enthält {count} Probleme, die zuerst behoben werden müssen.",
+  },
+
+  "field.selectOption": "Option auswählen",
+  "field.selectOptions": "Optionen auswählen",
+  "field.searchOptions": "Optionen suchen...",
+  "field.noOptions": "Keine Optionen gefunden.",
+  "field.pickDate": "Datum auswählen",
+  "field.calculated": "(berechnet)",
+  "field.yes": "Ja",
+  "field.no": "Nein",
+  "field.edit": "Bearbeiten",
+  "field.ratingStars": { one: "{count} Stern", other: "{count} Sterne" },
+
+  "file.drop": { one: "Datei hierher ziehen oder", other: "Dateien hierher ziehen oder" },
+  "file.browse": "Dateien durchsuchen",
+  "file.accepted": "Erlaubt: {accept}",
+  "file.maxSize": "Bis zu {size} pro Datei",
+  "file.maxFiles": { one: "Höchstens {count} Datei", other: "Höchstens {count} Dateien" },
+  "file.remove": "{name} entfernen",
+
+  "draft.resumeTitle": "Entwurf fortsetzen?",
+  "draft.resumeDescription": "Du hast unvollständige Angaben vom {date}.",
+  "draft.resume": "Fortsetzen",
+  "draft.discard": "Neu beginnen",
+  "draft.saved": "Entwurf um {time} gespeichert",
+  "draft.clear": "Entwurf löschen",
+
+  "spam.title": "Nicht gesendet",
+  "spam.tooFast": "Das ging schnell! Bitte prüfe deine Antworten und sende sie in ein paar Sekunden erneut.",
+  "spam.rateLimited": "Du hast dieses Formular bereits mehrmals gesendet. Bitte versuche es später erneut.",
+  "spam.honeypotLabel": "Lass dieses Feld leer",
+
+  "group.add": "{label} hinzufügen",
+  "group.remove": "{label} {index} entfernen",
+};
+
+const ar: MessageCatalog = {
+  "validation.required": "{label} مطلوب",
+  "validation.email": "يرجى إدخال عنوان بريد إلكتروني صالح",
+  "validation.number": "يجب أن يكون {label} رقمًا",
+  "validation.min": "يجب ألا يقل {label} عن {min}",
+  "validation.max": "يجب ألا يزيد {label} عن {max}",
+  "validation.minLength": "يجب ألا يقل {label} عن {count} حرفًا",
+  "validation.maxLength": "يجب ألا يزيد {label} عن {count} حرفًا",
+  "validation.pattern": "تنسيق {label} غير صالح",
+  "validation.minSelections": "اختر {count} خيارات على الأقل",
+  "validation.maxSelections": "اختر {count} خيارات على الأكثر",
+  "validation.maxFiles": "أرفق {count} ملفات على الأكثر",
+  "validation.fileType": "نوع الملف {name} غير مقبول",
+  "validation.fileSize": "حجم {name} أكبر من {size}",
+  "validation.minEntries": "أضف {count} إدخالات على الأقل",
+  "validation.maxEntries": "أضف {count} إدخالات على الأكثر",
+
+  "form.language": "اللغة",
+  "form.next": "التالي",
+  "form.back": "السابق",
+  "form.review": "مراجعة",
+  "form.reviewTitle": "راجع إجاباتك",
+  "form.stepOf": "الخطوة {current} من {total}",
+  "form.submit": "إرسال",
+  "form.submitting": "جارٍ الإرسال...",
+  "form.aiValidating": "جارٍ التحقق بالذكاء الاصطناعي...",
+  "form.uploading": "جارٍ الرفع... {percent}%",
+  "form.uploadProgress": "تقدم الرفع",
+  "form.previewTitle": "معاينة",
+  "form.previewDescription": "جميع الحقول صالحة. لم يتم إرسال أي شيء.",
+  "form.invalidTitle": "مشكلات في التحقق",
+  "form.invalidDescription": "يرجى معالجة مشكلات التحقق قبل الإرسال.",
+  "form.successTitle": "تم الإرسال!",
+  "form.successDescription": "تم استلام إرسالك.",
+  "form.failedTitle": "فشل الإرسال",
+  "form.failedDescription": "حدث خطأ أثناء إرسال النموذج.",
+  "form.aiTitle": "التحقق بالذكاء الاصطناعي",
+  "form.aiAnalyzing": "جارٍ التحليل...",
+  "form.aiConfidence": "الثقة {percent}%",
+  "form.errorSummary": "عدد المشكلات في إجاباتك: {count}",
+  "form.aiSuggestions": "عدد اقتراحات التحقق بالذكاء الاصطناعي: {count}",
+  "form.aiNoSuggestions": "لم يجد التحقق بالذكاء الاصطناعي ما يحتاج إلى تحسين",
+  "form.schemaErrorTitle": "لا يمكن عرض هذا النموذج",
+  "form.schemaErrorNamed": "«{title}»",
+  "form.schemaErrorUnnamed": "تعريف النموذج",
+  "form.schemaErrorDescription": "عدد المشكلات التي يجب إصلاحها أولًا في {form}: {count}",
+
+  "field.selectOption": "اختر خيارًا",
+  "field.selectOptions": "اختر خيارات",
+  "field.searchOptions": "ابحث في الخيارات...",
+  "field.noOptions": "لم يتم العثور على خيارات.",
+  "field.pickDate": "اختر تاريخًا",
+  "field.calculated": "(محسوب)",
+  "field.yes": "نعم",
+  "field.no": "لا",
+  "field.edit": "تعديل",
+  "field.ratingStars": "{count} نجوم",
+
+  "file.drop": { one: "اسحب ملفًا إلى هنا، أو", other: "اسحب الملفات إلى هنا، أو" },
+  "file.browse": "تصفح الملفات",
+  "file.accepted": "المقبول: {accept}",
+  "file.maxSize": "حتى {size} لكل ملف",
+  "file.maxFiles": "{count} ملفات على الأكثر",
+  "file.remove": "إزالة {name}",
+
+  "draft.resumeTitle": "هل تريد متابعة مسودتك؟",
+  "draft.resumeDescription": "لديك إجابات غير مكتملة من {date}.",
+  "draft.resume": "متابعة",
+  "draft.discard": "البدء من جديد",
+  "draft.saved": "تم حفظ المسودة في {time}",
+  "draft.clear": "مسح المسودة",
+
+  "spam.title": "لم يتم الإرسال",
+  "spam.tooFast": "كان ذلك سريعًا! يرجى مراجعة إجاباتك وإعادة الإرسال بعد بضع ثوانٍ.",
+  "spam.rateLimited": "لقد أرسلت هذا النموذج عدة مرات بالفعل. يرجى المحاولة لاحقًا.",
+  "spam.honeypotLabel": "اترك هذا الحقل فارغًا",
+
+  "group.add": "إضافة {label}",
+  "group.remove": "إزالة {label} {index}",
+};
+
+// English is complete; other catalogs fall back to it for any message they leave out
+export const MESSAGE_CATALOGS: Record<string, MessageCatalog> = { en, es, fr, de, ar };
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { FormField, FormSchema } from "@/types/form";
+import { builtInFormSchemas } from "@/data/formSchemas";
+import { formSchemaToJsonSchema, isFormUiHints, jsonSchemaToFormSchema } from "@/lib/jsonSchema";
+
+const eventSchema: FormSchema = {
+  id: "event signup/2026",
+  schemaVersion: 1,
+  title: "Event signup",
+  description: "Reserve your seats",
+  fields: [
+    { id: "email", type: "email", label: "Email", required: true, sensitive: true },
+    { id: "seats", type: "number", label: "Seats", required: true, validation: { min: 1, max: 4 } },
+    { id: "price", type: "number", label: "Price", compute: "seats * 25" },
+    { id: "diet", type: "radio", label: "Diet", options: [{ value: "veg", label: "Vegetarian" }, { value: "any", label: "Anything" }] },
+    { id: "notes", type: "textarea", label: "Notes", requiredWhen: { field: "diet", operator: "equals", value: "veg" } },
+    { id: "ticket", type: "file", label: "Ticket", accept: "application/pdf", validation: { maxFiles: 1, maxFileSize: 1024 } },
+    {
+      id: "guests",
+      type: "group",
+      label: "Guests",
+      repeatable: { min: 0, max: 3 },
+      visibleWhen: { field: "seats", operator: "gt", value: 1 },
+      fields: [
+        { id: "name", type: "text", label: "Name", required: true },
+        { id: "age", type: "number", label: "Age" },
+      ],
+    },
+  ],
+  submitLabel: "Reserve",
+  submission: { transport: "http", endpoint: "/signups", encoding: "multipart", payloadMapping: { email: "contact" } },
+  defaultLocale: "en",
+  translations: { es: { title: "Inscripción", fields: { email: { label: "Correo" } } } },
+  drafts: { enabled: false },
+  spamProtection: { honeypot: true, proofOfWorkBits: 12 },
+};
+
+// `required: false` and a missing `required` mean the same, and export does not keep revisions
+const normalizeFields = (fields: FormField[]): FormField[] =>
+  fields.map(({ required, fields: subFields, ...field }) => ({
+    ...field,
+    ...(required && { required }),
+    ...(subFields && { fields: normalizeFields(subFields) }),
+  }));
+
+const normalize = ({ revision: _revision, ...schema }: FormSchema) => ({ ...schema, fields: normalizeFields(schema.fields) });
+
+// Written to files and read back, so only what survives JSON counts
+const roundTrip = (schema: FormSchema) => {
+  const { jsonSchema, uiHints } = JSON.parse(JSON.stringify(formSchemaToJsonSchema(schema)));
+  return jsonSchemaToFormSchema(jsonSchema, uiHints);
+};
+
+describe("JSON Schema export and import", () => {
+  it.each([...builtInFormSchemas, eventSchema].map((schema) => [schema.id, schema] as const))(
+    "gives %s back unchanged",
+    (_, schema) => {
+      const { schema: imported, issues } = roundTrip(schema);
+
+      expect(issues).toEqual([]);
+      expect(normalize(imported!)).toEqual(normalize(schema));
+    }
+  );
+
+  it("keeps the form settings that only the UI hints file carries", () => {
+    const { uiHints } = formSchemaToJsonSchema(eventSchema);
+
+    expect(isFormUiHints(uiHints)).toBe(true);
+    expect(roundTrip(eventSchema).schema).toMatchObject({
+      drafts: { enabled: false },
+      spamProtection: { honeypot: true, proofOfWorkBits: 12 },
+      submission: eventSchema.submission,
+      translations: eventSchema.translations,
+    });
+  });
+
+  it("imports the schema alone, without the UI hints file", () => {
+    const { jsonSchema } = formSchemaToJsonSchema(eventSchema);
+    const { schema } = jsonSchemaToFormSchema(jsonSchema);
+
+    expect(schema?.id).toBe(eventSchema.id);
+    expect(schema?.fields.map((field) => field.id).sort()).toEqual(eventSchema.fields.map((field) => field.id).sort());
+  });
+
+  it("reports an $id that is not valid percent-encoding and keeps it as it is", () => {
+    const { schema, issues } = jsonSchemaToFormSchema({
+      $id: "urn:form:%zz",
+      type: "object",
+      properties: { name: { type: "string" } },
+    });
+
+    expect(schema?.id).toBe("%zz");
+    expect(issues).toEqual([expect.objectContaining({ path: "/$id" })]);
+  });
+});
@@ -0,0 +1,499 @@
+import {
+  DraftConfig,
+  FieldExpressionRule,
+  FieldRule,
+  FormField,
+  FormSchema,
+  FormStep,
+  FormTranslation,
+  SpamProtectionConfig,
+  SubmissionConfig,
+} from "@/types/form";
+import { CURRENT_SCHEMA_VERSION } from "@/lib/schemaMigrations";
+import { getCustomFieldType } from "@/lib/fieldTypes";
+
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+// The subset of JSON Schema keywords we read or write
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  uniqueItems?: boolean;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  contentEncoding?: string;
+  contentMediaType?: string;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+export interface FieldUiHints {
+  label?: string;
+  placeholder?: string;
+  icon?: string;
+  // Distinguishes field types that share a JSON type, e.g. textarea vs text, and names registered types
+  widget?: FormField["type"];
+  // Settings of a registered type
+  settings?: Record<string, unknown>;
+  // Requiredness for fields that can be hidden, which JSON Schema's `required` cannot express
+  required?: boolean;
+  visibleWhen?: FieldRule;
+  requiredWhen?: FieldRule;
+  // File constraints; JSON Schema only describes the encoded content
+  accept?: string;
+  maxFileSize?: number;
+  // Expressions, which JSON Schema cannot evaluate
+  compute?: string;
+  defaultValue?: string;
+  validate?: FieldExpressionRule[];
+  sensitive?: boolean;
+  // Group sub-fields, keyed and ordered like the form's own fields
+  order?: string[];
+  fields?: Record<string, FieldUiHints>;
+}
+
+// Everything about a form that JSON Schema has no keyword for, kept next to the schema file
+export interface FormUiHints {
+  formUiHintsVersion: 1;
+  // Property order; JSON objects are unordered as far as other tools are concerned
+  order: string[];
+  submitLabel?: string;
+  steps?: FormStep[];
+  submission?: SubmissionConfig;
+  defaultLocale?: string;
+  translations?: Record<string, FormTranslation>;
+  drafts?: DraftConfig;
+  spamProtection?: SpamProtectionConfig;
+  fields: Record<string, FieldUiHints>;
+}
+
+export interface JsonSchemaImportIssue {
+  // JSON Pointer-style location of the construct, e.g. "/properties/age/multipleOf"
+  path: string;
+  message: string;
+}
+
+export interface JsonSchemaImportResult {
+  schema: FormSchema | null;
+  issues: JsonSchemaImportIssue[];
+}
+
+const toChoices = (field: FormField): JsonSchema[] =>
+  (field.options ?? []).map((option) => ({ const: option.value, title: option.label }));
+
+// contentMediaType takes a single type, so lists and extensions stay in the UI hints only
+const isMediaType = (accept?: string) => !!accept && /^[\w.+-]+\/[\w.+-]+$/.test(accept.trim());
+
+const toFieldSchema = (field: FormField): JsonSchema => {
+  // Computed values are produced by the form, not typed in
+  const base: JsonSchema = { title: field.label, readOnly: field.compute ? true : undefined };
+  const validation = field.validation ?? {};
+  // Registered types validate in code, so the value is left unconstrained
+  if (getCustomFieldType(field.type)) return base;
+
+  switch (field.type) {
+    case "email":
+      return { ...base, type: "string", format: "email" };
+    case "number":
+      return { ...base, type: "number", minimum: validation.min, maximum: validation.max };
+    case "date":
+      return { ...base, type: "string", format: "date" };
+    case "checkbox":
+      return { ...base, type: "boolean" };
+    case "select":
+    case "radio":
+      return { ...base, type: "string", oneOf: toChoices(field) };
+    case "multiselect":
+    case "checkboxGroup":
+      return {
+        ...base,
+        type: "array",
+        items: { type: "string", oneOf: toChoices(field) },
+        uniqueItems: true,
+        minItems: validation.minSelections,
+        maxItems: validation.maxSelections,
+      };
+    case "group": {
+      const { properties, required } = toPropertiesSchema(field.fields ?? []);
+      // A group that is not repeatable always has exactly one entry
+      const { min, max } = field.repeatable ?? { min: 1, max: 1 };
+      return {
+        ...base,
+        type: "array",
+        items: withoutUndefined({ type: "object", properties, required, additionalProperties: false }),
+        minItems: min,
+        maxItems: max,
+      };
+    }
+    case "file":
+      // Files travel as base64 strings when a form is submitted as JSON
+      return {
+        ...base,
+        type: "array",
+        items: {
+          type: "string",
+          contentEncoding: "base64",
+          contentMediaType: isMediaType(field.accept) ? field.accept : undefined,
+        },
+        maxItems: validation.maxFiles,
+      };
+    default:
+      return {
+        ...base,
+        type: "string",
+        minLength: validation.minLength,
+        maxLength: validation.maxLength,
+        pattern: validation.pattern,
+      };
+  }
+};
+
+// JSON.stringify drops undefined keys, but callers may inspect the object directly
+const withoutUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+
+const toPropertiesSchema = (fields: FormField[]) => {
+  const properties: Record<string, JsonSchema> = {};
+  const hints: Record<string, FieldUiHints> = {};
+  const required: string[] = [];
+
+  fields.forEach((field) => {
+    const validation = field.validation ?? {};
+    properties[field.id] = withoutUndefined(toFieldSchema(field));
+    // A conditionally shown field cannot be unconditionally required in JSON Schema
+    const canBeHidden = !!field.visibleWhen;
+    if (field.required && !canBeHidden) {
+      required.push(field.id);
+    }
+
+    const groupHints = field.type === "group" ? toPropertiesSchema(field.fields ?? []).hints : undefined;
+    hints[field.id] = withoutUndefined({
+      label: field.label,
+      placeholder: field.placeholder,
+      icon: field.icon,
+      // Other types are implied by the JSON Schema itself
+      widget:
+        ["textarea", "radio", "checkboxGroup"].includes(field.type) || getCustomFieldType(field.type) ? field.type : undefined,
+      required: field.required && canBeHidden ? true : undefined,
+      visibleWhen: field.visibleWhen,
+      requiredWhen: field.requiredWhen,
+      accept: field.type === "file" ? field.accept : undefined,
+      maxFileSize: field.type === "file" ? validation.maxFileSize : undefined,
+      compute: field.compute,
+      defaultValue: field.defaultValue,
+      validate: field.validate,
+      sensitive: field.sensitive,
+      settings: field.settings,
+      order: groupHints && field.fields?.map((subField) => subField.id),
+      fields: groupHints,
+    });
+  });
+
+  return { properties, hints, required: required.length > 0 ? required : undefined };
+};
+
+export const formSchemaToJsonSchema = (schema: FormSchema): { jsonSchema: JsonSchema; uiHints: FormUiHints } => {
+  const { properties, hints, required } = toPropertiesSchema(schema.fields);
+
+  return {
+    jsonSchema: withoutUndefined({
+      $schema: JSON_SCHEMA_DIALECT,
+      $id: `urn:form:${encodeURIComponent(schema.id)}`,
+      title: schema.title,
+      description: schema.description || undefined,
+      type: "object",
+      properties,
+      required,
+      additionalProperties: false,
+    }),
+    uiHints: withoutUndefined({
+      formUiHintsVersion: 1 as const,
+      order: schema.fields.map((field) => field.id),
+      submitLabel: schema.submitLabel,
+      steps: schema.steps,
+      submission: schema.submission,
+      defaultLocale: schema.defaultLocale,
+      translations: schema.translations,
+      drafts: schema.drafts,
+      spamProtection: schema.spamProtection,
+      fields: hints,
+    }),
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isFormUiHints = (value: unknown): value is FormUiHints =>
+  isObject(value) && value.formUiHintsVersion === 1 && isObject(value.fields);
+
+// Keywords that only annotate a schema and can be dropped without changing what it accepts
+const ANNOTATIONS = new Set(["title", "description", "$comment", "examples", "default", "readOnly", "writeOnly", "deprecated"]);
+
+const KEYWORDS_BY_TYPE: Record<string, string[]> = {
+  string: ["type", "minLength", "maxLength", "pattern", "format", "enum", "oneOf", "anyOf"],
+  number: ["type", "minimum", "maximum"],
+  integer: ["type", "minimum", "maximum"],
+  boolean: ["type"],
+  array: ["type", "items", "uniqueItems", "minItems", "maxItems"],
+};
+
+const readOptions = (property: JsonSchema): { value: string; label: string }[] | null => {
+  if (Array.isArray(property.enum)) {
+    return property.enum.map((value) => ({ value: String(value), label: String(value) }));
+  }
+  const choices = property.oneOf ?? property.anyOf;
+  if (Array.isArray(choices) && choices.every((choice) => isObject(choice) && "const" in choice)) {
+    return choices.map((choice) => ({
+      value: String(choice.const),
+      label: typeof choice.title === "string" ? choice.title : String(choice.const),
+    }));
+  }
+  return null;
+};
+
+type ReportIssue = (path: string, message: string) => void;
+
+const toFormField = (
+  id: string,
+  property: JsonSchema,
+  hints: FieldUiHints,
+  required: boolean,
+  basePath: string,
+  report: ReportIssue
+): FormField | null => {
+  const path = `${basePath}/properties/${id}`;
+  const field: FormField = {
+    id,
+    type: "text",
+    label: hints.label ?? property.title ?? id,
+    placeholder: hints.placeholder,
+    required: required || undefined,
+    icon: hints.icon,
+    visibleWhen: hints.visibleWhen,
+    requiredWhen: hints.requiredWhen,
+    compute: hints.compute,
+    defaultValue: hints.defaultValue,
+    validate: hints.validate,
+    sensitive: hints.sensitive,
+  };
+
+  // Registered types are named by the widget hint, since they have no JSON type of their own
+  if (hints.widget && getCustomFieldType(hints.widget)) {
+    return withoutUndefined({ ...field, type: hints.widget, settings: hints.settings });
+  }
+
+  const type = Array.isArray(property.type) ? property.type.filter((entry) => entry !== "null") : [property.type];
+
+  if (type.length !== 1 || typeof type[0] !== "string") {
+    report(`${path}/type`, `"${id}" must have exactly one type (null aside); the field was skipped.`);
+    return null;
+  }
+  const [jsonType] = type as string[];
+  const allowed = KEYWORDS_BY_TYPE[jsonType];
+  if (!allowed) {
+    report(`${path}/type`, `"${id}" has type "${jsonType}", which forms cannot collect; the field was skipped.`);
+    return null;
+  }
+
+  Object.keys(property).forEach((keyword) => {
+    if (!allowed.includes(keyword) && !ANNOTATIONS.has(keyword)) {
+      report(`${path}/${keyword}`, `"${keyword}" is not supported on ${jsonType} fields and was ignored.`);
+    }
+  });
+
+  if (jsonType === "boolean") {
+    return withoutUndefined({ ...field, type: "checkbox" });
+  }
+
+  if (jsonType === "array" && isObject(property.items) && property.items.contentEncoding !== undefined) {
+    const items = property.items as JsonSchema;
+    const limits = withoutUndefined({ maxFiles: property.maxItems, maxFileSize: hints.maxFileSize });
+    return withoutUndefined({
+      ...field,
+      type: "file",
+      accept: hints.accept ?? items.contentMediaType,
+      validation: Object.keys(limits).length > 0 ? limits : undefined,
+    });
+  }
+
+  if (jsonType === "array" && isObject(property.items) && property.items.type === "object") {
+    const items = property.items as JsonSchema;
+    const fields = readFields(items, hints.fields ?? {}, hints.order, `${path}/items`, report);
+    if (fields.length === 0) {
+      report(`${path}/items`, `None of the properties of "${id}" could be turned into fields; the group was skipped.`);
+      return null;
+    }
+    const single = property.minItems === 1 && property.maxItems === 1;
+    return withoutUndefined({
+      ...field,
+      type: "group",
+      fields,
+      repeatable: single ? undefined : withoutUndefined({ min: property.minItems, max: property.maxItems }),
+    });
+  }
+
+  if (jsonType === "array") {
+    const options = isObject(property.items) ? readOptions(property.items) : null;
+    if (!options) {
+      report(`${path}/items`, `"${id}" is an array of free values; only arrays of fixed choices can be imported. The field was skipped.`);
+      return null;
+    }
+    const selections = withoutUndefined({ minSelections: property.minItems, maxSelections: property.maxItems });
+    return withoutUndefined({
+      ...field,
+      type: hints.widget === "checkboxGroup" ? "checkboxGroup" : "multiselect",
+      options,
+      validation: Object.keys(selections).length > 0 ? selections : undefined,
+    });
+  }
+
+  if (jsonType === "number" || jsonType === "integer") {
+    if (jsonType === "integer") {
+      report(`${path}/type`, `"${id}" is an integer; it was imported as a number field, which also accepts decimals.`);
+    }
+    const limits = withoutUndefined({ min: property.minimum, max: property.maximum });
+    return withoutUndefined({
+      ...field,
+      type: "number",
+      validation: Object.keys(limits).length > 0 ? limits : undefined,
+    });
+  }
+
+  const options = readOptions(property);
+  if (options) {
+    return withoutUndefined({ ...field, type: hints.widget === "radio" ? "radio" : "select", options });
+  }
+  if (property.enum === undefined && (property.oneOf || property.anyOf)) {
+    report(`${path}/oneOf`, `"${id}" combines subschemas other than labelled constants; they were ignored.`);
+  }
+
+  if (property.format === "email") {
+    return withoutUndefined({ ...field, type: "email" });
+  }
+  if (property.format === "date") {
+    return withoutUndefined({ ...field, type: "date" });
+  }
+  if (property.format !== undefined) {
+    report(`${path}/format`, `Format "${property.format}" is not supported; "${id}" was imported as plain text.`);
+  }
+
+  const stringType = hints.widget === "textarea" ? "textarea" : "text";
+  const validation = withoutUndefined({
+    minLength: property.minLength,
+    maxLength: property.maxLength,
+    pattern: property.pattern,
+  });
+  return withoutUndefined({
+    ...field,
+    type: stringType,
+    validation: Object.keys(validation).length > 0 ? validation : undefined,
+  });
+};
+
+// Fields listed in the hints come first, in that order; any others follow in document order
+const readFields = (
+  object: JsonSchema,
+  hints: Record<string, FieldUiHints>,
+  order: string[] | undefined,
+  basePath: string,
+  report: ReportIssue
+): FormField[] => {
+  if (!isObject(object.properties)) return [];
+  const properties = object.properties;
+  const required = new Set(Array.isArray(object.required) ? object.required : []);
+  const propertyIds = Object.keys(properties);
+
+  return [...(order ?? []).filter((id) => propertyIds.includes(id)), ...propertyIds.filter((id) => !order?.includes(id))]
+    .map((id) => {
+      const property = properties[id];
+      if (!isObject(property)) {
+        report(`${basePath}/properties/${id}`, `"${id}" is not a schema object; the field was skipped.`);
+        return null;
+      }
+      if ("$ref" in property) {
+        report(`${basePath}/properties/${id}/$ref`, `"${id}" uses $ref, which is not supported; the field was skipped.`);
+        return null;
+      }
+      const fieldHints = hints[id] ?? {};
+      return toFormField(id, property, fieldHints, required.has(id) || !!fieldHints.required, basePath, report);
+    })
+    .filter((field): field is FormField => !!field);
+};
+
+// Ids are percent-encoded on export; ids that do not decode are kept as they are
+const readFormId = ($id: string, report: (path: string, message: string) => void) => {
+  const encoded = $id.replace(/^urn:form:/, "");
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    report("/$id", `"${$id}" is not a valid form id URN; it was used as is.`);
+    return encoded;
+  }
+};
+
+// Reads a JSON Schema object (plus optional UI hints) into a form. Constructs that have no
+// FormSchema equivalent are skipped or dropped and listed in `issues`.
+export const jsonSchemaToFormSchema = (input: unknown, uiHints?: FormUiHints): JsonSchemaImportResult => {
+  const issues: JsonSchemaImportIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isObject(input) || !isObject(input.properties)) {
+    report("", "Only object schemas with `properties` can be imported as a form.");
+    return { schema: null, issues };
+  }
+
+  const root = input as JsonSchema;
+  if (root.type !== undefined && root.type !== "object") {
+    report("/type", `The root schema must have type "object", not "${String(root.type)}".`);
+    return { schema: null, issues };
+  }
+  if (root.$schema !== undefined && root.$schema !== JSON_SCHEMA_DIALECT) {
+    report("/$schema", `The schema declares "${root.$schema}"; it was read as draft 2020-12.`);
+  }
+  ["allOf", "anyOf", "oneOf", "not", "if", "then", "else", "dependentRequired", "dependentSchemas", "patternProperties", "$ref", "$defs"]
+    .filter((keyword) => keyword in root)
+    .forEach((keyword) => report(`/${keyword}`, `"${keyword}" on the form itself is not supported and was ignored.`));
+
+  const fields = readFields(root, uiHints?.fields ?? {}, uiHints?.order, "", report);
+
+  if (fields.length === 0) {
+    report("/properties", "None of the properties could be turned into form fields.");
+    return { schema: null, issues };
+  }
+
+  const id = typeof root.$id === "string" ? readFormId(root.$id, report) : "";
+  return {
+    schema: withoutUndefined({
+      id: id || `imported_form_${Date.now()}`,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      title: typeof root.title === "string" ? root.title : "Imported Form",
+      description: typeof root.description === "string" ? root.description : undefined,
+      fields,
+      submitLabel: uiHints?.submitLabel,
+      steps: uiHints?.steps,
+      submission: uiHints?.submission,
+      defaultLocale: uiHints?.defaultLocale,
+      translations: uiHints?.translations,
+      drafts: uiHints?.drafts,
+      spamProtection: uiHints?.spamProtection,
+    }),
+    issues,
+  };
+};
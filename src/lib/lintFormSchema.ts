@@ -0,0 +1,422 @@
+import { BuiltInFieldType, FieldTranslation, FormField, FormSchema } from "@/types/form";
+import { isChoiceField } from "@/lib/fieldOptions";
+import { COMPUTABLE_FIELD_TYPES } from "@/lib/fieldExpressions";
+import { isBuiltInFieldType, isKnownFieldType } from "@/lib/fieldTypes";
+import { getExpressionIdentifiers } from "@/lib/expressions";
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+import { getHoneypotField } from "@/lib/spamProtection";
+import { getRuleFields, getVisibilityCycles } from "@/lib/formRules";
+
+export type FormSchemaDiagnosticSeverity = "error" | "warning";
+
+export interface FormSchemaDiagnostic {
+  severity: FormSchemaDiagnosticSeverity;
+  // Stable identifier for the kind of problem, e.g. "duplicate-field-id"
+  code: string;
+  message: string;
+  fieldId?: string;
+  // Where in the document the problem is, e.g. "fields.2.validation.pattern"
+  path: string;
+}
+
+type ValidationKey = keyof NonNullable<FormField["validation"]>;
+
+// Validation keys createValidationSchema actually applies for each field type
+const APPLICABLE_VALIDATION: Record<BuiltInFieldType, ValidationKey[]> = {
+  text: ["minLength", "maxLength", "pattern"],
+  textarea: ["minLength", "maxLength", "pattern"],
+  email: [],
+  select: [],
+  radio: [],
+  multiselect: ["minSelections", "maxSelections"],
+  checkboxGroup: ["minSelections", "maxSelections"],
+  checkbox: [],
+  number: ["min", "max"],
+  date: [],
+  file: ["maxFileSize", "maxFiles"],
+  group: [],
+};
+
+const lintField = (field: FormField, path: string, index: number, fieldIds: Set<string>): FormSchemaDiagnostic[] => {
+  const diagnostics: FormSchemaDiagnostic[] = [];
+  const name = field.label || field.id || `Field ${index + 1}`;
+  const report = (severity: FormSchemaDiagnosticSeverity, code: string, message: string, subPath?: string) =>
+    diagnostics.push({ severity, code, message, fieldId: field.id, path: subPath ? `${path}.${subPath}` : path });
+
+  if (!field.id?.trim()) {
+    report("error", "missing-field-id", `${name} has no id.`, "id");
+  }
+  if (!field.label?.trim()) {
+    report("warning", "missing-field-label", `Field "${field.id}" has no label.`, "label");
+  }
+  if (!isKnownFieldType(field.type)) {
+    report("error", "unknown-field-type", `${name} has the type "${field.type}", which is neither built in nor registered.`, "type");
+  }
+
+  if (isChoiceField(field)) {
+    const options = field.options ?? [];
+    if (options.length === 0) {
+      report("error", "choice-without-options", `${name} is a ${field.type} field but has no options.`, "options");
+    }
+    const seen = new Set<string>();
+    options.forEach((option, optionIndex) => {
+      if (!option.value) {
+        report("error", "empty-option-value", `${name} has an option without a value.`, `options.${optionIndex}.value`);
+      } else if (seen.has(option.value)) {
+        report("error", "duplicate-option-value", `${name} has more than one option with the value "${option.value}".`, `options.${optionIndex}.value`);
+      }
+      seen.add(option.value);
+    });
+  } else if (field.options?.length) {
+    report("warning", "unused-options", `${name} has options, but only choice fields use them.`, "options");
+  }
+
+  const validation = field.validation ?? {};
+  // Registered types may read any of the validation settings
+  const applicable = isBuiltInFieldType(field.type) ? APPLICABLE_VALIDATION[field.type] : undefined;
+  (Object.keys(validation) as ValidationKey[]).forEach((key) => {
+    if (validation[key] !== undefined && applicable && !applicable.includes(key)) {
+      report("warning", "inapplicable-validation", `${name}: "${key}" does not apply to ${field.type} fields.`, `validation.${key}`);
+    }
+  });
+
+  if (validation.min !== undefined && validation.max !== undefined && validation.min > validation.max) {
+    report("error", "invalid-range", `${name}: min (${validation.min}) is greater than max (${validation.max}).`, "validation.min");
+  }
+  if (
+    validation.minLength !== undefined &&
+    validation.maxLength !== undefined &&
+    validation.minLength > validation.maxLength
+  ) {
+    report(
+      "error",
+      "invalid-length-range",
+      `${name}: minLength (${validation.minLength}) is greater than maxLength (${validation.maxLength}).`,
+      "validation.minLength"
+    );
+  }
+  if (
+    validation.minSelections !== undefined &&
+    validation.maxSelections !== undefined &&
+    validation.minSelections > validation.maxSelections
+  ) {
+    report(
+      "error",
+      "invalid-selection-range",
+      `${name}: minSelections (${validation.minSelections}) is greater than maxSelections (${validation.maxSelections}).`,
+      "validation.minSelections"
+    );
+  }
+  if (validation.minSelections !== undefined && validation.minSelections > (field.options?.length ?? 0)) {
+    report(
+      "error",
+      "unsatisfiable-selections",
+      `${name}: minSelections (${validation.minSelections}) is more than the number of options.`,
+      "validation.minSelections"
+    );
+  }
+  if (validation.maxFiles !== undefined && validation.maxFiles < 1) {
+    report("error", "invalid-max-files", `${name}: maxFiles must allow at least one file.`, "validation.maxFiles");
+  }
+  if (validation.maxFileSize !== undefined && !(validation.maxFileSize > 0)) {
+    report("error", "invalid-max-file-size", `${name}: maxFileSize must be a positive number of bytes.`, "validation.maxFileSize");
+  }
+  if (field.accept !== undefined && field.type !== "file") {
+    report("warning", "unused-accept", `${name} has an accept list, but only file fields use it.`, "accept");
+  }
+  if (field.settings !== undefined && isBuiltInFieldType(field.type)) {
+    report("warning", "unused-settings", `${name} has settings, but only registered field types use them.`, "settings");
+  }
+  (["minLength", "maxLength", "minSelections", "maxSelections", "maxFiles"] as const).forEach((key) => {
+    const value = validation[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      report("error", "invalid-length", `${name}: ${key} must be a whole number of at least 0.`, `validation.${key}`);
+    }
+  });
+  if (validation.pattern !== undefined) {
+    try {
+      new RegExp(validation.pattern);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "invalid regular expression";
+      report("error", "invalid-pattern", `${name}: the pattern is not a valid regular expression (${reason}).`, "validation.pattern");
+    }
+  }
+
+  if (field.type === "group") {
+    const { min, max } = field.repeatable ?? {};
+    if (!field.fields?.length) {
+      report("error", "group-without-fields", `${name} is a group but has no fields.`, "fields");
+    }
+    (["min", "max"] as const).forEach((key) => {
+      const value = field.repeatable?.[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        report("error", "invalid-repeat-count", `${name}: repeatable.${key} must be a whole number of at least 0.`, `repeatable.${key}`);
+      }
+    });
+    if (min !== undefined && max !== undefined && min > max) {
+      report("error", "invalid-repeat-range", `${name}: repeatable.min (${min}) is greater than repeatable.max (${max}).`, "repeatable.min");
+    }
+    if (max === 0) {
+      report("error", "invalid-repeat-range", `${name}: repeatable.max must allow at least one entry.`, "repeatable.max");
+    }
+    field.fields?.forEach((subField, subIndex) => {
+      if (subField.type === "group") {
+        report("error", "nested-group", `${name}: groups cannot contain other groups.`, `fields.${subIndex}.type`);
+      }
+    });
+    diagnostics.push(...lintFieldList(field.fields ?? [], `${path}.fields`));
+  } else {
+    if (field.fields !== undefined) {
+      report("warning", "unused-group-fields", `${name} has sub-fields, but only group fields use them.`, "fields");
+    }
+    if (field.repeatable !== undefined) {
+      report("warning", "unused-repeatable", `${name} is repeatable, but only group fields can repeat.`, "repeatable");
+    }
+  }
+
+  const expressions: { source: string; subPath: string }[] = [
+    ...(field.compute !== undefined ? [{ source: field.compute, subPath: "compute" }] : []),
+    ...(field.defaultValue !== undefined ? [{ source: field.defaultValue, subPath: "defaultValue" }] : []),
+    ...(field.validate ?? []).map((rule, ruleIndex) => ({ source: rule.expression, subPath: `validate.${ruleIndex}.expression` })),
+  ];
+  expressions.forEach(({ source, subPath }) => {
+    let identifiers: string[];
+    try {
+      identifiers = getExpressionIdentifiers(source);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "invalid expression";
+      report("error", "invalid-expression", `${name}: the expression "${source}" cannot be read (${reason}).`, subPath);
+      return;
+    }
+    identifiers
+      .filter((identifier) => !fieldIds.has(identifier))
+      .forEach((identifier) =>
+        report("error", "unknown-expression-field", `${name}: ${subPath} refers to a field "${identifier}" that does not exist.`, subPath)
+      );
+    if (subPath === "compute" && identifiers.includes(field.id)) {
+      report("error", "self-referencing-compute", `${name} is computed from its own value.`, subPath);
+    }
+  });
+  if (field.compute !== undefined && !COMPUTABLE_FIELD_TYPES.includes(field.type)) {
+    report("error", "unsupported-compute", `${name}: ${field.type} fields cannot be computed.`, "compute");
+  }
+  if (field.compute !== undefined && field.defaultValue !== undefined) {
+    report("warning", "unused-default", `${name} is computed, so its default value is never shown.`, "defaultValue");
+  }
+  if (field.sensitive && (field.type === "file" || field.compute !== undefined)) {
+    const kind = field.type === "file" ? "files" : "computed values";
+    report("warning", "unused-sensitive", `${name} is marked sensitive, but ${kind} are never saved in drafts anyway.`, "sensitive");
+  }
+  (field.validate ?? []).forEach((rule, ruleIndex) => {
+    if (!rule.message?.trim()) {
+      report("warning", "missing-rule-message", `${name}: validation rule ${ruleIndex + 1} has no message.`, `validate.${ruleIndex}.message`);
+    }
+  });
+
+  (["visibleWhen", "requiredWhen"] as const).forEach((key) => {
+    const rule = field[key];
+    if (!rule) return;
+    getRuleFields(rule).forEach((referenced) => {
+      if (referenced === field.id) {
+        report("warning", "self-referencing-rule", `${name}: ${key} depends on the field itself.`, key);
+      } else if (!fieldIds.has(referenced)) {
+        report("error", "unknown-rule-field", `${name}: ${key} refers to a field "${referenced}" that does not exist.`, key);
+      }
+    });
+  });
+
+  return diagnostics;
+};
+
+// Rules inside a group refer to fields of the same group, so ids are checked per list
+const lintFieldList = (fields: FormField[], basePath: string): FormSchemaDiagnostic[] => {
+  const diagnostics: FormSchemaDiagnostic[] = [];
+  const fieldIds = new Set(fields.map((field) => field.id));
+  const seenIds = new Set<string>();
+
+  fields.forEach((field, index) => {
+    if (field.id && seenIds.has(field.id)) {
+      diagnostics.push({
+        severity: "error",
+        code: "duplicate-field-id",
+        message: `More than one field uses the id "${field.id}".`,
+        fieldId: field.id,
+        path: `${basePath}.${index}.id`,
+      });
+    }
+    seenIds.add(field.id);
+    diagnostics.push(...lintField(field, `${basePath}.${index}`, index, fieldIds));
+  });
+
+  getVisibilityCycles(fields).forEach((cycle) => {
+    const names = cycle.map((field) => `"${field.label || field.id}"`).join(", ");
+    diagnostics.push({
+      severity: "warning",
+      code: "cyclic-visibility-rule",
+      message: `${names} show or hide each other, so their visibleWhen rules read each other's answers even while hidden.`,
+      fieldId: cycle[0].id,
+      path: `${basePath}.${fields.indexOf(cycle[0])}.visibleWhen`,
+    });
+  });
+
+  return diagnostics;
+};
+
+const isValidLocale = (locale: string) => {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+// Translations keyed by something the schema no longer has are never shown
+const lintFieldTranslations = (
+  fields: FormField[],
+  translations: Record<string, FieldTranslation>,
+  basePath: string
+): FormSchemaDiagnostic[] => {
+  const diagnostics: FormSchemaDiagnostic[] = [];
+  const warn = (code: string, message: string, path: string, fieldId?: string) =>
+    diagnostics.push({ severity: "warning", code, message, fieldId, path });
+
+  Object.entries(translations).forEach(([fieldId, translation]) => {
+    const path = `${basePath}.${fieldId}`;
+    const field = fields.find((candidate) => candidate.id === fieldId);
+    if (!field) {
+      warn("unknown-translation-field", `A translation refers to a field "${fieldId}" that does not exist.`, path);
+      return;
+    }
+    Object.keys(translation.options ?? {})
+      .filter((value) => !field.options?.some((option) => option.value === value))
+      .forEach((value) =>
+        warn("unknown-translation-option", `${field.label}: a translation refers to an option "${value}" that does not exist.`, `${path}.options.${value}`, fieldId)
+      );
+    if ((translation.validate?.length ?? 0) > (field.validate?.length ?? 0)) {
+      warn("unused-translation-rule", `${field.label}: a translation has more rule messages than the field has rules.`, `${path}.validate`, fieldId);
+    }
+    if (translation.fields) {
+      diagnostics.push(...lintFieldTranslations(field.fields ?? [], translation.fields, `${path}.fields`));
+    }
+  });
+
+  return diagnostics;
+};
+
+const lintTranslations = (schema: FormSchema): FormSchemaDiagnostic[] => {
+  const diagnostics: FormSchemaDiagnostic[] = [];
+  const stepIds = new Set(schema.steps?.map((step) => step.id));
+
+  if (schema.defaultLocale !== undefined && !isValidLocale(schema.defaultLocale)) {
+    diagnostics.push({ severity: "error", code: "invalid-locale", message: `"${schema.defaultLocale}" is not a valid locale.`, path: "defaultLocale" });
+  }
+  Object.entries(schema.translations ?? {}).forEach(([locale, translation]) => {
+    const path = `translations.${locale}`;
+    if (!isValidLocale(locale)) {
+      diagnostics.push({ severity: "error", code: "invalid-locale", message: `"${locale}" is not a valid locale.`, path });
+    } else if (locale === (schema.defaultLocale || DEFAULT_LOCALE)) {
+      diagnostics.push({ severity: "warning", code: "unused-translation", message: `The "${locale}" translation is never used, because the form itself is written in "${locale}".`, path });
+    }
+    Object.keys(translation.steps ?? {})
+      .filter((stepId) => !stepIds.has(stepId))
+      .forEach((stepId) =>
+        diagnostics.push({ severity: "warning", code: "unknown-translation-step", message: `The "${locale}" translation refers to a step "${stepId}" that does not exist.`, path: `${path}.steps.${stepId}` })
+      );
+    diagnostics.push(...lintFieldTranslations(schema.fields ?? [], translation.fields ?? {}, `${path}.fields`));
+  });
+
+  return diagnostics;
+};
+
+// Proof of work above this many bits can take minutes on a slow phone
+const MAX_COMFORTABLE_PROOF_OF_WORK_BITS = 20;
+
+const lintSpamProtection = (schema: FormSchema, fieldIds: Set<string>): FormSchemaDiagnostic[] => {
+  const diagnostics: FormSchemaDiagnostic[] = [];
+  const config = schema.spamProtection;
+  if (!config) return diagnostics;
+  const report = (severity: FormSchemaDiagnosticSeverity, code: string, message: string, key: string) =>
+    diagnostics.push({ severity, code, message, path: `spamProtection.${key}` });
+
+  const honeypotField = getHoneypotField(config);
+  const payloadKeys = new Set(Object.values(schema.submission?.payloadMapping ?? {}));
+  if (honeypotField !== undefined && (fieldIds.has(honeypotField) || payloadKeys.has(honeypotField))) {
+    report("error", "honeypot-field-conflict", `The honeypot input "${honeypotField}" has the same name as a field, so real answers would be dropped as spam.`, "honeypotField");
+  } else if (config.honeypotField !== undefined && !config.honeypot) {
+    report("warning", "unused-honeypot-field", "A honeypot field name is set, but the honeypot is not turned on.", "honeypotField");
+  }
+  if (config.minSecondsToSubmit !== undefined && !(config.minSecondsToSubmit > 0)) {
+    report("error", "invalid-min-submit-time", "The minimum time to submit must be a positive number of seconds.", "minSecondsToSubmit");
+  }
+  if (config.rateLimit && !(Number.isInteger(config.rateLimit.maxSubmissions) && config.rateLimit.maxSubmissions > 0 && config.rateLimit.windowMinutes > 0)) {
+    report("error", "invalid-rate-limit", "A rate limit needs a positive whole number of submissions and a positive number of minutes.", "rateLimit");
+  }
+  const bits = config.proofOfWorkBits;
+  if (bits !== undefined && !(Number.isInteger(bits) && bits > 0 && bits <= 32)) {
+    report("error", "invalid-proof-of-work", "Proof of work takes a whole number of bits from 1 to 32.", "proofOfWorkBits");
+  } else if (bits > MAX_COMFORTABLE_PROOF_OF_WORK_BITS) {
+    report("warning", "slow-proof-of-work", `A proof of work of ${bits} bits can keep people waiting for minutes on slower devices.`, "proofOfWorkBits");
+  }
+  if (config.duplicateWindowMinutes !== undefined && !(config.duplicateWindowMinutes > 0)) {
+    report("error", "invalid-duplicate-window", "Duplicate detection needs a positive number of minutes.", "duplicateWindowMinutes");
+  } else if (config.duplicateWindowMinutes !== undefined && schema.submission?.transport !== "http") {
+    report("warning", "duplicates-need-server", "Duplicate detection is done by the receiving server, so it only works with HTTP submission.", "duplicateWindowMinutes");
+  }
+
+  return diagnostics;
+};
+
+// Static checks for problems that would otherwise surface as runtime errors or confusing forms
+export const lintFormSchema = (schema: FormSchema): FormSchemaDiagnostic[] => {
+  const diagnostics: FormSchemaDiagnostic[] = [];
+  const fields = schema.fields ?? [];
+  const fieldIds = new Set(fields.map((field) => field.id));
+
+  if (!schema.title?.trim()) {
+    diagnostics.push({ severity: "error", code: "missing-title", message: "The form has no title.", path: "title" });
+  }
+  if (fields.length === 0) {
+    diagnostics.push({ severity: "error", code: "no-fields", message: "The form has no fields.", path: "fields" });
+  }
+
+  diagnostics.push(...lintFieldList(fields, "fields"));
+
+  const stepIds = new Set<string>();
+  const stepFieldIds = new Set<string>();
+  schema.steps?.forEach((step, index) => {
+    if (stepIds.has(step.id)) {
+      diagnostics.push({ severity: "error", code: "duplicate-step-id", message: `More than one step uses the id "${step.id}".`, path: `steps.${index}.id` });
+    }
+    stepIds.add(step.id);
+    step.fields.forEach((fieldId, fieldIndex) => {
+      const path = `steps.${index}.fields.${fieldIndex}`;
+      if (!fieldIds.has(fieldId)) {
+        diagnostics.push({ severity: "error", code: "unknown-step-field", message: `Step "${step.title}" lists a field "${fieldId}" that does not exist.`, path });
+      } else if (stepFieldIds.has(fieldId)) {
+        diagnostics.push({ severity: "warning", code: "field-in-several-steps", message: `Field "${fieldId}" appears in more than one step; only the first is used.`, fieldId, path });
+      }
+      stepFieldIds.add(fieldId);
+    });
+  });
+
+  const submission = schema.submission;
+  if (submission?.transport === "http" && !submission.endpoint) {
+    diagnostics.push({ severity: "error", code: "missing-endpoint", message: "HTTP submission needs an endpoint.", path: "submission.endpoint" });
+  }
+  if (submission?.transport === "mailto" && !submission.to) {
+    diagnostics.push({ severity: "error", code: "missing-recipient", message: "Email submission needs a recipient.", path: "submission.to" });
+  }
+
+  const expiryDays = schema.drafts?.expiresAfterDays;
+  if (expiryDays !== undefined && !(expiryDays > 0)) {
+    diagnostics.push({ severity: "error", code: "invalid-draft-expiry", message: "Drafts must be kept for a positive number of days.", path: "drafts.expiresAfterDays" });
+  }
+
+  diagnostics.push(...lintTranslations(schema));
+  diagnostics.push(...lintSpamProtection(schema, fieldIds));
+
+  return diagnostics;
+};
+
+export const hasLintErrors = (diagnostics: FormSchemaDiagnostic[]) =>
+  diagnostics.some((diagnostic) => diagnostic.severity === "error");
@@ -0,0 +1,78 @@
+import { FormSchema, FormSchemaRevision } from "@/types/form";
+import { CURRENT_SCHEMA_VERSION, migrateFormSchema } from "@/lib/schemaMigrations";
+import { FormSchemaRepository, SchemaRepositoryError } from "@/lib/repository/types";
+
+// Talks to a REST API exposing /forms, /forms/:id, /forms/:id/duplicate and
+// /forms/:id/revisions[/:revision]. The server owns revision numbering.
+export const createHttpSchemaRepository = (baseUrl: string): FormSchemaRepository => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, {
+        ...init,
+        headers: { Accept: "application/json", "Content-Type": "application/json", ...init?.headers },
+      });
+    } catch (error) {
+      throw new SchemaRepositoryError(
+        error instanceof Error ? `Network error: ${error.message}` : "Could not reach the form server."
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new SchemaRepositoryError(
+        typeof body?.message === "string" ? body.message : `Request failed with status ${response.status}`,
+        response.status
+      );
+    }
+
+    if (response.status === 204) return undefined as T;
+    return response.json();
+  };
+
+  const formPath = (id: string) => `/forms/${encodeURIComponent(id)}`;
+
+  const toBody = (schema: FormSchema) => JSON.stringify({ ...schema, schemaVersion: CURRENT_SCHEMA_VERSION });
+
+  const requestOrNull = async <T>(path: string): Promise<T | null> => {
+    try {
+      return await request<T>(path);
+    } catch (error) {
+      if (error instanceof SchemaRepositoryError && error.status === 404) return null;
+      throw error;
+    }
+  };
+
+  return {
+    list: async () => (await request<FormSchema[]>("/forms")).map(migrateFormSchema),
+
+    get: async (id) => {
+      const schema = await requestOrNull<FormSchema>(formPath(id));
+      return schema && migrateFormSchema(schema);
+    },
+
+    create: async (schema) =>
+      migrateFormSchema(await request<FormSchema>("/forms", { method: "POST", body: toBody(schema) })),
+
+    update: async (id, schema) =>
+      migrateFormSchema(await request<FormSchema>(formPath(id), { method: "PUT", body: toBody(schema) })),
+
+    delete: (id) => request<void>(formPath(id), { method: "DELETE" }),
+
+    duplicate: async (id) =>
+      migrateFormSchema(await request<FormSchema>(`${formPath(id)}/duplicate`, { method: "POST" })),
+
+    listRevisions: async (id) =>
+      (await request<FormSchemaRevision[]>(`${formPath(id)}/revisions`)).map((entry) => ({
+        ...entry,
+        schema: migrateFormSchema(entry.schema),
+      })),
+
+    getRevision: async (id, revision) => {
+      const schema = await requestOrNull<FormSchema>(`${formPath(id)}/revisions/${revision}`);
+      return schema && migrateFormSchema(schema);
+    },
+  };
+};
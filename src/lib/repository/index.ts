@@ -0,0 +1,13 @@
+import { createHttpSchemaRepository } from "@/lib/repository/http";
+import { createLocalStorageSchemaRepository } from "@/lib/repository/localStorage";
+import { FormSchemaRepository } from "@/lib/repository/types";
+
+export * from "@/lib/repository/types";
+export { createHttpSchemaRepository, createLocalStorageSchemaRepository };
+
+// Set VITE_FORM_API_URL (e.g. http://localhost:3001 for `npm run mock-server`) to use the HTTP API
+const apiUrl = import.meta.env.VITE_FORM_API_URL as string | undefined;
+
+export const schemaRepository: FormSchemaRepository = apiUrl
+  ? createHttpSchemaRepository(apiUrl)
+  : createLocalStorageSchemaRepository();
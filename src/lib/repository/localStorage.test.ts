@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { FormSchema } from "@/types/form";
+import { createLocalStorageSchemaRepository } from "@/lib/repository/localStorage";
+
+const STORAGE_KEY = "test-forms";
+
+const feedback: FormSchema = {
+  id: "feedback",
+  schemaVersion: 1,
+  title: "Feedback",
+  fields: [{ id: "name", type: "text", label: "Name" }],
+};
+
+// Saved by a later version of the app that this one has no migration for
+const fromNewerVersion = { ...feedback, id: "future", schemaVersion: 99, title: "Future" };
+
+const readStored = (key = STORAGE_KEY) => JSON.parse(localStorage.getItem(key) || "[]");
+
+describe("local storage repository", () => {
+  it("skips forms that cannot be migrated instead of failing", async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([fromNewerVersion, feedback]));
+    const repository = createLocalStorageSchemaRepository(STORAGE_KEY);
+
+    expect((await repository.list()).map((schema) => schema.id)).toEqual(["feedback"]);
+    expect(await repository.get("feedback")).toMatchObject({ title: "Feedback" });
+    expect(await repository.get("future")).toBeNull();
+  });
+
+  it("keeps forms it cannot read when saving the others", async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([fromNewerVersion, feedback]));
+    const repository = createLocalStorageSchemaRepository(STORAGE_KEY);
+
+    await repository.update("feedback", { ...feedback, title: "Your feedback" });
+    await repository.create({ ...feedback, id: "survey" });
+    await repository.delete("survey");
+
+    expect(readStored()).toEqual([fromNewerVersion, expect.objectContaining({ id: "feedback", title: "Your feedback" })]);
+    await expect(repository.create(fromNewerVersion)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("skips revisions that cannot be migrated and keeps them in storage", async () => {
+    const revisionsKey = `${STORAGE_KEY}:revisions:feedback`;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([feedback]));
+    localStorage.setItem(revisionsKey, JSON.stringify([{ revision: 7, schema: { ...feedback, schemaVersion: 99 } }]));
+    const repository = createLocalStorageSchemaRepository(STORAGE_KEY);
+
+    const updated = await repository.update("feedback", feedback);
+
+    expect((await repository.listRevisions("feedback")).map((entry) => entry.revision)).toEqual([updated.revision]);
+    expect(await repository.getRevision("feedback", 7)).toBeNull();
+    expect(readStored(revisionsKey)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,110 @@
+import { FormSchema, FormSchemaRevision } from "@/types/form";
+import { SchemaMigrationError, migrateFormSchema } from "@/lib/schemaMigrations";
+import {
+  FormSchemaRepository,
+  SchemaRepositoryError,
+  toDuplicateSchema,
+  toSavedRevision,
+} from "@/lib/repository/types";
+
+export const createLocalStorageSchemaRepository = (
+  storageKey = "form-schemas"
+): FormSchemaRepository => {
+  const revisionsKey = (id: string) => `${storageKey}:revisions:${id}`;
+
+  const readJson = <T>(key: string): T[] => {
+    try {
+      const raw = localStorage.getItem(key);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const writeJson = (key: string, value: unknown) => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      throw new SchemaRepositoryError("Could not save forms to browser storage.");
+    }
+  };
+
+  // A form saved by a newer version of the app can't be read here. It is left out instead of
+  // failing every other form, and stays in storage untouched until that version opens it again.
+  const tryMigrate = (schema: FormSchema): FormSchema | null => {
+    try {
+      return migrateFormSchema(schema);
+    } catch (error) {
+      if (error instanceof SchemaMigrationError) return null;
+      throw error;
+    }
+  };
+
+  const readStored = () => readJson<FormSchema>(storageKey);
+
+  const readAll = (): FormSchema[] => readStored().map(tryMigrate).filter((schema): schema is FormSchema => !!schema);
+
+  const readRevisions = (id: string): FormSchemaRevision[] =>
+    readJson<FormSchemaRevision>(revisionsKey(id)).flatMap((entry) => {
+      const schema = tryMigrate(entry.schema);
+      return schema ? [{ ...entry, schema }] : [];
+    });
+
+  // Every saved version is kept so older submissions can still be displayed with their fields
+  const appendRevision = (schema: FormSchema) => {
+    const entry: FormSchemaRevision = {
+      revision: schema.revision,
+      savedAt: schema.updatedAt,
+      schema,
+    };
+    writeJson(revisionsKey(schema.id), [...readJson<FormSchemaRevision>(revisionsKey(schema.id)), entry]);
+  };
+
+  const findOrThrow = (id: string) => {
+    const schema = readAll().find((item) => item.id === id);
+    if (!schema) {
+      throw new SchemaRepositoryError(`Form "${id}" was not found.`, 404);
+    }
+    return schema;
+  };
+
+  const insert = (schema: FormSchema) => {
+    const schemas = readStored();
+    if (schemas.some((item) => item.id === schema.id)) {
+      throw new SchemaRepositoryError(`A form with id "${schema.id}" already exists.`, 409);
+    }
+    const saved = toSavedRevision(schema, 1);
+    writeJson(storageKey, [...schemas, saved]);
+    appendRevision(saved);
+    return saved;
+  };
+
+  return {
+    list: async () => readAll(),
+
+    get: async (id) => readAll().find((item) => item.id === id) || null,
+
+    create: async (schema) => insert(schema),
+
+    update: async (id, schema) => {
+      const existing = findOrThrow(id);
+      const updated = toSavedRevision({ ...schema, id }, (existing.revision ?? 0) + 1);
+      writeJson(storageKey, readStored().map((item) => (item.id === id ? updated : item)));
+      appendRevision(updated);
+      return updated;
+    },
+
+    delete: async (id) => {
+      findOrThrow(id);
+      writeJson(storageKey, readStored().filter((item) => item.id !== id));
+    },
+
+    duplicate: async (id) => insert(toDuplicateSchema(findOrThrow(id))),
+
+    listRevisions: async (id) => readRevisions(id),
+
+    getRevision: async (id, revision) =>
+      readRevisions(id).find((entry) => entry.revision === revision)?.schema || null,
+  };
+};
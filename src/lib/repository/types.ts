@@ -0,0 +1,41 @@
+import { FormSchema, FormSchemaRevision } from "@/types/form";
+import { CURRENT_SCHEMA_VERSION } from "@/lib/schemaMigrations";
+
+export interface FormSchemaRepository {
+  list: () => Promise<FormSchema[]>;
+  get: (id: string) => Promise<FormSchema | null>;
+  create: (schema: FormSchema) => Promise<FormSchema>;
+  update: (id: string, schema: FormSchema) => Promise<FormSchema>;
+  delete: (id: string) => Promise<void>;
+  duplicate: (id: string) => Promise<FormSchema>;
+  listRevisions: (id: string) => Promise<FormSchemaRevision[]>;
+  getRevision: (id: string, revision: number) => Promise<FormSchema | null>;
+}
+
+export class SchemaRepositoryError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "SchemaRepositoryError";
+    this.status = status;
+  }
+}
+
+export const createSchemaId = (prefix = "custom_form") =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+
+export const toDuplicateSchema = (schema: FormSchema): FormSchema => ({
+  ...schema,
+  id: createSchemaId(),
+  title: `${schema.title} (Copy)`,
+  revision: undefined,
+});
+
+// Stamps a schema that is about to be saved with the current document version and its new revision
+export const toSavedRevision = (schema: FormSchema, revision: number): FormSchema => ({
+  ...schema,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  revision,
+  updatedAt: new Date().toISOString(),
+});
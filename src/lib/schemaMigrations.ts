@@ -0,0 +1,81 @@
+import { FormSchema } from "@/types/form";
+
+export const CURRENT_SCHEMA_VERSION = 1;
+
+// Stored documents may come from any earlier version, so migrations work on plain objects
+type SchemaDocument = Record<string, unknown>;
+
+export interface SchemaMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (document: SchemaDocument) => SchemaDocument;
+}
+
+const migrations = new Map<number, SchemaMigration>();
+
+export const registerSchemaMigration = (migration: SchemaMigration) => {
+  if (migration.to !== migration.from + 1) {
+    throw new Error(`Schema migrations must step one version at a time (got ${migration.from} -> ${migration.to}).`);
+  }
+  if (migrations.has(migration.from)) {
+    throw new Error(`A schema migration from version ${migration.from} is already registered.`);
+  }
+  migrations.set(migration.from, migration);
+};
+
+export class SchemaMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaMigrationError";
+  }
+}
+
+export const getSchemaVersion = (document: SchemaDocument) =>
+  typeof document.schemaVersion === "number" ? document.schemaVersion : 0;
+
+export const migrateFormSchema = (document: SchemaDocument | FormSchema): FormSchema => {
+  let current = { ...document } as SchemaDocument;
+  let version = getSchemaVersion(current);
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaMigrationError(
+      `Form "${String(current.id)}" was saved with schema version ${version}, which is newer than this app supports (${CURRENT_SCHEMA_VERSION}).`
+    );
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new SchemaMigrationError(`No migration registered from schema version ${version}.`);
+    }
+    current = { ...migration.migrate(current), schemaVersion: migration.to };
+    version = migration.to;
+  }
+
+  return current as unknown as FormSchema;
+};
+
+// Documents saved before versioning existed: make sure the arrays we rely on are
+// present and option values are strings, as the select components expect.
+registerSchemaMigration({
+  from: 0,
+  to: 1,
+  description: "Normalize unversioned documents",
+  migrate: (document) => {
+    const fields = Array.isArray(document.fields) ? document.fields : [];
+    return {
+      ...document,
+      revision: typeof document.revision === "number" ? document.revision : 1,
+      fields: fields.map((field: Record<string, unknown>) => ({
+        ...field,
+        ...(Array.isArray(field.options) && {
+          options: field.options.map((option: { value: unknown; label?: unknown }) => ({
+            value: String(option.value),
+            label: String(option.label ?? option.value),
+          })),
+        }),
+      })),
+    };
+  },
+});
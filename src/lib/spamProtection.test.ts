@@ -0,0 +1,145 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { FormSchema } from "@/types/form";
+import {
+  PROOF_OF_WORK_MAX_AGE_MS,
+  checkSpamSignals,
+  createProofOfWorkChallenge,
+  getHoneypotField,
+  getRecentSubmissionTimes,
+  getSubmissionFingerprint,
+  isHoneypotFilled,
+  isRateLimited,
+  isSubmittedTooFast,
+  readSpamSignalHeaders,
+  solveProofOfWork,
+  toSpamSignalHeaders,
+  verifyProofOfWork,
+} from "@/lib/spamProtection";
+
+const NOW = Date.UTC(2026, 0, 1);
+const MINUTE_MS = 60 * 1000;
+
+const schema: FormSchema = {
+  id: "feedback",
+  title: "Feedback",
+  fields: [{ id: "name", type: "text", label: "Name" }],
+  spamProtection: { honeypot: true, minSecondsToSubmit: 3, proofOfWorkBits: 6 },
+};
+
+describe("honeypot", () => {
+  it("uses the configured input name, or website", () => {
+    expect(getHoneypotField({})).toBeUndefined();
+    expect(getHoneypotField({ honeypot: true })).toBe("website");
+    expect(getHoneypotField({ honeypot: true, honeypotField: "homepage" })).toBe("homepage");
+  });
+
+  it("only counts a filled in honeypot", () => {
+    expect(isHoneypotFilled({ honeypot: true }, "https://spam.example")).toBe(true);
+    expect(isHoneypotFilled({ honeypot: true }, "")).toBe(false);
+    expect(isHoneypotFilled({ honeypot: true }, undefined)).toBe(false);
+    expect(isHoneypotFilled({}, "https://spam.example")).toBe(false);
+  });
+});
+
+describe("minimum time to submit", () => {
+  const config = { minSecondsToSubmit: 3 };
+
+  it("refuses submissions sent sooner than allowed", () => {
+    expect(isSubmittedTooFast(config, NOW - 1000, NOW)).toBe(true);
+    expect(isSubmittedTooFast(config, NOW - 3000, NOW)).toBe(false);
+  });
+
+  it("refuses submissions without a start time", () => {
+    expect(isSubmittedTooFast(config, undefined, NOW)).toBe(true);
+    expect(isSubmittedTooFast({}, undefined, NOW)).toBe(false);
+  });
+});
+
+describe("rate limit", () => {
+  const config = { rateLimit: { maxSubmissions: 2, windowMinutes: 10 } };
+
+  it("counts only submissions within the window", () => {
+    const times = [NOW - 11 * MINUTE_MS, NOW - 5 * MINUTE_MS, NOW + MINUTE_MS];
+    expect(getRecentSubmissionTimes(config, times, NOW)).toEqual([NOW - 5 * MINUTE_MS]);
+  });
+
+  it("limits once the maximum is reached", () => {
+    expect(isRateLimited(config, [NOW - MINUTE_MS], NOW)).toBe(false);
+    expect(isRateLimited(config, [NOW - 2 * MINUTE_MS, NOW - MINUTE_MS], NOW)).toBe(true);
+    expect(isRateLimited({}, [NOW, NOW, NOW], NOW)).toBe(false);
+  });
+});
+
+describe("proof of work", () => {
+  it("verifies a solved proof", async () => {
+    const proof = await solveProofOfWork("feedback", 6, createProofOfWorkChallenge(NOW));
+
+    expect(proof).not.toBeNull();
+    expect(await verifyProofOfWork("feedback", 6, proof!, NOW)).toBe(true);
+  });
+
+  it("refuses proofs for another form or with too few bits", async () => {
+    // A fixed challenge keeps the nonce, and so the outcome, the same on every run
+    const proof = await solveProofOfWork("feedback", 8, `${NOW}.fixed`);
+
+    expect(await verifyProofOfWork("feedback", 8, proof!, NOW)).toBe(true);
+    expect(await verifyProofOfWork("feedback", 24, proof!, NOW)).toBe(false);
+    expect(await verifyProofOfWork("other", 8, proof!, NOW)).toBe(false);
+  });
+
+  it("refuses proofs that are too old, from the future or without a time", async () => {
+    const old = await solveProofOfWork("feedback", 1, createProofOfWorkChallenge(NOW - PROOF_OF_WORK_MAX_AGE_MS - 1));
+    const future = await solveProofOfWork("feedback", 1, createProofOfWorkChallenge(NOW + 10 * MINUTE_MS));
+    const untimed = await solveProofOfWork("feedback", 1, "not-a-time.abc");
+
+    expect(await verifyProofOfWork("feedback", 1, old!, NOW)).toBe(false);
+    expect(await verifyProofOfWork("feedback", 1, future!, NOW)).toBe(false);
+    expect(await verifyProofOfWork("feedback", 1, untimed!, NOW)).toBe(false);
+  });
+
+  it("stops when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await solveProofOfWork("feedback", 64, undefined, controller.signal)).toBeNull();
+  });
+});
+
+describe("checkSpamSignals", () => {
+  it("reports the first failing check", async () => {
+    expect(await checkSpamSignals(schema, { website: "x" }, { startedAt: NOW - 5000 }, NOW)).toBe("honeypot");
+    expect(await checkSpamSignals(schema, {}, { startedAt: NOW - 1000 }, NOW)).toBe("tooFast");
+    expect(await checkSpamSignals(schema, {}, { startedAt: NOW - 5000 }, NOW)).toBe("proofOfWork");
+  });
+
+  it("passes with a valid start time and proof", async () => {
+    const proof = await solveProofOfWork("feedback", 6, createProofOfWorkChallenge(NOW));
+
+    expect(await checkSpamSignals(schema, { website: "" }, { startedAt: NOW - 5000, proof: proof! }, NOW)).toBeNull();
+  });
+});
+
+describe("signal headers", () => {
+  it("round-trips the start time and proof", () => {
+    const signals = { startedAt: NOW, proof: { challenge: `${NOW}.abc`, nonce: 42 } };
+    const headers = toSpamSignalHeaders(signals);
+
+    expect(readSpamSignalHeaders((name) => headers[name])).toEqual(signals);
+  });
+
+  it("ignores malformed headers", () => {
+    const headers: Record<string, string> = { "X-Form-Started-At": "soon", "X-Form-Proof": "abc:1.5" };
+
+    expect(readSpamSignalHeaders((name) => headers[name])).toEqual({ startedAt: undefined, proof: undefined });
+  });
+});
+
+describe("getSubmissionFingerprint", () => {
+  it("ignores the order of keys but not the answers", async () => {
+    const fingerprint = await getSubmissionFingerprint({ name: "Ada", tags: ["a", "b"], address: { city: "X", zip: "1" } });
+
+    expect(await getSubmissionFingerprint({ address: { zip: "1", city: "X" }, tags: ["a", "b"], name: "Ada" })).toBe(fingerprint);
+    expect(await getSubmissionFingerprint({ name: "Ada", tags: ["b", "a"], address: { city: "X", zip: "1" } })).not.toBe(fingerprint);
+  });
+});
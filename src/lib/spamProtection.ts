@@ -0,0 +1,147 @@
+import { FormSchema, SpamProtectionConfig } from "@/types/form";
+
+// Uses Web Crypto only, so the browser and servers run the same checks
+
+export type SpamCheckFailure = "honeypot" | "tooFast" | "rateLimited" | "proofOfWork" | "duplicate";
+
+// The challenge is made up by the browser, so no server has to hand one out first
+export interface ProofOfWork {
+  challenge: string;
+  nonce: number;
+}
+
+// Sent along with a submission so the receiver can repeat the checks
+export interface SpamSignals {
+  // When the form was opened, in milliseconds since the epoch
+  startedAt?: number;
+  proof?: ProofOfWork;
+}
+
+export const DEFAULT_HONEYPOT_FIELD = "website";
+
+// Proofs older than this are refused, and receivers only need to remember used ones this long
+export const PROOF_OF_WORK_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Clocks drift, so proofs from slightly in the future are still accepted
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+export const getSpamProtection = (schema: FormSchema): SpamProtectionConfig => schema.spamProtection ?? {};
+
+export const getHoneypotField = (config: SpamProtectionConfig) =>
+  config.honeypot ? config.honeypotField || DEFAULT_HONEYPOT_FIELD : undefined;
+
+export const isHoneypotFilled = (config: SpamProtectionConfig, value: unknown) =>
+  getHoneypotField(config) !== undefined && value !== undefined && value !== null && value !== "";
+
+// A form without a start time was not opened in a browser at all
+export const isSubmittedTooFast = (config: SpamProtectionConfig, startedAt: number | undefined, now = Date.now()) =>
+  !!config.minSecondsToSubmit && (startedAt === undefined || now - startedAt < config.minSecondsToSubmit * 1000);
+
+// Earlier submission times that still count towards the rate limit
+export const getRecentSubmissionTimes = (config: SpamProtectionConfig, times: number[], now = Date.now()) => {
+  const windowMs = (config.rateLimit?.windowMinutes ?? 0) * MINUTE_MS;
+  return times.filter((time) => time <= now && now - time < windowMs);
+};
+
+export const isRateLimited = (config: SpamProtectionConfig, times: number[], now = Date.now()) =>
+  !!config.rateLimit && getRecentSubmissionTimes(config, times, now).length >= config.rateLimit.maxSubmissions;
+
+const sha256 = async (text: string) =>
+  new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+
+const countLeadingZeroBits = (bytes: Uint8Array) => {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte !== 0) return bits + Math.clz32(byte) - 24;
+    bits += 8;
+  }
+  return bits;
+};
+
+const hasProofOfWork = async (formId: string, bits: number, { challenge, nonce }: ProofOfWork) =>
+  countLeadingZeroBits(await sha256(`${formId}:${challenge}:${nonce}`)) >= bits;
+
+// The time in the challenge lets receivers refuse old proofs and forget used ones
+export const createProofOfWorkChallenge = (now = Date.now()) => {
+  const random = Array.from(crypto.getRandomValues(new Uint8Array(12)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${now}.${random}`;
+};
+
+// Each extra bit doubles the expected number of hashes. Resolves with null when aborted.
+export const solveProofOfWork = async (
+  formId: string,
+  bits: number,
+  challenge = createProofOfWorkChallenge(),
+  signal?: AbortSignal
+): Promise<ProofOfWork | null> => {
+  for (let nonce = 0; ; nonce++) {
+    if (signal?.aborted) return null;
+    if (await hasProofOfWork(formId, bits, { challenge, nonce })) {
+      return { challenge, nonce };
+    }
+  }
+};
+
+export const verifyProofOfWork = async (formId: string, bits: number, proof: ProofOfWork, now = Date.now()) => {
+  const issuedAt = Number(proof.challenge.split(".")[0]);
+  if (!Number.isFinite(issuedAt) || issuedAt > now + CLOCK_SKEW_MS || now - issuedAt > PROOF_OF_WORK_MAX_AGE_MS) {
+    return false;
+  }
+  return hasProofOfWork(formId, bits, proof);
+};
+
+// The stateless checks a receiver can repeat on its own. Rate limits and duplicates need
+// to remember earlier submissions, which is up to the receiver.
+export const checkSpamSignals = async (
+  schema: FormSchema,
+  payload: Record<string, unknown>,
+  signals: SpamSignals,
+  now = Date.now()
+): Promise<SpamCheckFailure | null> => {
+  const config = getSpamProtection(schema);
+  const honeypotField = getHoneypotField(config);
+  if (honeypotField !== undefined && isHoneypotFilled(config, payload[honeypotField])) return "honeypot";
+  if (isSubmittedTooFast(config, signals.startedAt, now)) return "tooFast";
+  if (config.proofOfWorkBits && !(signals.proof && (await verifyProofOfWork(schema.id, config.proofOfWorkBits, signals.proof, now)))) {
+    return "proofOfWork";
+  }
+  return null;
+};
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value === "object" && value !== null && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+// Same answers give the same fingerprint, whatever order they were sent in
+export const getSubmissionFingerprint = async (data: Record<string, unknown>) =>
+  Array.from(await sha256(JSON.stringify(sortKeys(data))), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// Headers the HTTP transport sends the signals in
+export const SPAM_SIGNAL_HEADERS = {
+  startedAt: "X-Form-Started-At",
+  proof: "X-Form-Proof",
+} as const;
+
+export const toSpamSignalHeaders = ({ startedAt, proof }: SpamSignals): Record<string, string> => ({
+  ...(startedAt !== undefined && { [SPAM_SIGNAL_HEADERS.startedAt]: String(startedAt) }),
+  ...(proof && { [SPAM_SIGNAL_HEADERS.proof]: `${proof.challenge}:${proof.nonce}` }),
+});
+
+export const readSpamSignalHeaders = (getHeader: (name: string) => string | undefined): SpamSignals => {
+  const startedAt = Number(getHeader(SPAM_SIGNAL_HEADERS.startedAt));
+  const [challenge, nonce] = getHeader(SPAM_SIGNAL_HEADERS.proof)?.split(":") ?? [];
+  return {
+    startedAt: Number.isFinite(startedAt) && startedAt > 0 ? startedAt : undefined,
+    proof: challenge && nonce && Number.isInteger(Number(nonce)) ? { challenge, nonce: Number(nonce) } : undefined,
+  };
+};
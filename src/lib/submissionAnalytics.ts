@@ -0,0 +1,142 @@
+import { format } from "date-fns";
+import { FormField, SubmissionConfig } from "@/types/form";
+import { StoredSubmission, getSubmissionValue } from "@/lib/transports";
+import { getOptionLabel, toValueList } from "@/lib/fieldOptions";
+
+export interface CountBucket {
+  label: string;
+  count: number;
+}
+
+export interface FieldCompletion {
+  fieldId: string;
+  label: string;
+  // Share of submissions with a non-empty value for the field
+  completionRate: number;
+  // Share of submissions that left the field and every later one blank. Only finished
+  // submissions are stored, so this is not how many people gave up before reaching it.
+  trailingBlankRate: number;
+}
+
+const isAnswered = (value: unknown) =>
+  value !== undefined &&
+  value !== null &&
+  value !== "" &&
+  !(Array.isArray(value) && value.length === 0);
+
+const toDayKey = (value: unknown) => {
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? null : format(date, "yyyy-MM-dd");
+};
+
+const countByDay = (values: unknown[]): CountBucket[] => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => {
+    const day = toDayKey(value);
+    if (day) counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, count]) => ({ label, count }));
+};
+
+export const getFieldValues = (
+  field: FormField,
+  submissions: StoredSubmission[],
+  config: SubmissionConfig
+) => submissions.map((submission) => getSubmissionValue(submission.data, field, config));
+
+export const getOptionDistribution = (field: FormField, values: unknown[]): CountBucket[] => {
+  if (field.type === "checkbox") {
+    const yes = values.filter((value) => value === true || value === "true").length;
+    return [
+      { label: "Yes", count: yes },
+      { label: "No", count: values.length - yes },
+    ];
+  }
+
+  // Multi-choice answers count once for every option they include
+  const counts = new Map((field.options || []).map((option) => [option.value, 0]));
+  values.filter(isAnswered).flatMap(toValueList).forEach((key) => {
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  return [...counts.entries()].map(([value, count]) => ({
+    label: getOptionLabel(field, value),
+    count,
+  }));
+};
+
+// Enough decimals to tell neighbouring bucket bounds apart
+const formatBound = (value: number, width: number) =>
+  String(Number(value.toFixed(Math.max(0, 1 - Math.floor(Math.log10(width))))));
+
+// Bounds are inclusive of the lower end only, except for the last bucket which holds the maximum
+const getDecimalHistogram = (numbers: number[], min: number, max: number, bucketCount: number): CountBucket[] => {
+  const width = (max - min) / bucketCount;
+  const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+    label: `${formatBound(min + index * width, width)}–${formatBound(min + (index + 1) * width, width)}`,
+    count: 0,
+  }));
+  numbers.forEach((value) => {
+    buckets[Math.min(Math.floor((value - min) / width), bucketCount - 1)].count += 1;
+  });
+
+  return buckets;
+};
+
+export const getNumberHistogram = (values: unknown[], bucketCount = 8): CountBucket[] => {
+  const numbers = values.filter(isAnswered).map(Number).filter((value) => !isNaN(value));
+  if (numbers.length === 0) return [];
+
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+  if (min === max) return [{ label: String(min), count: numbers.length }];
+  if (!numbers.every(Number.isInteger)) return getDecimalHistogram(numbers, min, max, bucketCount);
+
+  const width = Math.ceil((max - min + 1) / bucketCount);
+  const buckets = Array.from({ length: Math.ceil((max - min + 1) / width) }, (_, index) => ({
+    label: `${min + index * width}–${min + (index + 1) * width - 1}`,
+    count: 0,
+  }));
+  numbers.forEach((value) => {
+    buckets[Math.floor((value - min) / width)].count += 1;
+  });
+
+  return buckets;
+};
+
+export const getDateSeries = (values: unknown[]): CountBucket[] => countByDay(values.filter(isAnswered));
+
+export const getSubmissionVolume = (submissions: StoredSubmission[]): CountBucket[] =>
+  countByDay(submissions.map((submission) => submission.submittedAt));
+
+export const getFieldCompletion = (
+  fields: FormField[],
+  submissions: StoredSubmission[],
+  config: SubmissionConfig
+): FieldCompletion[] => {
+  if (submissions.length === 0) {
+    return fields.map((field) => ({ fieldId: field.id, label: field.label, completionRate: 0, trailingBlankRate: 0 }));
+  }
+
+  // Index of the last field each respondent filled in, in form order
+  const lastAnswered = submissions.map((submission) => {
+    let last = -1;
+    fields.forEach((field, index) => {
+      if (isAnswered(getSubmissionValue(submission.data, field, config))) last = index;
+    });
+    return last;
+  });
+
+  return fields.map((field, index) => {
+    const answered = getFieldValues(field, submissions, config).filter(isAnswered).length;
+    const blankFromHere = lastAnswered.filter((last) => last < index).length;
+    return {
+      fieldId: field.id,
+      label: field.label,
+      completionRate: answered / submissions.length,
+      trailingBlankRate: blankFromHere / submissions.length,
+    };
+  });
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { FormSchema } from "@/types/form";
+import { surveyFormSchema } from "@/data/formSchemas";
+import { createValidationSchema } from "@/lib/validationSchema";
+import { toFieldErrorMap, validateSubmission } from "@/lib/submissionValidation";
+
+const orderSchema: FormSchema = {
+  id: "order",
+  title: "Order",
+  fields: [
+    { id: "email", type: "email", label: "Email", required: true },
+    { id: "quantity", type: "number", label: "Quantity", required: true, validation: { min: 1, max: 10 } },
+    { id: "unitPrice", type: "number", label: "Unit price", required: true },
+    { id: "total", type: "number", label: "Total", compute: "quantity * unitPrice" },
+    {
+      id: "attendees",
+      type: "group",
+      label: "Attendees",
+      repeatable: { min: 1, max: 3 },
+      fields: [{ id: "name", type: "text", label: "Name", required: true, validation: { minLength: 2 } }],
+    },
+  ],
+  submission: { transport: "http", endpoint: "/orders", payloadMapping: { email: "contact_email" } },
+};
+
+// What the form in the browser shows for the same values
+const getClientErrors = (schema: FormSchema, values: Record<string, unknown>) => {
+  const result = createValidationSchema(schema, values).safeParse(values);
+  return result.success ? {} : toFieldErrorMap(result.error);
+};
+
+describe("validateSubmission", () => {
+  it("accepts valid answers and revives dates sent as JSON strings", () => {
+    const result = validateSubmission(surveyFormSchema, {
+      name: "Ada Lovelace",
+      email: "ada@example.com",
+      experience: "expert",
+      birthDate: "1990-05-01T00:00:00.000Z",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success === false) return;
+    expect(result.data.birthDate).toBeInstanceOf(Date);
+  });
+
+  it("drops values of fields the form does not have", () => {
+    const result = validateSubmission(surveyFormSchema, {
+      name: "Ada Lovelace",
+      email: "ada@example.com",
+      experience: "expert",
+      isAdmin: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success === false) return;
+    expect(result.data).not.toHaveProperty("isAdmin");
+  });
+
+  it("keys errors by field like the client rules do", () => {
+    const values = { name: "A", email: "not-an-email", experience: "" };
+    const result = validateSubmission(surveyFormSchema, values);
+
+    expect(result.success).toBe(false);
+    if (result.success === true) return;
+    expect(Object.keys(result.errors).sort()).toEqual(["email", "experience", "name"]);
+    expect(result.errors).toEqual(getClientErrors(surveyFormSchema, values));
+  });
+
+  it("keys errors inside groups by entry path", () => {
+    const result = validateSubmission(orderSchema, {
+      contact_email: "ada@example.com",
+      quantity: 2,
+      unitPrice: 5,
+      attendees: [{ name: "Ada" }, { name: "B" }],
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success === true) return;
+    expect(Object.keys(result.errors)).toEqual(["attendees.1.name"]);
+  });
+
+  it("undoes payload mapping before checking the answers", () => {
+    const answers = { quantity: 20, unitPrice: 5, attendees: [{ name: "Ada" }] };
+    const result = validateSubmission(orderSchema, { ...answers, contact_email: "" });
+
+    expect(result.success).toBe(false);
+    if (result.success === true) return;
+    expect(result.errors).toEqual(getClientErrors(orderSchema, { ...answers, email: "" }));
+    expect(Object.keys(result.errors).sort()).toEqual(["email", "quantity"]);
+  });
+
+  it("works computed values out again instead of trusting the client", () => {
+    const result = validateSubmission(orderSchema, {
+      contact_email: "ada@example.com",
+      quantity: 3,
+      unitPrice: 4,
+      total: 1,
+      attendees: [{ name: "Ada" }],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success === false) return;
+    expect(result.data.total).toBe(12);
+  });
+
+  it("uses the translation that matches the locale for messages", () => {
+    const answers = { name: "Ada Lovelace", email: "ada@example.com", experience: "expert", birthDate: "2999-01-01" };
+    const english = validateSubmission(surveyFormSchema, answers);
+    const spanish = validateSubmission(surveyFormSchema, answers, "es-MX");
+
+    expect(english.success === false && english.errors.birthDate).toBe("Date of birth must be in the past");
+    expect(spanish.success === false && spanish.errors.birthDate).toBe("La fecha de nacimiento debe estar en el pasado");
+  });
+});
@@ -0,0 +1,95 @@
+import * as z from "zod";
+import { FormField, FormSchema } from "@/types/form";
+import { stripHiddenValues } from "@/lib/formRules";
+import { getSubmissionConfig, getSubmissionValue } from "@/lib/transports";
+import { createValidationSchema } from "@/lib/validationSchema";
+import { getComputedValueUpdates } from "@/lib/fieldExpressions";
+import { getTranslator, localizeFormSchema, resolveSchemaLocale } from "@/lib/i18n";
+
+type FormValues = Record<string, unknown>;
+
+// Messages keyed by form path, e.g. "email" or "attendees.0.name", ready for react-hook-form's setError
+export type FieldErrorMap = Record<string, string>;
+
+export type SubmissionValidationResult =
+  | { success: true; data: FormValues }
+  | { success: false; errors: FieldErrorMap };
+
+// JSON has no dates, so date fields arrive as ISO strings
+const reviveJsonValues = (fields: FormField[], values: FormValues): FormValues =>
+  Object.fromEntries(
+    Object.entries(values).map(([id, value]) => {
+      const field = fields.find((candidate) => candidate.id === id);
+      if (field?.type === "group" && Array.isArray(value)) {
+        return [id, value.map((entry) => (typeof entry === "object" && entry !== null ? reviveJsonValues(field.fields ?? [], entry) : entry))];
+      }
+      if (field?.type === "date" && typeof value === "string") {
+        const date = new Date(value);
+        return [id, isNaN(date.getTime()) ? value : date];
+      }
+      return [id, value];
+    })
+  );
+
+// Computed values are never taken from the client: they are dropped and worked out again
+const recomputeValues = (fields: FormField[], values: FormValues): FormValues => {
+  const withoutComputed = (groupFields: FormField[], entry: FormValues): FormValues =>
+    Object.fromEntries(
+      Object.entries(entry)
+        .filter(([id]) => !groupFields.find((field) => field.id === id)?.compute)
+        .map(([id, value]) => {
+          const field = groupFields.find((candidate) => candidate.id === id);
+          return field?.type === "group" && Array.isArray(value)
+            ? [id, value.map((item) => (typeof item === "object" && item !== null ? withoutComputed(field.fields ?? [], item) : item))]
+            : [id, value];
+        })
+    );
+
+  const result = withoutComputed(fields, values);
+  getComputedValueUpdates(fields, result).forEach(({ name, value }) => {
+    const path = name.split(".");
+    const parent = path.slice(0, -1).reduce<unknown>((target, key) => (target as FormValues)?.[key], result);
+    if (typeof parent === "object" && parent !== null) {
+      (parent as FormValues)[path[path.length - 1]] = value;
+    }
+  });
+  return result;
+};
+
+// The first problem per value, like the form shows them
+export const toFieldErrorMap = (error: z.ZodError): FieldErrorMap => {
+  const errors: FieldErrorMap = {};
+  error.issues.forEach((issue) => {
+    const name = issue.path.join(".");
+    if (name && !(name in errors)) {
+      errors[name] = issue.message;
+    }
+  });
+  return errors;
+};
+
+// Checks a payload as the submission transport sent it, in the browser or on a server. Payload
+// mapping is undone, dates are revived, computed values are worked out again and messages use the best matching translation of the
+// schema. Values of unknown and hidden fields are dropped from the accepted data.
+export const validateSubmission = (schema: FormSchema, payload: FormValues, locale?: string): SubmissionValidationResult => {
+  const config = getSubmissionConfig(schema);
+  const values = recomputeValues(
+    schema.fields,
+    reviveJsonValues(
+      schema.fields,
+      Object.fromEntries(
+        schema.fields
+          .map((field): [string, unknown] => [field.id, getSubmissionValue(payload, field, config)])
+          .filter(([, value]) => value !== undefined)
+      )
+    )
+  );
+
+  const activeLocale = resolveSchemaLocale(schema, locale);
+  const localizedSchema = localizeFormSchema(schema, activeLocale);
+  const result = createValidationSchema(localizedSchema, values, getTranslator(activeLocale)).safeParse(values);
+  if (!result.success) {
+    return { success: false, errors: toFieldErrorMap(result.error) };
+  }
+  return { success: true, data: stripHiddenValues(schema.fields, result.data) };
+};
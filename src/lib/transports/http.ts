@@ -0,0 +1,146 @@
+import { SubmissionConfig } from "@/types/form";
+import { SubmissionError, SubmissionTransport } from "@/lib/transports/types";
+import { hasFiles } from "@/lib/fileFields";
+import { toSpamSignalHeaders } from "@/lib/spamProtection";
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !(value instanceof Blob) && !(value instanceof Date) && !Array.isArray(value);
+
+const appendValue = (formData: FormData, key: string, value: unknown) => {
+  if (value === undefined || value === null) return;
+  if (value instanceof Blob) {
+    formData.append(key, value);
+  } else if (value instanceof Date) {
+    formData.append(key, value.toISOString());
+  } else if (Array.isArray(value)) {
+    // Group entries use bracket notation, e.g. attendees[0][email]
+    value.forEach((item, index) =>
+      isPlainObject(item)
+        ? Object.entries(item).forEach(([subKey, subValue]) => appendValue(formData, `${key}[${index}][${subKey}]`, subValue))
+        : appendValue(formData, key, item)
+    );
+  } else if (typeof value === "object") {
+    formData.append(key, JSON.stringify(value));
+  } else {
+    formData.append(key, String(value));
+  }
+};
+
+const toFormData = (payload: Record<string, unknown>) => {
+  const formData = new FormData();
+  Object.entries(payload).forEach(([key, value]) => appendValue(formData, key, value));
+  return formData;
+};
+
+interface HttpResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  text: string;
+}
+
+const parseJson = (text: string) => {
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+};
+
+const readErrorMessage = (response: HttpResponse) => {
+  const body = parseJson(response.text);
+  if (typeof body?.message === "string") return body.message;
+  if (typeof body?.error === "string") return body.error;
+  return `Request failed with status ${response.status}${response.statusText ? ` (${response.statusText})` : ""}`;
+};
+
+// Servers that validate submissions answer with { errors: { [formPath]: message } }
+const readFieldErrors = (response: HttpResponse): Record<string, string> | undefined => {
+  const errors = parseJson(response.text)?.errors;
+  if (typeof errors !== "object" || errors === null || Array.isArray(errors)) return undefined;
+  const entries = Object.entries(errors).filter((entry): entry is [string, string] => typeof entry[1] === "string");
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const networkError = (error?: unknown) =>
+  new SubmissionError(
+    error instanceof Error ? `Network error: ${error.message}` : "Network error while submitting the form."
+  );
+
+const sendWithFetch = async (url: string, init: RequestInit): Promise<HttpResponse> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw networkError(error);
+  }
+  return { ok: response.ok, status: response.status, statusText: response.statusText, text: await response.text() };
+};
+
+// fetch cannot report upload progress, so multipart bodies (which may carry files) go through XHR
+const sendWithXhr = (
+  url: string,
+  { method, headers, body }: { method: string; headers: Record<string, string>; body: FormData },
+  onUploadProgress?: (progress: number) => void
+) =>
+  new Promise<HttpResponse>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        onUploadProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () =>
+      resolve({
+        ok: xhr.status >= 200 && xhr.status < 300,
+        status: xhr.status,
+        statusText: xhr.statusText,
+        text: xhr.responseText,
+      });
+    xhr.onerror = () => reject(networkError());
+    xhr.onabort = () => reject(new SubmissionError("The upload was cancelled."));
+
+    xhr.send(body);
+  });
+
+export const createHttpTransport = (config: SubmissionConfig): SubmissionTransport => ({
+  kind: "http",
+  submit: async ({ schema, payload, onUploadProgress, signals }) => {
+    if (!config.endpoint) {
+      throw new SubmissionError("No endpoint configured for HTTP submission.");
+    }
+
+    // Files cannot be sent as JSON, so their presence forces multipart
+    const isMultipart = config.encoding === "multipart" || hasFiles(payload);
+    const method = config.method || "POST";
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      "X-Form-Id": schema.id,
+      ...(schema.revision !== undefined && { "X-Form-Revision": String(schema.revision) }),
+      ...(signals && toSpamSignalHeaders(signals)),
+      ...config.headers,
+    };
+
+    let response: HttpResponse;
+    if (isMultipart) {
+      // The browser sets the multipart boundary itself
+      response = await sendWithXhr(config.endpoint, { method, headers, body: toFormData(payload) }, onUploadProgress);
+    } else {
+      headers["Content-Type"] = "application/json";
+      response = await sendWithFetch(config.endpoint, { method, headers, body: JSON.stringify(payload) });
+    }
+
+    if (!response.ok) {
+      throw new SubmissionError(readErrorMessage(response), response.status, readFieldErrors(response));
+    }
+
+    const body = parseJson(response.text);
+    return {
+      message: typeof body?.message === "string" ? body.message : undefined,
+      reference: body?.id !== undefined ? String(body.id) : undefined,
+    };
+  },
+});
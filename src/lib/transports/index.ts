@@ -0,0 +1,45 @@
+import { FormField, FormSchema, SubmissionConfig } from "@/types/form";
+import { createHttpTransport } from "@/lib/transports/http";
+import { createMailtoTransport } from "@/lib/transports/mailto";
+import { createLocalStorageTransport, createMemoryTransport } from "@/lib/transports/storage";
+import { SubmissionTransport } from "@/lib/transports/types";
+
+export * from "@/lib/transports/types";
+export * from "@/lib/transports/storage";
+
+// Forms without a submission config keep their data in the browser
+export const DEFAULT_SUBMISSION_CONFIG: SubmissionConfig = { transport: "localStorage" };
+
+export const getSubmissionConfig = (schema: FormSchema): SubmissionConfig =>
+  schema.submission || DEFAULT_SUBMISSION_CONFIG;
+
+export const createSubmissionTransport = (config: SubmissionConfig): SubmissionTransport => {
+  switch (config.transport) {
+    case "http":
+      return createHttpTransport(config);
+    case "mailto":
+      return createMailtoTransport(config);
+    case "memory":
+      return createMemoryTransport();
+    case "localStorage":
+    default:
+      return createLocalStorageTransport(config);
+  }
+};
+
+export const buildSubmissionPayload = (
+  data: Record<string, unknown>,
+  config: SubmissionConfig
+): Record<string, unknown> => {
+  const mapping = config.payloadMapping || {};
+  return Object.fromEntries(
+    Object.entries(data).map(([fieldId, value]) => [mapping[fieldId] || fieldId, value])
+  );
+};
+
+// Reads a field's value back out of a stored payload, undoing the payload mapping
+export const getSubmissionValue = (
+  data: Record<string, unknown>,
+  field: FormField,
+  config: SubmissionConfig
+) => data[config.payloadMapping?.[field.id] || field.id];
@@ -0,0 +1,27 @@
+import { SubmissionConfig } from "@/types/form";
+import { formatFieldValue } from "@/lib/formatFieldValue";
+import { SubmissionError, SubmissionTransport } from "@/lib/transports/types";
+
+// Opens the user's mail client with the submission written out as "Label: value" lines
+export const createMailtoTransport = (config: SubmissionConfig): SubmissionTransport => ({
+  kind: "mailto",
+  submit: async ({ schema, payload }) => {
+    if (!config.to) {
+      throw new SubmissionError("No recipient configured for email submission.");
+    }
+
+    const mapping = config.payloadMapping || {};
+    const lines = schema.fields
+      .filter((field) => (mapping[field.id] || field.id) in payload)
+      .map((field) => `${field.label}: ${formatFieldValue(field, payload[mapping[field.id] || field.id])}`);
+
+    const params = new URLSearchParams({
+      subject: config.subject || schema.title,
+      body: lines.join("\n"),
+    });
+    // URLSearchParams encodes spaces as "+", which mail clients show literally
+    window.location.href = `mailto:${config.to}?${params.toString().replace(/\+/g, "%20")}`;
+
+    return { message: "Your email client has been opened to send the submission." };
+  },
+});
@@ -0,0 +1,76 @@
+import { FormSchema, SubmissionConfig } from "@/types/form";
+import { SubmissionError, SubmissionTransport } from "@/lib/transports/types";
+import { describeFile } from "@/lib/fileFields";
+
+export interface StoredSubmission {
+  id: string;
+  formId: string;
+  // Revision of the form the data was collected with, so it can be shown with the matching fields
+  schemaRevision?: number;
+  schemaVersion?: number;
+  submittedAt: string;
+  data: Record<string, unknown>;
+}
+
+const memorySubmissions: StoredSubmission[] = [];
+
+const createSubmissionId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `submission_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Round-trips through JSON so stored records look the same as what an HTTP endpoint would receive.
+// File contents are not kept, only their name, size and type.
+const toStoredSubmission = (schema: FormSchema, payload: Record<string, unknown>): StoredSubmission => ({
+  id: createSubmissionId(),
+  formId: schema.id,
+  schemaRevision: schema.revision,
+  schemaVersion: schema.schemaVersion,
+  submittedAt: new Date().toISOString(),
+  data: JSON.parse(JSON.stringify(payload, (_key, value) => (value instanceof Blob ? describeFile(value) : value))),
+});
+
+export const getSubmissionStorageKey = (formId: string, config?: SubmissionConfig) =>
+  config?.storageKey || `form-submissions:${formId}`;
+
+export const readStoredSubmissions = (storageKey: string): StoredSubmission[] => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const getMemorySubmissions = (formId?: string) =>
+  memorySubmissions.filter((submission) => !formId || submission.formId === formId);
+
+export const createMemoryTransport = (): SubmissionTransport => ({
+  kind: "memory",
+  submit: async ({ schema, payload }) => {
+    const submission = toStoredSubmission(schema, payload);
+    memorySubmissions.push(submission);
+    return { reference: submission.id };
+  },
+});
+
+export const createLocalStorageTransport = (config: SubmissionConfig): SubmissionTransport => ({
+  kind: "localStorage",
+  submit: async ({ schema, payload }) => {
+    const storageKey = getSubmissionStorageKey(schema.id, config);
+    const submission = toStoredSubmission(schema, payload);
+
+    try {
+      localStorage.setItem(storageKey, JSON.stringify([...readStoredSubmissions(storageKey), submission]));
+    } catch (error) {
+      throw new SubmissionError(
+        error instanceof Error && error.name === "QuotaExceededError"
+          ? "Browser storage is full. Please clear some saved submissions and try again."
+          : "Could not save the submission to browser storage."
+      );
+    }
+
+    return { reference: submission.id };
+  },
+});
@@ -0,0 +1,35 @@
+import { FormSchema, SubmissionTransportKind } from "@/types/form";
+import { SpamSignals } from "@/lib/spamProtection";
+
+export interface SubmissionRequest {
+  schema: FormSchema;
+  // Values after payload mapping has been applied
+  payload: Record<string, unknown>;
+  // Called with the share of the request body sent so far (0 to 1), where the transport can tell
+  onUploadProgress?: (progress: number) => void;
+  // Spam protection results for receivers that check them again
+  signals?: SpamSignals;
+}
+
+export interface SubmissionResult {
+  message?: string;
+  reference?: string;
+}
+
+export interface SubmissionTransport {
+  kind: SubmissionTransportKind;
+  submit: (request: SubmissionRequest) => Promise<SubmissionResult>;
+}
+
+export class SubmissionError extends Error {
+  status?: number;
+  // Messages for rejected values, keyed by form path, when the receiver reported them
+  fieldErrors?: Record<string, string>;
+
+  constructor(message: string, status?: number, fieldErrors?: Record<string, string>) {
+    super(message);
+    this.name = "SubmissionError";
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
@@ -0,0 +1,158 @@
+// Uses no browser APIs, so servers validate submissions with the same rules as the form
+import * as z from "zod";
+import { FormField, FormSchema } from "@/types/form";
+import { getVisibleFields, isFieldRequired } from "@/lib/formRules";
+import { formatFileSize, matchesAccept } from "@/lib/fileFields";
+import { getGroupBounds } from "@/lib/fieldGroups";
+import { getExpressionRuleFailures, getExpressionScope } from "@/lib/fieldExpressions";
+import { getCustomFieldType } from "@/lib/fieldTypes";
+import { Translator, getTranslator } from "@/lib/i18n";
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+
+// Registered types only check given values, so empty ones are turned into undefined first
+const createCustomValidator = (validator: z.ZodTypeAny, required: boolean, requiredMessage: string) =>
+  z.preprocess(
+    (value) => (isEmptyValue(value) ? undefined : value),
+    required
+      ? z.unknown().refine((value) => value !== undefined, requiredMessage).pipe(validator)
+      : validator.optional()
+  );
+
+const createObjectSchema = (fields: FormField[], values: Record<string, unknown>, t: Translator) => {
+  const schemaObject: Record<string, z.ZodTypeAny> = {};
+
+  // Hidden fields are left out entirely so they can neither fail validation nor be submitted
+  getVisibleFields(fields, values).forEach((field) => {
+    const required = isFieldRequired(field, values);
+    const label = field.label;
+    const requiredMessage = t("validation.required", { label });
+    const customType = getCustomFieldType(field.type);
+    if (customType) {
+      schemaObject[field.id] = createCustomValidator(customType.toZod(field, { t }), required, requiredMessage);
+      return;
+    }
+    let validator: z.ZodTypeAny;
+
+    switch (field.type) {
+      case "email":
+        validator = z.string({ required_error: requiredMessage }).email(t("validation.email"));
+        break;
+      case "number":
+        validator = z.coerce.number({ invalid_type_error: t("validation.number", { label }) });
+        if (field.validation?.min !== undefined) {
+          validator = (validator as z.ZodNumber).min(field.validation.min, t("validation.min", { label, min: field.validation.min }));
+        }
+        if (field.validation?.max !== undefined) {
+          validator = (validator as z.ZodNumber).max(field.validation.max, t("validation.max", { label, max: field.validation.max }));
+        }
+        break;
+      case "date":
+        validator = z.date({
+          required_error: requiredMessage,
+        });
+        break;
+      case "checkbox":
+        validator = z.boolean().optional();
+        break;
+      case "radio":
+        validator = z.string({ required_error: requiredMessage });
+        break;
+      case "multiselect":
+      case "checkboxGroup": {
+        const { minSelections, maxSelections } = field.validation ?? {};
+        let selections = z.array(z.string(), { required_error: requiredMessage });
+        if (minSelections) {
+          selections = selections.min(minSelections, t("validation.minSelections", { count: minSelections }));
+        }
+        if (maxSelections !== undefined) {
+          selections = selections.max(maxSelections, t("validation.maxSelections", { count: maxSelections }));
+        }
+        validator = selections;
+        break;
+      }
+      case "file": {
+        const { maxFiles, maxFileSize } = field.validation ?? {};
+        let files = z.array(z.instanceof(File), { required_error: requiredMessage });
+        if (required) {
+          files = files.min(1, requiredMessage);
+        }
+        if (maxFiles !== undefined) {
+          files = files.max(maxFiles, t("validation.maxFiles", { count: maxFiles }));
+        }
+        validator = files.superRefine((selected, ctx) => {
+          selected.forEach((file) => {
+            if (!matchesAccept(file, field.accept)) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: t("validation.fileType", { name: file.name }) });
+            } else if (maxFileSize !== undefined && file.size > maxFileSize) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: t("validation.fileSize", { name: file.name, size: formatFileSize(maxFileSize) }) });
+            }
+          });
+        });
+        break;
+      }
+      case "group": {
+        const { min, max } = getGroupBounds(field);
+        let entries = z.array(z.record(z.unknown()), { required_error: requiredMessage });
+        if (min > 0) {
+          entries = entries.min(min, t("validation.minEntries", { count: min }));
+        }
+        if (max !== undefined) {
+          entries = entries.max(max, t("validation.maxEntries", { count: max }));
+        }
+        // Each entry gets its own schema, since rules inside a group depend on that entry's values
+        validator = entries.transform((list, ctx) =>
+          list.map((entry, index) => {
+            const result = createObjectSchema(field.fields ?? [], entry, t).safeParse(entry);
+            if (result.success) return result.data;
+            result.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: [index, ...issue.path] }));
+            return entry;
+          })
+        );
+        break;
+      }
+      default:
+        validator = z.string({ required_error: requiredMessage });
+        if (field.validation?.minLength) {
+          validator = (validator as z.ZodString).min(field.validation.minLength, t("validation.minLength", { label, count: field.validation.minLength }));
+        }
+        if (field.validation?.maxLength) {
+          validator = (validator as z.ZodString).max(field.validation.maxLength, t("validation.maxLength", { label, count: field.validation.maxLength }));
+        }
+        if (field.validation?.pattern) {
+          validator = (validator as z.ZodString).regex(
+            new RegExp(field.validation.pattern),
+            t("validation.pattern", { label, lowerLabel: label.toLowerCase() })
+          );
+        }
+        break;
+    }
+
+    if (required && field.type !== "checkbox") {
+      if (field.type === "date" || field.type === "file" || field.type === "group") {
+        // Date, file and group validation is already handled above
+      } else {
+        validator = (validator as z.ZodString).min(1, requiredMessage);
+      }
+    } else if (!required && field.type !== "checkbox") {
+      validator = (validator as z.ZodString).optional();
+    }
+
+    schemaObject[field.id] = validator;
+  });
+
+  // Cross-field rules run once every field has a value of the right type
+  return z.object(schemaObject).superRefine((data, ctx) => {
+    const scope = getExpressionScope(fields, data);
+    getVisibleFields(fields, data).forEach((field) => {
+      getExpressionRuleFailures(field, scope).forEach((message) =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.id], message })
+      );
+    });
+  });
+};
+
+// Messages use the schema's labels, so pass a localized schema together with its locale's translator
+export const createValidationSchema = (schema: FormSchema, values: Record<string, unknown> = {}, t: Translator = getTranslator()) =>
+  createObjectSchema(schema.fields, values, t);
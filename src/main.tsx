@@ -1,5 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { registerCustomFieldTypes } from '@/components/fields/customFieldTypes'
+
+registerCustomFieldTypes();
 
 createRoot(document.getElementById("root")!).render(<App />);
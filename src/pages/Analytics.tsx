@@ -0,0 +1,240 @@
+import { useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FormField } from "@/types/form";
+import { useFormSchema } from "@/hooks/useFormSchemas";
+import { useSubmissions } from "@/hooks/useSubmissions";
+import { getSubmissionConfig } from "@/lib/transports";
+import {
+  CountBucket,
+  getDateSeries,
+  getFieldCompletion,
+  getFieldValues,
+  getNumberHistogram,
+  getOptionDistribution,
+  getSubmissionVolume,
+} from "@/lib/submissionAnalytics";
+import { BarChart3 } from "lucide-react";
+
+const chartConfig = {
+  count: {
+    label: "Responses",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const CountChart = ({ data, kind }: { data: CountBucket[]; kind: "bar" | "line" }) => {
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No responses yet</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+      {kind === "bar" ? (
+        <BarChart data={data}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+        </BarChart>
+      ) : (
+        <LineChart data={data}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line dataKey="count" stroke="var(--color-count)" strokeWidth={2} type="monotone" />
+        </LineChart>
+      )}
+    </ChartContainer>
+  );
+};
+
+const chartDescriptions: Partial<Record<FormField["type"], string>> = {
+  select: "Option distribution",
+  radio: "Option distribution",
+  multiselect: "Times each option was picked",
+  checkboxGroup: "Times each option was picked",
+  checkbox: "Yes / no split",
+  number: "Value histogram",
+  date: "Responses over time",
+};
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const Analytics = () => {
+  const { id } = useParams<{ id: string }>();
+  const { schema, isLoading } = useFormSchema(id);
+  const { submissions } = useSubmissions(schema);
+
+  const analytics = useMemo(() => {
+    if (!schema) return null;
+    const config = getSubmissionConfig(schema);
+
+    const fieldCharts = schema.fields
+      .filter((field) => field.type in chartDescriptions)
+      .map((field) => {
+        const values = getFieldValues(field, submissions, config);
+        const kind: "bar" | "line" = field.type === "date" ? "line" : "bar";
+        const data =
+          field.type === "number"
+            ? getNumberHistogram(values)
+            : field.type === "date"
+              ? getDateSeries(values)
+              : getOptionDistribution(field, values);
+        return { field, kind, data };
+      });
+
+    return {
+      volume: getSubmissionVolume(submissions),
+      completion: getFieldCompletion(schema.fields, submissions, config),
+      fieldCharts,
+    };
+  }, [schema, submissions]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-background flex items-center justify-center p-4">
+        <p className="text-muted-foreground">Loading form...</p>
+      </div>
+    );
+  }
+
+  if (!schema) {
+    return (
+      <div className="min-h-screen bg-gradient-background flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <p className="text-xl text-foreground">Form "{id}" was not found.</p>
+          <Button asChild variant="outline">
+            <Link to="/">← Back to Forms</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const averageCompletion =
+    analytics.completion.length > 0
+      ? analytics.completion.reduce((sum, item) => sum + item.completionRate, 0) / analytics.completion.length
+      : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              {schema.title}
+            </h1>
+            <p className="text-muted-foreground flex items-center gap-2">
+              <BarChart3 className="w-4 h-4" />
+              Analytics
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link to={`/forms/${encodeURIComponent(schema.id)}/submissions`}>View Submissions</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link to="/">← Back to Forms</Link>
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+            <CardHeader>
+              <CardDescription>Total submissions</CardDescription>
+              <CardTitle className="text-3xl">{submissions.length}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+            <CardHeader>
+              <CardDescription>Average field completion</CardDescription>
+              <CardTitle className="text-3xl">{formatPercent(averageCompletion)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+            <CardHeader>
+              <CardDescription>Active days</CardDescription>
+              <CardTitle className="text-3xl">{analytics.volume.length}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+          <CardHeader>
+            <CardTitle>Submission volume</CardTitle>
+            <CardDescription>Submissions per day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CountChart data={analytics.volume} kind="line" />
+          </CardContent>
+        </Card>
+
+        {analytics.fieldCharts.length > 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {analytics.fieldCharts.map(({ field, kind, data }) => (
+              <Card key={field.id} className="bg-card/80 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-lg">{field.label}</CardTitle>
+                  <CardDescription>{chartDescriptions[field.type]}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CountChart data={data} kind={kind} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+          <CardHeader>
+            <CardTitle>Completion by field</CardTitle>
+            <CardDescription>
+              How often each field was answered, and how many submissions left it and every later field blank
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead className="w-1/3">Completion</TableHead>
+                  <TableHead className="w-1/3">Blank from here on</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.completion.map((item) => (
+                  <TableRow key={item.fieldId}>
+                    <TableCell>{item.label}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress value={item.completionRate * 100} className="h-2" />
+                        <span className="w-10 text-right text-sm">{formatPercent(item.completionRate)}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress value={item.trailingBlankRate * 100} className="h-2" />
+                        <span className="w-10 text-right text-sm">{formatPercent(item.trailingBlankRate)}</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
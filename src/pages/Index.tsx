@@ -3,28 +3,52 @@ import { FormSelector } from "@/components/FormSelector";
 import { SmartFormBuilder } from "@/components/SmartFormBuilder";
 import { DynamicFormRenderer } from "@/components/DynamicFormRenderer";
 import { FormSchema } from "@/types/form";
+import { useFormSchemas } from "@/hooks/useFormSchemas";
+import { useToast } from "@/hooks/use-toast";
 
 const Index = () => {
   const [currentView, setCurrentView] = useState<'selector' | 'builder' | 'renderer'>('selector');
   const [selectedSchema, setSelectedSchema] = useState<FormSchema | null>(null);
+  const [editingSchema, setEditingSchema] = useState<FormSchema | null>(null);
+  const { createSchema, updateSchema } = useFormSchemas();
+  const { toast } = useToast();
 
-  const handleFormGenerated = (schema: FormSchema) => {
-    setSelectedSchema(schema);
-    setCurrentView('renderer');
+  const handleFormGenerated = async (schema: FormSchema) => {
+    try {
+      const saved = editingSchema ? await updateSchema(schema) : await createSchema(schema);
+      setSelectedSchema(saved);
+      setEditingSchema(null);
+      setCurrentView('renderer');
+    } catch (error) {
+      toast({
+        title: 'Could not save form',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
   const handleBackToSelector = () => {
     setCurrentView('selector');
     setSelectedSchema(null);
+    setEditingSchema(null);
   };
 
   const handleShowBuilder = () => {
+    setEditingSchema(null);
+    setCurrentView('builder');
+  };
+
+  const handleEditSchema = (schema: FormSchema) => {
+    setEditingSchema(schema);
     setCurrentView('builder');
   };
 
   if (currentView === 'builder') {
     return (
-      <SmartFormBuilder 
+      <SmartFormBuilder
+        key={editingSchema?.id ?? 'new'}
+        initialSchema={editingSchema ?? undefined}
         onFormGenerated={handleFormGenerated}
         onBack={handleBackToSelector}
       />
@@ -33,18 +57,14 @@ const Index = () => {
 
   if (currentView === 'renderer' && selectedSchema) {
     return (
-      <DynamicFormRenderer 
-        schema={selectedSchema}
-        onSubmit={(data) => {
-          console.log("Form submitted with data:", data);
-        }}
-      />
+      <DynamicFormRenderer schema={selectedSchema} />
     );
   }
 
   return (
-    <FormSelector 
+    <FormSelector
       onShowBuilder={handleShowBuilder}
+      onEditSchema={handleEditSchema}
     />
   );
 };
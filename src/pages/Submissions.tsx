@@ -0,0 +1,383 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { FormField, FormSchema } from "@/types/form";
+import { useFormSchema, useFormSchemaRevisions } from "@/hooks/useFormSchemas";
+import { canListSubmissions, useSubmissions } from "@/hooks/useSubmissions";
+import { StoredSubmission, getSubmissionConfig, getSubmissionValue } from "@/lib/transports";
+import { EMPTY_VALUE_LABEL, formatFieldValue } from "@/lib/formatFieldValue";
+import { isChoiceField, toValueList } from "@/lib/fieldOptions";
+import { downloadFile, submissionsToCsv, submissionsToJson } from "@/lib/exportSubmissions";
+import { Download, Inbox, Search } from "lucide-react";
+
+const PAGE_SIZE = 10;
+const ANY_VALUE = "__any";
+
+// Page numbers around the current page, with null marking a gap
+const getPageWindow = (page: number, pageCount: number): (number | null)[] => {
+  if (pageCount <= 7) return Array.from({ length: pageCount }, (_, index) => index + 1);
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const sorted = [...pages].filter((item) => item >= 1 && item <= pageCount).sort((a, b) => a - b);
+  return sorted.flatMap((item, index) => (index > 0 && item - sorted[index - 1] > 1 ? [null, item] : [item]));
+};
+
+const ColumnFilter = ({
+  field,
+  value,
+  onChange,
+}: {
+  field: FormField;
+  value: string;
+  onChange: (value: string) => void;
+}) => {
+  if (isChoiceField(field) || field.type === "checkbox") {
+    const options =
+      field.type === "checkbox"
+        ? [
+            { value: "Yes", label: "Yes" },
+            { value: "No", label: "No" },
+          ]
+        : field.options || [];
+
+    return (
+      <Select value={value || ANY_VALUE} onValueChange={(next) => onChange(next === ANY_VALUE ? "" : next)}>
+        <SelectTrigger className="h-8 bg-input border-border" aria-label={`Filter ${field.label}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY_VALUE}>Any</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      placeholder="Filter"
+      aria-label={`Filter ${field.label}`}
+      className="h-8 bg-input border-border"
+    />
+  );
+};
+
+const Submissions = () => {
+  const { id } = useParams<{ id: string }>();
+  const { schema, isLoading: isSchemaLoading } = useFormSchema(id);
+  const { submissions, isLoading: isSubmissionsLoading } = useSubmissions(schema);
+  const [search, setSearch] = useState("");
+  const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(1);
+
+  const hasOlderRevisions = submissions.some(
+    (submission) => submission.schemaRevision !== undefined && submission.schemaRevision !== schema?.revision
+  );
+  const { revisions } = useFormSchemaRevisions(schema?.id, hasOlderRevisions);
+
+  // The version each submission was made with, or the current one when it is not known
+  const getSubmissionSchema = useMemo(() => {
+    const byRevision = new Map(revisions.map((entry) => [entry.revision, entry.schema]));
+    return (submission: StoredSubmission): FormSchema =>
+      (submission.schemaRevision !== undefined && byRevision.get(submission.schemaRevision)) || schema;
+  }, [revisions, schema]);
+
+  // The current fields, followed by fields that were removed since older submissions were made
+  const fields = useMemo(() => {
+    const columns = [...(schema?.fields ?? [])];
+    const ids = new Set(columns.map((field) => field.id));
+    submissions.forEach((submission) => {
+      getSubmissionSchema(submission)?.fields.forEach((field) => {
+        if (ids.has(field.id)) return;
+        ids.add(field.id);
+        columns.push(field);
+      });
+    });
+    return columns;
+  }, [schema, submissions, getSubmissionSchema]);
+  const config = useMemo(() => (schema ? getSubmissionConfig(schema) : null), [schema]);
+
+  const rows = useMemo(
+    () =>
+      submissions.map((submission) => {
+        const submissionSchema = getSubmissionSchema(submission);
+        const submissionConfig = getSubmissionConfig(submissionSchema);
+        // Values are read and formatted with the field as it was when the submission was made
+        const fieldsById = new Map(submissionSchema.fields.map((field) => [field.id, field]));
+        const raw = Object.fromEntries(
+          fields.map((field) => {
+            const submittedField = fieldsById.get(field.id);
+            return [field.id, submittedField ? getSubmissionValue(submission.data, submittedField, submissionConfig) : undefined];
+          })
+        );
+        return {
+          submission,
+          raw,
+          display: Object.fromEntries(
+            fields.map((field) => {
+              const submittedField = fieldsById.get(field.id);
+              return [field.id, submittedField ? formatFieldValue(submittedField, raw[field.id]) : EMPTY_VALUE_LABEL];
+            })
+          ),
+        };
+      }),
+    [submissions, fields, getSubmissionSchema]
+  );
+
+  const filteredRows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+
+    return rows.filter((row) => {
+      if (term && !Object.values(row.display).some((value) => value.toLowerCase().includes(term))) {
+        return false;
+      }
+
+      return fields.every((field) => {
+        const filter = columnFilters[field.id];
+        if (!filter) return true;
+        if (isChoiceField(field)) return toValueList(row.raw[field.id]).includes(filter);
+        if (field.type === "checkbox") return row.display[field.id] === filter;
+        return row.display[field.id].toLowerCase().includes(filter.toLowerCase());
+      });
+    });
+  }, [rows, fields, search, columnFilters]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredRows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageRows = filteredRows.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  // Any change to what is shown starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [search, columnFilters]);
+
+  const exportView = (type: "csv" | "json") => {
+    const visible = filteredRows.map((row) => row.submission);
+    const stamp = format(new Date(), "yyyy-MM-dd");
+    if (type === "csv") {
+      downloadFile(`${schema.id}-submissions-${stamp}.csv`, submissionsToCsv(fields, visible, config), "text/csv;charset=utf-8");
+    } else {
+      downloadFile(`${schema.id}-submissions-${stamp}.json`, submissionsToJson(visible), "application/json");
+    }
+  };
+
+  if (isSchemaLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-background flex items-center justify-center p-4">
+        <p className="text-muted-foreground">Loading form...</p>
+      </div>
+    );
+  }
+
+  if (!schema) {
+    return (
+      <div className="min-h-screen bg-gradient-background flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <p className="text-xl text-foreground">Form "{id}" was not found.</p>
+          <Button asChild variant="outline">
+            <Link to="/">← Back to Forms</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              {schema.title}
+            </h1>
+            <p className="text-muted-foreground">
+              {submissions.length} submission{submissions.length === 1 ? "" : "s"}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link to={`/forms/${encodeURIComponent(schema.id)}/analytics`}>View Analytics</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link to="/">← Back to Forms</Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Inbox className="w-5 h-5" />
+                  Submissions
+                </CardTitle>
+                <CardDescription>
+                  Showing {filteredRows.length} of {submissions.length}
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <div className="relative">
+                  <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(event) => setSearch(event.target.value)}
+                    placeholder="Search submissions"
+                    aria-label="Search submissions"
+                    className="pl-8 w-56 bg-input border-border"
+                  />
+                </div>
+                <Button variant="outline" onClick={() => exportView("csv")} disabled={filteredRows.length === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" onClick={() => exportView("json")} disabled={filteredRows.length === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  JSON
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!canListSubmissions(schema) ? (
+              <p className="text-center py-8 text-muted-foreground">
+                This form sends its submissions via {config.transport}, so they are not stored in the browser.
+              </p>
+            ) : isSubmissionsLoading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading submissions...</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="whitespace-nowrap">Submitted</TableHead>
+                      {fields.map((field) => (
+                        <TableHead key={field.id} className="whitespace-nowrap">
+                          {field.label}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                    <TableRow className="hover:bg-transparent">
+                      <TableHead />
+                      {fields.map((field) => (
+                        <TableHead key={field.id} className="py-2 min-w-32">
+                          <ColumnFilter
+                            field={field}
+                            value={columnFilters[field.id] || ""}
+                            onChange={(value) => setColumnFilters({ ...columnFilters, [field.id]: value })}
+                          />
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pageRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={fields.length + 1} className="text-center py-8 text-muted-foreground">
+                          {submissions.length === 0 ? "No submissions yet" : "No submissions match your filters"}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      pageRows.map((row) => (
+                        <TableRow key={row.submission.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(row.submission.submittedAt), "PP p")}
+                            {row.submission.schemaRevision !== undefined && (
+                              <span className="block text-xs text-muted-foreground">
+                                Revision {row.submission.schemaRevision}
+                              </span>
+                            )}
+                          </TableCell>
+                          {fields.map((field) => (
+                            <TableCell key={field.id} className="max-w-xs truncate" title={row.display[field.id]}>
+                              {row.display[field.id]}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+
+                {pageCount > 1 && (
+                  <Pagination className="mt-4">
+                    <PaginationContent>
+                      <PaginationItem>
+                        <PaginationPrevious
+                          href="#"
+                          onClick={(event) => {
+                            event.preventDefault();
+                            setPage(Math.max(1, currentPage - 1));
+                          }}
+                          aria-disabled={currentPage === 1}
+                        />
+                      </PaginationItem>
+                      {getPageWindow(currentPage, pageCount).map((item, index) =>
+                        item === null ? (
+                          <PaginationItem key={`gap-${index}`}>
+                            <PaginationEllipsis />
+                          </PaginationItem>
+                        ) : (
+                          <PaginationItem key={item}>
+                            <PaginationLink
+                              href="#"
+                              isActive={item === currentPage}
+                              onClick={(event) => {
+                                event.preventDefault();
+                                setPage(item);
+                              }}
+                            >
+                              {item}
+                            </PaginationLink>
+                          </PaginationItem>
+                        )
+                      )}
+                      <PaginationItem>
+                        <PaginationNext
+                          href="#"
+                          onClick={(event) => {
+                            event.preventDefault();
+                            setPage(Math.min(pageCount, currentPage + 1));
+                          }}
+                          aria-disabled={currentPage === pageCount}
+                        />
+                      </PaginationItem>
+                    </PaginationContent>
+                  </Pagination>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Submissions;
@@ -0,0 +1,98 @@
+// Forwards the OpenAI-compatible calls of the schema generator to the real API and adds the API
+// key, which must never reach the browser. Uses nothing but Node.
+//
+//   AI_API_KEY=sk-... npm run ai-proxy
+//
+// Then run the app with VITE_AI_PROVIDER=openai (VITE_AI_BASE_URL defaults to this server).
+// AI_UPSTREAM_URL points it at another OpenAI-compatible API. Only chat completions are passed on.
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+
+const PORT = Number(process.env.AI_PROXY_PORT || 3003);
+const UPSTREAM_URL = (process.env.AI_UPSTREAM_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+const API_KEY = process.env.AI_API_KEY;
+const MAX_BODY_BYTES = 256 * 1024;
+
+class RequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "RequestError";
+    this.status = status;
+  }
+}
+
+const send = (res: ServerResponse, status: number, body?: string, contentType = "application/json") => {
+  res.writeHead(status, {
+    "Content-Type": contentType,
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST,OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type,Accept",
+  });
+  res.end(body);
+};
+
+const sendError = (res: ServerResponse, status: number, message: string) =>
+  send(res, status, JSON.stringify({ error: { message } }));
+
+const readBody = async (req: IncomingMessage) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestError(413, "The request is too large.");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+export const createAIProxy = (apiKey: string) => {
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+      throw new RequestError(404, "Not found.");
+    }
+    if (!req.headers["content-type"]?.startsWith("application/json")) {
+      throw new RequestError(415, "Requests must be sent as JSON.");
+    }
+    const body = await readBody(req);
+    const controller = new AbortController();
+    // The browser gave up, so the upstream call is no longer needed
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    const upstream = await fetch(`${UPSTREAM_URL}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+      body,
+      signal: controller.signal,
+    });
+    send(res, upstream.status, await upstream.text(), upstream.headers.get("content-type") ?? "application/json");
+  };
+
+  return createServer(async (req, res) => {
+    if (req.method === "OPTIONS") return send(res, 204);
+    try {
+      await handleRequest(req, res);
+    } catch (error) {
+      if (res.headersSent) return;
+      if (error instanceof RequestError) {
+        sendError(res, error.status, error.message);
+      } else {
+        console.error(error);
+        sendError(res, 502, "The AI service could not be reached.");
+      }
+    }
+  });
+};
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  if (!API_KEY) {
+    console.error("Set AI_API_KEY to the key of the upstream API.");
+    process.exit(1);
+  }
+  createAIProxy(API_KEY).listen(PORT, () => {
+    console.log(`Forwarding chat completions to ${UPSTREAM_URL} on http://localhost:${PORT}`);
+  });
+}
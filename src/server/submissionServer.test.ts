@@ -0,0 +1,210 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { FormSchema } from "@/types/form";
+import { solveProofOfWork, toSpamSignalHeaders } from "@/lib/spamProtection";
+import { createSubmissionServer } from "@/server/submissionServer";
+
+const feedbackSchema: FormSchema = {
+  id: "feedback",
+  revision: 2,
+  title: "Feedback",
+  fields: [
+    { id: "name", type: "text", label: "Name", required: true, validation: { minLength: 2 } },
+    { id: "email", type: "email", label: "Email", required: true },
+  ],
+  submission: { transport: "http", endpoint: "/submissions", payloadMapping: { email: "contact_email" } },
+};
+
+const protectedSchema: FormSchema = {
+  ...feedbackSchema,
+  id: "protected",
+  spamProtection: {
+    honeypot: true,
+    minSecondsToSubmit: 2,
+    rateLimit: { maxSubmissions: 2, windowMinutes: 10 },
+    proofOfWorkBits: 4,
+    duplicateWindowMinutes: 10,
+  },
+};
+
+// Headers of a browser that opened the form a while ago and solved the proof of work
+const getSignalHeaders = async () =>
+  toSpamSignalHeaders({
+    startedAt: Date.now() - 5000,
+    proof: (await solveProofOfWork(protectedSchema.id, protectedSchema.spamProtection!.proofOfWorkBits!))!,
+  });
+
+let directory: string;
+let server: Server;
+let baseUrl: string;
+
+const startServer = async (schemas: FormSchema[], submissionsDir = directory) => {
+  server = createSubmissionServer(schemas, { submissionsDir });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (pathname: string, body: unknown, headers: Record<string, string> = {}) =>
+  fetch(`${baseUrl}${pathname}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+const readStored = async (formId: string) =>
+  (await readFile(path.join(directory, `${formId}.jsonl`), "utf8"))
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "submissions-"));
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await new Promise((resolve) => server?.close(resolve));
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("submission server", () => {
+  it("stores accepted submissions as JSON lines with the form's payload mapping", async () => {
+    await startServer([feedbackSchema]);
+    const response = await post("/forms/feedback/submissions", { name: "Ada", contact_email: "ada@example.com", extra: 1 });
+
+    expect(response.status).toBe(201);
+    const { id } = await response.json();
+    const [stored] = await readStored("feedback");
+    expect(stored).toMatchObject({
+      id,
+      formId: "feedback",
+      schemaRevision: 2,
+      data: { name: "Ada", contact_email: "ada@example.com" },
+    });
+    expect(stored.data).not.toHaveProperty("extra");
+  });
+
+  it("finds the form from the X-Form-Id header the HTTP transport sends", async () => {
+    await startServer([feedbackSchema]);
+    const response = await post("/submissions", { name: "Ada", contact_email: "ada@example.com" }, { "X-Form-Id": "feedback" });
+
+    expect(response.status).toBe(201);
+  });
+
+  it("rejects invalid answers with messages keyed by field", async () => {
+    await startServer([feedbackSchema]);
+    const response = await post("/forms/feedback/submissions", { name: "A", contact_email: "nope" });
+
+    expect(response.status).toBe(422);
+    const body = await response.json();
+    expect(Object.keys(body.errors).sort()).toEqual(["email", "name"]);
+    await expect(readFile(path.join(directory, "feedback.jsonl"))).rejects.toThrow();
+  });
+
+  it("rejects bodies that are not JSON objects", async () => {
+    await startServer([feedbackSchema]);
+
+    expect((await post("/forms/feedback/submissions", "[1, 2]")).status).toBe(400);
+    expect((await post("/forms/feedback/submissions", "{")).status).toBe(400);
+    expect((await post("/forms/feedback/submissions", "name=Ada", { "Content-Type": "text/plain" })).status).toBe(415);
+  });
+
+  it("answers 404 for unknown forms and routes, and 400 for malformed paths", async () => {
+    await startServer([feedbackSchema]);
+
+    expect((await post("/forms/other/submissions", {})).status).toBe(404);
+    expect((await post("/elsewhere", {})).status).toBe(404);
+    expect((await post("/forms/%E0%A4%A/submissions", {})).status).toBe(400);
+  });
+
+  it("answers 500 when the submission cannot be stored", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // A file where the directory should be makes every write fail
+    const blocked = path.join(directory, "blocked");
+    await writeFile(blocked, "");
+    await startServer([feedbackSchema], blocked);
+    const response = await post("/forms/feedback/submissions", { name: "Ada", contact_email: "ada@example.com" });
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe("submission server spam protection", () => {
+  const answers = { name: "Ada", contact_email: "ada@example.com" };
+  const submit = async (body: Record<string, unknown> = answers, headers?: Record<string, string>) =>
+    post("/forms/protected/submissions", body, headers ?? (await getSignalHeaders()));
+
+  it("pretends to store submissions with a filled in honeypot", async () => {
+    await startServer([protectedSchema]);
+    const response = await submit({ ...answers, website: "https://spam.example" });
+
+    expect(response.status).toBe(201);
+    await expect(readFile(path.join(directory, "protected.jsonl"))).rejects.toThrow();
+  });
+
+  it("refuses submissions sent too soon after the form was opened", async () => {
+    await startServer([protectedSchema]);
+    const headers = { ...(await getSignalHeaders()), ...toSpamSignalHeaders({ startedAt: Date.now() }) };
+
+    expect((await submit(answers, headers)).status).toBe(400);
+  });
+
+  it("refuses submissions without a valid proof of work", async () => {
+    await startServer([protectedSchema]);
+    const headers = toSpamSignalHeaders({ startedAt: Date.now() - 5000 });
+
+    expect((await submit(answers, headers)).status).toBe(403);
+    expect((await submit(answers, { ...headers, "X-Form-Proof": `${Date.now()}.abc:1` })).status).toBe(403);
+  });
+
+  it("refuses a proof of work that was already used for an accepted submission", async () => {
+    await startServer([protectedSchema]);
+    const headers = await getSignalHeaders();
+
+    expect((await submit(answers, headers)).status).toBe(201);
+    expect((await submit({ ...answers, name: "Grace" }, headers)).status).toBe(403);
+  });
+
+  it("refuses answers identical to ones received before", async () => {
+    await startServer([protectedSchema]);
+
+    expect((await submit()).status).toBe(201);
+    expect((await submit({ contact_email: "ada@example.com", name: "Ada" })).status).toBe(409);
+  });
+
+  it("rate limits each client address", async () => {
+    await startServer([protectedSchema]);
+
+    expect((await submit({ ...answers, name: "Ada" })).status).toBe(201);
+    expect((await submit({ ...answers, name: "Grace" })).status).toBe(201);
+    expect((await submit({ ...answers, name: "Linus" })).status).toBe(429);
+  });
+
+  it("accepts only one of several identical submissions sent at once", async () => {
+    await startServer([protectedSchema]);
+    const responses = await Promise.all([submit(), submit(), submit()]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([201, 409, 409]);
+    expect(await readStored("protected")).toHaveLength(1);
+  });
+
+  it("releases the claimed checks when the submission cannot be stored", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const blocked = path.join(directory, "blocked");
+    await writeFile(blocked, "");
+    await startServer([protectedSchema], blocked);
+    const headers = await getSignalHeaders();
+
+    expect((await submit(answers, headers)).status).toBe(500);
+    // Once storage works again the same proof and answers go through, and count once
+    await rm(blocked);
+    expect((await submit(answers, headers)).status).toBe(201);
+    expect((await submit({ ...answers, name: "Grace" })).status).toBe(201);
+    expect((await submit({ ...answers, name: "Linus" })).status).toBe(429);
+  });
+});
@@ -0,0 +1,270 @@
+// Reference submission endpoint: validates incoming JSON with the same rules as the form and
+// appends accepted submissions to one JSON lines file per form. Uses nothing but Node.
+//
+//   npm run submission-server -- path/to/form.json [more forms...]
+//
+// Without arguments the built-in sample forms are served. Point a form at it with
+// { transport: "http", endpoint: "http://localhost:3002/submissions" }. Rejected values come
+// back as 422 { message, errors: { [formPath]: message } }, which the renderer shows on the fields.
+// Forms with file fields are not served: the HTTP transport sends them as multipart, which this
+// server does not read. Built-in forms with files are skipped; form files with them are refused.
+// The form's spam protection is checked again here, including rate limits per client address and
+// duplicate answers. Both are remembered in memory only, so a restart forgets them.
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { FormSchema } from "@/types/form";
+import { builtInFormSchemas } from "@/data/formSchemas";
+import { parseFormSchemaDocument } from "@/lib/formSchemaDocument";
+import { migrateFormSchema } from "@/lib/schemaMigrations";
+import { lintFormSchema } from "@/lib/lintFormSchema";
+import { validateSubmission } from "@/lib/submissionValidation";
+import { hasFileFields } from "@/lib/fileFields";
+import {
+  PROOF_OF_WORK_MAX_AGE_MS,
+  SPAM_SIGNAL_HEADERS,
+  SpamCheckFailure,
+  checkSpamSignals,
+  getRecentSubmissionTimes,
+  getSpamProtection,
+  getSubmissionFingerprint,
+  isRateLimited,
+  readSpamSignalHeaders,
+} from "@/lib/spamProtection";
+import { StoredSubmission, buildSubmissionPayload, getSubmissionConfig } from "@/lib/transports";
+import { registerFieldType } from "@/lib/fieldTypes";
+import { CUSTOM_FIELD_TYPES } from "@/lib/customFieldTypes";
+
+const PORT = Number(process.env.SUBMISSION_SERVER_PORT || 3002);
+const SUBMISSIONS_DIR = process.env.SUBMISSIONS_DIR || "submissions";
+const MAX_BODY_BYTES = 1024 * 1024;
+const MINUTE_MS = 60 * 1000;
+
+// Bots that fill in the honeypot are answered as if their submission was stored
+const SPAM_CHECK_ERRORS: Record<Exclude<SpamCheckFailure, "honeypot">, [status: number, message: string]> = {
+  tooFast: [400, "The form was sent too soon after it was opened. Please try again."],
+  rateLimited: [429, "Too many submissions. Please try again later."],
+  proofOfWork: [403, "The submission has no valid proof of work."],
+  duplicate: [409, "These answers were already received."],
+};
+
+class RequestError extends Error {
+  status: number;
+  errors?: Record<string, string>;
+
+  constructor(status: number, message: string, errors?: Record<string, string>) {
+    super(message);
+    this.name = "RequestError";
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST,OPTIONS",
+    "Access-Control-Allow-Headers": [
+      "Content-Type,Accept,Authorization,X-Form-Id,X-Form-Revision",
+      ...Object.values(SPAM_SIGNAL_HEADERS),
+    ].join(","),
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  if (!req.headers["content-type"]?.startsWith("application/json")) {
+    throw new RequestError(415, "Submissions must be sent as JSON.");
+  }
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestError(413, "The submission is too large.");
+    }
+    chunks.push(chunk);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    if (typeof body !== "object" || body === null || Array.isArray(body)) throw new Error();
+    return body;
+  } catch {
+    throw new RequestError(400, "The submission is not a JSON object.");
+  }
+};
+
+// Multipart bodies cannot be read here, and the HTTP transport sends any form with files as multipart
+const isMultipartForm = (schema: FormSchema) =>
+  hasFileFields(schema.fields) || getSubmissionConfig(schema).encoding === "multipart";
+
+// Same checks the builder and renderer apply, so a broken schema fails at startup rather than per request
+const loadFormSchema = async (file: string): Promise<FormSchema> => {
+  const { schema, issues } = parseFormSchemaDocument(JSON.parse(await readFile(file, "utf8")));
+  if (!schema) {
+    throw new Error(`${file} is not a valid form schema:\n  ${issues.join("\n  ")}`);
+  }
+  const migrated = migrateFormSchema(schema);
+  if (isMultipartForm(migrated)) {
+    throw new Error(`${file} is sent as multipart because of its file fields or encoding, which this server does not read.`);
+  }
+  const errors = lintFormSchema(migrated).filter((diagnostic) => diagnostic.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(`${file} has problems that must be fixed first:\n  ${errors.map((error) => error.message).join("\n  ")}`);
+  }
+  return migrated;
+};
+
+// Stored like the browser transports store them, so the records can be read back the same way
+const storeSubmission = async (schema: FormSchema, data: Record<string, unknown>, directory: string): Promise<StoredSubmission> => {
+  const submission: StoredSubmission = {
+    id: randomUUID(),
+    formId: schema.id,
+    schemaRevision: schema.revision,
+    schemaVersion: schema.schemaVersion,
+    submittedAt: new Date().toISOString(),
+    data: JSON.parse(JSON.stringify(buildSubmissionPayload(data, getSubmissionConfig(schema)))),
+  };
+  await mkdir(directory, { recursive: true });
+  await appendFile(path.join(directory, `${encodeURIComponent(schema.id)}.jsonl`), `${JSON.stringify(submission)}\n`);
+  return submission;
+};
+
+interface SubmissionServerOptions {
+  // Where the JSON lines files are written, SUBMISSIONS_DIR when missing
+  submissionsDir?: string;
+}
+
+export const createSubmissionServer = (schemas: FormSchema[], { submissionsDir = SUBMISSIONS_DIR }: SubmissionServerOptions = {}) => {
+  const schemasById = new Map(schemas.map((schema) => [schema.id, schema]));
+  // Keyed by form id and client address
+  const submissionTimes = new Map<string, number[]>();
+  // Answer fingerprints and used proof of work challenges, keyed by form id, with when to forget them
+  const fingerprints = new Map<string, number>();
+  const usedChallenges = new Map<string, number>();
+
+  const forgetExpired = (now: number) => {
+    [fingerprints, usedChallenges].forEach((entries) =>
+      entries.forEach((expiresAt, key) => {
+        if (expiresAt <= now) entries.delete(key);
+      })
+    );
+    submissionTimes.forEach((times, key) => {
+      const schema = schemasById.get(key.split("\n")[0]);
+      const recent = schema ? getRecentSubmissionTimes(getSpamProtection(schema), times, now) : [];
+      if (recent.length > 0) {
+        submissionTimes.set(key, recent);
+      } else {
+        submissionTimes.delete(key);
+      }
+    });
+  };
+
+  const rejectSpam = (failure: Exclude<SpamCheckFailure, "honeypot">) => {
+    const [status, message] = SPAM_CHECK_ERRORS[failure];
+    return new RequestError(status, message);
+  };
+
+  // POST /forms/:id/submissions, or POST /submissions with the X-Form-Id header the HTTP transport sends
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    let segments: string[];
+    try {
+      segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    } catch {
+      throw new RequestError(400, `${url.pathname} is not a valid path.`);
+    }
+    const formId =
+      segments.length === 3 && segments[0] === "forms" && segments[2] === "submissions"
+        ? segments[1]
+        : segments.length === 1 && segments[0] === "submissions"
+          ? req.headers["x-form-id"]
+          : undefined;
+
+    if (formId === undefined) throw new RequestError(404, `No route for ${url.pathname}`);
+    if (req.method !== "POST") throw new RequestError(405, `${req.method} is not supported here.`);
+    const schema = typeof formId === "string" ? schemasById.get(formId) : undefined;
+    if (!schema) throw new RequestError(404, `Form "${String(formId)}" is not served here.`);
+
+    const config = getSpamProtection(schema);
+    const now = Date.now();
+    forgetExpired(now);
+    // Behind a proxy every client has the proxy's address, so limit there instead
+    const clientKey = `${schema.id}\n${req.socket.remoteAddress}`;
+    if (isRateLimited(config, submissionTimes.get(clientKey) ?? [], now)) throw rejectSpam("rateLimited");
+
+    const payload = await readJsonBody(req);
+    const signals = readSpamSignalHeaders((name) => {
+      const value = req.headers[name.toLowerCase()];
+      return Array.isArray(value) ? value[0] : value;
+    });
+    const failure = await checkSpamSignals(schema, payload, signals, now);
+    if (failure === "honeypot") return sendJson(res, 201, { id: randomUUID() });
+    if (failure) throw rejectSpam(failure);
+
+    // Messages follow the browser's language when the form has a translation for it
+    const locale = req.headers["accept-language"]?.split(",")[0]?.split(";")[0]?.trim();
+    const result = validateSubmission(schema, payload, locale);
+    if (result.success === false) {
+      throw new RequestError(422, "Some answers were not accepted.", result.errors);
+    }
+    const fingerprint = config.duplicateWindowMinutes ? `${schema.id}\n${await getSubmissionFingerprint(result.data)}` : undefined;
+
+    // Checked and claimed with no await in between, so requests that arrive while this one is
+    // being stored cannot pass the same checks. A proof can be sent again after a rejected
+    // submission, but not after an accepted one.
+    const challengeKey = signals.proof && `${schema.id}\n${signals.proof.challenge}`;
+    const times = submissionTimes.get(clientKey) ?? [];
+    if (isRateLimited(config, times, now)) throw rejectSpam("rateLimited");
+    if (config.proofOfWorkBits && usedChallenges.has(challengeKey)) throw rejectSpam("proofOfWork");
+    if (fingerprint && fingerprints.has(fingerprint)) throw rejectSpam("duplicate");
+    if (config.rateLimit) submissionTimes.set(clientKey, [...times, now]);
+    if (config.proofOfWorkBits) usedChallenges.set(challengeKey, now + PROOF_OF_WORK_MAX_AGE_MS);
+    if (fingerprint) fingerprints.set(fingerprint, now + config.duplicateWindowMinutes * MINUTE_MS);
+
+    let submission: StoredSubmission;
+    try {
+      submission = await storeSubmission(schema, result.data, submissionsDir);
+    } catch (error) {
+      // Nothing was stored, so the same answers may be sent again
+      if (config.rateLimit) submissionTimes.set(clientKey, (submissionTimes.get(clientKey) ?? []).filter((time) => time !== now));
+      if (config.proofOfWorkBits) usedChallenges.delete(challengeKey);
+      if (fingerprint) fingerprints.delete(fingerprint);
+      throw error;
+    }
+
+    sendJson(res, 201, { id: submission.id });
+  };
+
+  return createServer(async (req, res) => {
+    if (req.method === "OPTIONS") return sendJson(res, 204);
+    try {
+      await handleRequest(req, res);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        sendJson(res, error.status, { message: error.message, errors: error.errors });
+      } else {
+        console.error(error);
+        sendJson(res, 500, { message: "The submission could not be stored." });
+      }
+    }
+  });
+};
+
+const start = async (files: string[]) => {
+  CUSTOM_FIELD_TYPES.forEach(registerFieldType);
+  const schemas =
+    files.length > 0 ? await Promise.all(files.map(loadFormSchema)) : builtInFormSchemas.filter((schema) => !isMultipartForm(schema));
+  createSubmissionServer(schemas).listen(PORT, () => {
+    console.log(`Accepting submissions for ${schemas.map((schema) => schema.id).join(", ")} on http://localhost:${PORT}`);
+  });
+};
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  start(process.argv.slice(2)).catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,32 @@
+import { afterEach } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+// Browser APIs the Radix components use that jsdom does not implement. Server tests run in
+// the node environment, which has no DOM to patch.
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+if (typeof window !== "undefined") {
+  globalThis.ResizeObserver ??= ResizeObserverStub;
+  Element.prototype.scrollIntoView ??= () => {};
+  Element.prototype.hasPointerCapture ??= () => false;
+  window.matchMedia ??= (query: string) =>
+    ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: () => {},
+      removeListener: () => {},
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      dispatchEvent: () => false,
+    }) as MediaQueryList;
+
+  afterEach(() => {
+    cleanup();
+    localStorage.clear();
+  });
+}
@@ -0,0 +1,36 @@
+import { ComponentType } from "react";
+import { Control, FieldErrors, UseFormRegister } from "react-hook-form";
+import { FieldType, FormField } from "@/types/form";
+
+export interface FieldAriaProps {
+  "aria-invalid"?: boolean;
+  "aria-describedby"?: string;
+  "aria-required"?: boolean;
+}
+
+// What a renderer gets to draw the control of one field. The label and error message
+// around it are drawn by DynamicField.
+export interface FieldControlProps {
+  field: FormField;
+  // Form path of the value; differs from the field id inside groups, e.g. "attendees.0.email"
+  name: string;
+  // Id for the focusable element, which the label and error summary point at
+  inputId: string;
+  // Id of the field's label, for controls that are named with aria-labelledby
+  labelId: string;
+  // Ties the control to its error message. Plain buttons should leave out aria-required.
+  ariaProps: FieldAriaProps;
+  register: UseFormRegister<Record<string, unknown>>;
+  errors: FieldErrors;
+  control: Control<Record<string, unknown>>;
+  locale: string;
+  // Computed values come from other fields, so the control only displays them
+  readOnly: boolean;
+  // The full renderer set, so groups draw their fields with the same renderers
+  renderers: FieldRenderers;
+}
+
+export type FieldRenderer = ComponentType<FieldControlProps>;
+
+// Controls by field type. Types without an entry use the control they were registered with.
+export type FieldRenderers = Partial<Record<FieldType, FieldRenderer>>;
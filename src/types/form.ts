@@ -1,6 +1,57 @@
+export type FieldConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'in'
+  | 'notIn'
+  | 'isEmpty'
+  | 'isNotEmpty'
+  | 'isTrue'
+  | 'isFalse'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
+
+export type FieldConditionValue = string | number | boolean;
+
+export interface FieldCondition {
+  field: string;
+  operator: FieldConditionOperator;
+  value?: FieldConditionValue | FieldConditionValue[];
+}
+
+// Conditions can be combined with all/any/not to build more complex rules
+export type FieldRule =
+  | FieldCondition
+  | { all: FieldRule[] }
+  | { any: FieldRule[] }
+  | { not: FieldRule };
+
+export interface FieldExpressionRule {
+  expression: string;
+  message: string;
+}
+
+export type BuiltInFieldType =
+  | 'text'
+  | 'email'
+  | 'textarea'
+  | 'select'
+  | 'radio'
+  | 'multiselect'
+  | 'checkboxGroup'
+  | 'checkbox'
+  | 'number'
+  | 'date'
+  | 'file'
+  | 'group';
+
+// Other types are added at runtime with registerFieldType
+export type FieldType = BuiltInFieldType | (string & {});
+
 export interface FormField {
   id: string;
-  type: 'text' | 'email' | 'textarea' | 'select' | 'checkbox' | 'number' | 'date';
+  type: FieldType;
   label: string;
   placeholder?: string;
   required?: boolean;
@@ -10,15 +61,133 @@ export interface FormField {
     pattern?: string;
     min?: number;
     max?: number;
+    // multiselect and checkboxGroup
+    minSelections?: number;
+    maxSelections?: number;
+    // file: largest allowed size per file in bytes, and how many files may be attached
+    maxFileSize?: number;
+    maxFiles?: number;
   };
   options?: { value: string; label: string }[];
+  // file: same syntax as the HTML accept attribute, e.g. ".pdf,image/*"
+  accept?: string;
+  // group: the sub-form collected for each entry. Rules on these fields refer to
+  // fields of the same entry.
+  fields?: FormField[];
+  // group: how many entries can be added; without it the group has exactly one entry
+  repeatable?: { min?: number; max?: number };
+  // Registered field types: options of the type itself, e.g. the number of stars of a rating
+  settings?: Record<string, unknown>;
   icon?: string;
+  visibleWhen?: FieldRule;
+  requiredWhen?: FieldRule;
+  // Expressions over other fields' values (see lib/expressions), e.g. "quantity * unitPrice".
+  // A computed field is read-only and always holds the expression's result.
+  compute?: string;
+  // Evaluated once when the form opens, e.g. "today()"
+  defaultValue?: string;
+  // Cross-field checks: the field is invalid while an expression evaluates to false
+  validate?: FieldExpressionRule[];
+  // Never written to browser storage, e.g. in saved drafts
+  sensitive?: boolean;
+}
+
+export interface FormStep {
+  id: string;
+  title: string;
+  description?: string;
+  // Ids of the fields shown on this step, in display order
+  fields: string[];
+}
+
+export type SubmissionTransportKind = 'http' | 'mailto' | 'memory' | 'localStorage';
+
+export interface SubmissionConfig {
+  transport: SubmissionTransportKind;
+  // http
+  endpoint?: string;
+  method?: 'POST' | 'PUT' | 'PATCH';
+  headers?: Record<string, string>;
+  encoding?: 'json' | 'multipart';
+  // mailto
+  to?: string;
+  subject?: string;
+  // localStorage
+  storageKey?: string;
+  // Renames field ids to payload keys; unmapped fields keep their id
+  payloadMapping?: Record<string, string>;
+  successMessage?: string;
+}
+
+export interface FieldTranslation {
+  label?: string;
+  placeholder?: string;
+  // Option labels keyed by option value
+  options?: Record<string, string>;
+  // Messages for the field's validate rules, in the same order
+  validate?: string[];
+  // group: translations of the sub-fields, keyed by id
+  fields?: Record<string, FieldTranslation>;
+}
+
+// Text shown to people filling in the form in one locale. Anything left out falls back
+// to the text in the schema itself.
+export interface FormTranslation {
+  title?: string;
+  description?: string;
+  submitLabel?: string;
+  steps?: Record<string, { title?: string; description?: string }>;
+  fields?: Record<string, FieldTranslation>;
+}
+
+// Unfinished answers are saved in the browser so they can be picked up again later
+export interface DraftConfig {
+  enabled?: boolean;
+  // Saved drafts are thrown away after this many days (7 when missing)
+  expiresAfterDays?: number;
+}
+
+// Checks that keep automated submissions out of public forms. Each one is off until set.
+export interface SpamProtectionConfig {
+  // Adds a hidden input that people never see but form-filling bots fill in
+  honeypot?: boolean;
+  // Name of the hidden input, "website" when missing. It must not be a field id.
+  honeypotField?: string;
+  // Submissions sent sooner than this after the form was opened are refused
+  minSecondsToSubmit?: number;
+  // Submissions allowed per browser, and per client address on a server, within the window
+  rateLimit?: { maxSubmissions: number; windowMinutes: number };
+  // Leading zero bits of the SHA-256 proof of work the browser computes while the form is
+  // being filled in. Each extra bit doubles the work; 16 takes a few seconds.
+  proofOfWorkBits?: number;
+  // Servers refuse answers identical to ones received within this many minutes
+  duplicateWindowMinutes?: number;
 }
 
 export interface FormSchema {
   id: string;
+  // Version of the document shape in this file; older documents are upgraded on load
+  schemaVersion?: number;
+  // Incremented every time a saved form is updated
+  revision?: number;
+  updatedAt?: string;
   title: string;
   description?: string;
   fields: FormField[];
   submitLabel?: string;
-}
\ No newline at end of file
+  steps?: FormStep[];
+  submission?: SubmissionConfig;
+  // BCP 47 tag of the language the schema text is written in; "en" when missing
+  defaultLocale?: string;
+  // Keyed by BCP 47 tag, e.g. "es" or "ar"
+  translations?: Record<string, FormTranslation>;
+  // Drafts are on unless this sets enabled to false
+  drafts?: DraftConfig;
+  spamProtection?: SpamProtectionConfig;
+}
+
+export interface FormSchemaRevision {
+  revision: number;
+  savedAt: string;
+  schema: FormSchema;
+}
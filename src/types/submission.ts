@@ -0,0 +1,49 @@
+import { BuiltInFieldType, FormField } from "@/types/form";
+
+// Loose enough to accept `as const` schemas, whose arrays are readonly
+type SchemaField = { readonly id: string; readonly type: FormField["type"] };
+
+// The value a field contributes to the submitted data; registered types are not known here
+export type InferFieldValue<F extends SchemaField> = F extends { type: "number" }
+  ? number
+  : F extends { type: "date" }
+    ? Date
+    : F extends { type: "file" }
+      ? File[]
+      : F extends { type: "checkbox" }
+        ? boolean
+        : F extends { type: "select" | "radio"; options: readonly { value: infer V }[] }
+          ? V
+          : F extends { type: "multiselect" | "checkboxGroup"; options: readonly { value: infer V }[] }
+            ? V[]
+            : F extends { type: "multiselect" | "checkboxGroup" }
+              ? string[]
+              : F extends { type: "group"; fields: readonly SchemaField[] }
+                ? InferFields<F["fields"][number]>[]
+                : F extends { type: "group" }
+                  ? Record<string, unknown>[]
+                  : F extends { type: BuiltInFieldType }
+                    ? string
+                    : unknown;
+
+// Present whenever the form submits: required, and never hidden or conditionally required
+type IsAlwaysPresent<F extends SchemaField> = F extends { required: true }
+  ? F extends { visibleWhen: object } | { requiredWhen: object }
+    ? false
+    : true
+  : false;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferFields<Fields extends SchemaField> = Simplify<
+  {
+    [F in Fields as IsAlwaysPresent<F> extends true ? F["id"] : never]: InferFieldValue<F>;
+  } & {
+    [F in Fields as IsAlwaysPresent<F> extends true ? never : F["id"]]?: InferFieldValue<F>;
+  }
+>;
+
+// Schemas whose field ids are plain strings (loaded at runtime) fall back to an untyped record
+export type InferSubmission<S extends { readonly fields: readonly SchemaField[] }> = string extends S["fields"][number]["id"]
+  ? Record<string, unknown>
+  : InferFields<S["fields"][number]>;